@@ -1,4 +1,7 @@
 import type { HistoricalMarket, PriceTick } from "./types";
+import type { EndpointsConfig } from "../config";
+import { MarketCalendar } from "../market-calendar";
+import { BTC_HOURLY_FAMILY, outcomeIndexes, type MarketFamily } from "../market-family";
 import {
   storeHistoricalMarket,
   storePriceTicks,
@@ -6,13 +9,23 @@ import {
   loadPriceTicks,
   getPriceTickCount,
   initBacktestDatabase,
+  type HistoricalMarketRow,
+  type PriceHistoryRow,
 } from "../db";
 
+// Defaults, overridden by endpoints.gammaUrl / endpoints.clobUrl
 const GAMMA_API = "https://gamma-api.polymarket.com";
 const CLOB_API = "https://clob.polymarket.com";
 
+export type DataEndpoints = Pick<EndpointsConfig, "gammaUrl" | "clobUrl">;
+const DEFAULT_ENDPOINTS: DataEndpoints = { gammaUrl: GAMMA_API, clobUrl: CLOB_API };
+
 // Rate limiting
 const RATE_LIMIT_DELAY = 100; // ms between requests
+
+// Recorded ticks further apart than this (bot stopped or disconnected) leave a gap that
+// synthetic ticks fill
+const MAX_RECORDED_GAP_MS = 5 * 60 * 1000;
 let lastRequestTime = 0;
 
 async function rateLimitedFetch(url: string): Promise<Response> {
@@ -30,55 +43,23 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Generate slug for a BTC 1-hour market based on timestamp
- * Format: bitcoin-up-or-down-{month}-{day}-{hour}{am/pm}-et
- * Example: bitcoin-up-or-down-january-24-5pm-et
- */
-function generateBtcHourlySlug(date: Date): string {
-  // Convert to Eastern Time
-  const etDate = new Date(date.toLocaleString("en-US", { timeZone: "America/New_York" }));
-
-  const months = ["january", "february", "march", "april", "may", "june",
-                  "july", "august", "september", "october", "november", "december"];
-  const month = months[etDate.getMonth()];
-  const day = etDate.getDate();
-  let hour = etDate.getHours();
-  const ampm = hour >= 12 ? "pm" : "am";
-  hour = hour % 12 || 12;  // Convert to 12-hour format
-
-  return `bitcoin-up-or-down-${month}-${day}-${hour}${ampm}-et`;
-}
-
-/**
- * Generate all market slugs for BTC 1-hour markets in a date range
+ * Generate all market slugs of a family in a date range
  */
-export function generateMarketSlugs(startDate: Date, endDate: Date): string[] {
-  const slugs: string[] = [];
-  const intervalMs = 60 * 60 * 1000; // 1 hour in ms
-
-  // Round start to nearest 1-hour interval
-  const startMs = Math.ceil(startDate.getTime() / intervalMs) * intervalMs;
-  const endMs = Math.floor(endDate.getTime() / intervalMs) * intervalMs;
-
-  for (let ts = startMs; ts <= endMs; ts += intervalMs) {
-    slugs.push(generateBtcHourlySlug(new Date(ts)));
-  }
-
-  // Remove duplicates (slug format can create duplicates for same ET hour)
-  return [...new Set(slugs)];
+export function generateMarketSlugs(startDate: Date, endDate: Date, family: MarketFamily = BTC_HOURLY_FAMILY): string[] {
+  return new MarketCalendar(family).between(startDate, endDate).map(period => period.slug);
 }
 
 /**
  * Fetch market metadata from Gamma API
  */
-async function fetchMarketFromGamma(slug: string): Promise<{
+async function fetchMarketFromGamma(gammaUrl: string, slug: string, family: MarketFamily): Promise<{
   question: string;
   endDate: Date;
   upTokenId: string;
   downTokenId: string;
 } | null> {
   try {
-    const res = await rateLimitedFetch(`${GAMMA_API}/events?slug=${slug}`);
+    const res = await rateLimitedFetch(`${gammaUrl}/events?slug=${slug}`);
     if (!res.ok) return null;
 
     const events = await res.json();
@@ -111,8 +92,7 @@ async function fetchMarketFromGamma(slug: string): Promise<{
       return null;
     }
 
-    const upIndex = outcomes.findIndex(o => o.toLowerCase() === "up");
-    const downIndex = outcomes.findIndex(o => o.toLowerCase() === "down");
+    const { up: upIndex, down: downIndex } = outcomeIndexes(family, outcomes);
 
     if (upIndex === -1 || downIndex === -1) {
       return null;
@@ -131,19 +111,21 @@ async function fetchMarketFromGamma(slug: string): Promise<{
 
 /**
  * Fetch price history from CLOB API
+ * @param clobUrl - CLOB API base URL
  * @param tokenId - The token ID to fetch prices for
  * @param startTs - Start timestamp in seconds
  * @param endTs - End timestamp in seconds
  * @param fidelity - Time resolution in minutes (default 1)
  */
 async function fetchPriceHistory(
+  clobUrl: string,
   tokenId: string,
   startTs: number,
   endTs: number,
   fidelity: number = 1
 ): Promise<Array<{ t: number; p: number }>> {
   try {
-    const url = `${CLOB_API}/prices-history?market=${tokenId}&startTs=${startTs}&endTs=${endTs}&fidelity=${fidelity}`;
+    const url = `${clobUrl}/prices-history?market=${tokenId}&startTs=${startTs}&endTs=${endTs}&fidelity=${fidelity}`;
     const res = await rateLimitedFetch(url);
     if (!res.ok) return [];
 
@@ -218,68 +200,92 @@ export interface FetchProgress {
 
 export type ProgressCallback = (progress: FetchProgress) => void;
 
+/**
+ * Ticks for one token: synthetic only, or every recorded tick plus the synthetic ones
+ * outside the recorded span or inside gaps in the recording
+ */
+function selectTicks(rows: PriceHistoryRow[], preferRecorded: boolean): PriceHistoryRow[] {
+  const synthetic = rows.filter(r => !r.recorded);
+  const recorded = rows.filter(r => r.recorded);
+  if (!preferRecorded || recorded.length === 0) return synthetic;
+
+  let next = 0; // First recorded tick after the synthetic tick
+  const uncovered = synthetic.filter(tick => {
+    while (next < recorded.length && recorded[next].timestamp < tick.timestamp) next++;
+    if (next === 0 || next === recorded.length) return true;
+    return recorded[next].timestamp - recorded[next - 1].timestamp > MAX_RECORDED_GAP_MS;
+  });
+  return [...recorded, ...uncovered].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Build a market from the database
+ */
+function loadStoredMarket(cached: HistoricalMarketRow, preferRecorded: boolean): HistoricalMarket {
+  const toTick = (t: PriceHistoryRow): PriceTick => ({
+    timestamp: t.timestamp,
+    tokenId: t.token_id,
+    marketSlug: t.market_slug,
+    bestBid: t.best_bid,
+    bestAsk: t.best_ask,
+    midPrice: t.mid_price,
+  });
+  const upTicks = selectTicks(loadPriceTicks(cached.up_token_id), preferRecorded);
+  const downTicks = selectTicks(loadPriceTicks(cached.down_token_id), preferRecorded);
+
+  return {
+    slug: cached.market_slug,
+    question: cached.question || "",
+    startDate: new Date(cached.start_date),
+    endDate: new Date(cached.end_date),
+    upTokenId: cached.up_token_id,
+    downTokenId: cached.down_token_id,
+    outcome: cached.outcome as "UP" | "DOWN" | null,
+    priceTicks: [...upTicks.map(toTick), ...downTicks.map(toTick)].sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
 /**
  * Fetch historical data for a single market
+ * With `preferRecorded`, ticks recorded live by the bot replace synthetic ones where available
  */
 export async function fetchMarketData(
   slug: string,
-  forceRefetch: boolean = false
+  forceRefetch: boolean = false,
+  endpoints: DataEndpoints = DEFAULT_ENDPOINTS,
+  preferRecorded: boolean = false,
+  family: MarketFamily = BTC_HOURLY_FAMILY
 ): Promise<HistoricalMarket | null> {
-  // Check cache first
+  // Check cache first (recorded ticks alone don't count: synthetic data is still fetched)
   const cached = getHistoricalMarket(slug);
-  if (cached && !forceRefetch) {
-    // Load price ticks from database
-    const tickCount = getPriceTickCount(slug);
-    if (tickCount > 0) {
-      const upTicks = loadPriceTicks(cached.up_token_id);
-      const downTicks = loadPriceTicks(cached.down_token_id);
-
-      return {
-        slug: cached.market_slug,
-        question: cached.question || "",
-        startDate: new Date(cached.start_date),
-        endDate: new Date(cached.end_date),
-        upTokenId: cached.up_token_id,
-        downTokenId: cached.down_token_id,
-        outcome: cached.outcome as "UP" | "DOWN" | null,
-        priceTicks: [...upTicks.map(t => ({
-          timestamp: t.timestamp,
-          tokenId: t.token_id,
-          marketSlug: t.market_slug,
-          bestBid: t.best_bid,
-          bestAsk: t.best_ask,
-          midPrice: t.mid_price,
-        })), ...downTicks.map(t => ({
-          timestamp: t.timestamp,
-          tokenId: t.token_id,
-          marketSlug: t.market_slug,
-          bestBid: t.best_bid,
-          bestAsk: t.best_ask,
-          midPrice: t.mid_price,
-        }))].sort((a, b) => a.timestamp - b.timestamp),
-      };
-    }
+  if (cached && !forceRefetch && getPriceTickCount(slug, false) > 0) {
+    return loadStoredMarket(cached, preferRecorded);
   }
 
+  // Markets the API has no data for can still be replayed from recorded ticks
+  const recordedOnly = () =>
+    preferRecorded && cached && getPriceTickCount(slug, true) > 0 ? loadStoredMarket(cached, true) : null;
+
   // Fetch from API
-  const marketMeta = await fetchMarketFromGamma(slug);
+  const marketMeta = await fetchMarketFromGamma(endpoints.gammaUrl, slug, family);
   if (!marketMeta) {
-    return null;
+    return recordedOnly();
   }
 
-  // Calculate market start time (60 min before end)
-  const startDate = new Date(marketMeta.endDate.getTime() - 60 * 60 * 1000);
+  // Market start from the family's calendar (one market duration before end if the slug does not parse)
+  const startDate = new MarketCalendar(family).parse(slug, marketMeta.endDate.getTime())?.start ??
+    new Date(marketMeta.endDate.getTime() - family.durationMs);
   const startTs = Math.floor(startDate.getTime() / 1000);
   const endTs = Math.floor(marketMeta.endDate.getTime() / 1000);
 
   // Fetch price history for both tokens
   const [upHistory, downHistory] = await Promise.all([
-    fetchPriceHistory(marketMeta.upTokenId, startTs, endTs),
-    fetchPriceHistory(marketMeta.downTokenId, startTs, endTs),
+    fetchPriceHistory(endpoints.clobUrl, marketMeta.upTokenId, startTs, endTs),
+    fetchPriceHistory(endpoints.clobUrl, marketMeta.downTokenId, startTs, endTs),
   ]);
 
   if (upHistory.length === 0 && downHistory.length === 0) {
-    return null;
+    return recordedOnly();
   }
 
   // Determine outcome
@@ -314,6 +320,10 @@ export async function fetchMarketData(
     midPrice: t.midPrice,
   })));
 
+  if (preferRecorded && getPriceTickCount(slug, true) > 0) {
+    return loadStoredMarket(getHistoricalMarket(slug)!, true);
+  }
+
   return {
     slug,
     question: marketMeta.question,
@@ -335,11 +345,14 @@ export async function fetchHistoricalDataset(
   options: {
     forceRefetch?: boolean;
     onProgress?: ProgressCallback;
+    endpoints?: DataEndpoints;
+    preferRecorded?: boolean;
+    family?: MarketFamily;
   } = {}
 ): Promise<HistoricalMarket[]> {
   initBacktestDatabase();
 
-  const slugs = generateMarketSlugs(startDate, endDate);
+  const slugs = generateMarketSlugs(startDate, endDate, options.family);
   const markets: HistoricalMarket[] = [];
   let fetchedCount = 0;
   let cachedCount = 0;
@@ -350,7 +363,7 @@ export async function fetchHistoricalDataset(
 
     // Check if cached
     const cached = getHistoricalMarket(slug);
-    const tickCount = cached ? getPriceTickCount(slug) : 0;
+    const tickCount = cached ? getPriceTickCount(slug, false) : 0;
 
     if (cached && tickCount > 0 && !options.forceRefetch) {
       cachedCount++;
@@ -362,7 +375,7 @@ export async function fetchHistoricalDataset(
       });
 
       // Load from cache
-      const market = await fetchMarketData(slug, false);
+      const market = await fetchMarketData(slug, false, options.endpoints, options.preferRecorded, options.family);
       if (market) {
         markets.push(market);
       }
@@ -376,7 +389,7 @@ export async function fetchHistoricalDataset(
       status: "fetching",
     });
 
-    const market = await fetchMarketData(slug, options.forceRefetch);
+    const market = await fetchMarketData(slug, options.forceRefetch, options.endpoints, options.preferRecorded, options.family);
 
     if (market) {
       markets.push(market);
@@ -401,15 +414,18 @@ export async function fetchHistoricalDataset(
  */
 export async function loadCachedDataset(
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  endpoints: DataEndpoints = DEFAULT_ENDPOINTS,
+  preferRecorded: boolean = false,
+  family: MarketFamily = BTC_HOURLY_FAMILY
 ): Promise<HistoricalMarket[]> {
   initBacktestDatabase();
 
-  const slugs = generateMarketSlugs(startDate, endDate);
+  const slugs = generateMarketSlugs(startDate, endDate, family);
   const markets: HistoricalMarket[] = [];
 
   for (const slug of slugs) {
-    const market = await fetchMarketData(slug, false);
+    const market = await fetchMarketData(slug, false, endpoints, preferRecorded, family);
     if (market && market.priceTicks.length > 0) {
       markets.push(market);
     }
@@ -424,6 +440,7 @@ export async function loadCachedDataset(
 export function getCacheStats(): {
   totalMarkets: number;
   totalPriceTicks: number;
+  recordedPriceTicks: number;
   dateRange: { earliest: Date | null; latest: Date | null };
 } {
   initBacktestDatabase();
@@ -435,11 +452,13 @@ export function getCacheStats(): {
   const allMarkets = loadHistoricalMarketsInRange(new Date(0), new Date(Date.now() + 365 * 24 * 60 * 60 * 1000));
 
   let totalTicks = 0;
+  let recordedTicks = 0;
   let earliest: Date | null = null;
   let latest: Date | null = null;
 
   for (const m of allMarkets) {
     totalTicks += getPriceTickCount(m.market_slug);
+    recordedTicks += getPriceTickCount(m.market_slug, true);
     const startDate = new Date(m.start_date);
     const endDate = new Date(m.end_date);
 
@@ -450,6 +469,7 @@ export function getCacheStats(): {
   return {
     totalMarkets: marketCount,
     totalPriceTicks: totalTicks,
+    recordedPriceTicks: recordedTicks,
     dateRange: { earliest, latest },
   };
 }
@@ -8,6 +8,11 @@ import type {
   SimulatedPosition,
   ExitReason,
 } from "./types";
+import { ThresholdStrategy, type MarketSnapshot, type Strategy, type TradeHistory } from "../strategy";
+import { calculatePositionSize } from "../sizing";
+import { applyBuyFee, applySellFee, feeRate } from "../fees";
+import { checkReentry, type ReentryHistory } from "../reentry";
+import { checkRiskGuards, type RiskHalt, type RiskHistory } from "../risk";
 
 interface EquityPoint {
   timestamp: number;
@@ -21,21 +26,42 @@ interface DrawdownPoint {
 
 /**
  * Core backtesting engine that simulates trading logic
- * Mirrors the exact behavior from bot.ts (normal mode only for 1-hour markets)
+ * Entry/exit decisions come from the same Strategy the live bot uses
  */
 export class BacktestEngine {
   private config: BacktestConfig;
+  private strategy: Strategy;
   private balance: number;
   private savedProfit: number = 0; // Profit taken out via compound limit
-  private position: SimulatedPosition | null = null;
+  private positions: Map<string, SimulatedPosition> = new Map(); // tokenId -> position
   private trades: BacktestTrade[] = [];
   private equityCurve: EquityPoint[] = [];
   private peakBalance: number;
-  private lastTrade: BacktestTrade | null = null;
+  private lastWinningTrades: Map<string, BacktestTrade> = new Map(); // "slug:side" -> trade
+  private lastLosingTrades: Map<string, BacktestTrade> = new Map(); // "slug:side" -> trade
+  private lastStopLosses: Map<string, number> = new Map(); // slug -> stop-loss exit timestamp
+  private marketEntries: Map<string, number> = new Map(); // slug -> entry count
+  private entryTimestamps: number[] = []; // All entry timestamps, in order
+  private riskHalts: RiskHalt[] = []; // Circuit breaker halts, in order
+  private riskHalt: RiskHalt | null = null; // Active halt (entries disabled until it ends)
+  private riskPeakEquity: number = 0; // Highest equity since the risk guards were last reset
+  private riskResetAt: number = 0; // When the risk guards were last reset
   private currentMarket: HistoricalMarket | null = null;
 
   constructor(config: BacktestConfig) {
     this.config = config;
+    this.strategy = new ThresholdStrategy({
+      entryThreshold: config.entryThreshold,
+      maxEntryPrice: config.maxEntryPrice,
+      stopLoss: config.stopLoss,
+      trailingStop: config.trailingStop,
+      trailingStopType: config.trailingStopType,
+      stopLossDelayMs: config.stopLossDelayMs,
+      stopLossConfirmTicks: config.stopLossConfirmTicks,
+      maxSpread: config.maxSpread,
+      timeWindowMs: config.timeWindowMs,
+      profitTarget: config.profitTarget,
+    });
     this.balance = config.startingBalance;
     this.peakBalance = config.startingBalance;
     this.savedProfit = 0;
@@ -49,11 +75,19 @@ export class BacktestEngine {
     // Reset state
     this.balance = this.config.startingBalance;
     this.savedProfit = 0;
-    this.position = null;
+    this.positions.clear();
     this.trades = [];
     this.equityCurve = [];
     this.peakBalance = this.config.startingBalance;
-    this.lastTrade = null;
+    this.lastWinningTrades.clear();
+    this.lastLosingTrades.clear();
+    this.lastStopLosses.clear();
+    this.marketEntries.clear();
+    this.entryTimestamps = [];
+    this.riskHalts = [];
+    this.riskHalt = null;
+    this.riskPeakEquity = this.config.startingBalance;
+    this.riskResetAt = 0;
 
     // Build a map of markets by slug for quick lookup
     const marketMap = new Map<string, HistoricalMarket>();
@@ -72,31 +106,13 @@ export class BacktestEngine {
     // Sort ALL ticks chronologically
     allTicks.sort((a, b) => a.tick.timestamp - b.tick.timestamp);
 
-    // Track which markets have expired (to force close positions)
-    const expiredMarkets = new Set<string>();
-
     // Process all ticks in chronological order
     for (const { tick, market } of allTicks) {
-      // Check if any market has expired and we have a position in it
-      if (this.position && !expiredMarkets.has(this.position.marketSlug)) {
-        const positionMarket = marketMap.get(this.position.marketSlug);
-        if (positionMarket && tick.timestamp >= positionMarket.endDate.getTime()) {
-          this.closePositionAtExpiry(positionMarket);
-          expiredMarkets.add(this.position?.marketSlug || positionMarket.slug);
-        }
-      }
+      // Force close positions in any market that has ended
+      this.closeExpiredPositions(tick.timestamp, marketMap);
 
       // Skip ticks from expired markets
-      if (expiredMarkets.has(market.slug)) {
-        continue;
-      }
-
-      // Mark market as expired if this tick is at or after end time
       if (tick.timestamp >= market.endDate.getTime()) {
-        if (this.position && this.position.marketSlug === market.slug) {
-          this.closePositionAtExpiry(market);
-        }
-        expiredMarkets.add(market.slug);
         continue;
       }
 
@@ -104,11 +120,11 @@ export class BacktestEngine {
       this.processTick(tick, market);
     }
 
-    // Force close any remaining open position
-    if (this.position) {
-      const market = marketMap.get(this.position.marketSlug);
+    // Force close any remaining open positions
+    for (const position of [...this.positions.values()]) {
+      const market = marketMap.get(position.marketSlug);
       if (market) {
-        this.closePositionAtExpiry(market);
+        this.closePositionAtExpiry(position, market);
       }
     }
 
@@ -123,6 +139,7 @@ export class BacktestEngine {
       drawdownCurve: this.calculateDrawdownCurve(),
       savedProfit: this.savedProfit,
       finalBalance: this.balance,
+      riskHalts: this.riskHalts,
     };
   }
 
@@ -130,86 +147,123 @@ export class BacktestEngine {
    * Process a single price tick
    */
   private processTick(tick: PriceTick, market: HistoricalMarket): void {
+    const snapshot = this.toSnapshot(tick, market);
+
     // If we have a position for this token, check exit conditions
-    if (this.position && this.position.tokenId === tick.tokenId) {
-      // Check profit target
-      if (tick.bestBid >= this.config.profitTarget) {
-        this.executeExit(this.config.profitTarget, tick.timestamp, "PROFIT_TARGET");
-        return;
+    const position = this.positions.get(tick.tokenId);
+    if (position) {
+      Object.assign(position, this.strategy.trackPosition(position, snapshot));
+      const decision = this.strategy.evaluateExit(position, snapshot);
+      if (decision.action === "TAKE_PROFIT") {
+        this.executeExit(position, decision.price, tick.timestamp, "PROFIT_TARGET");
+      } else if (decision.action === "STOP_LOSS") {
+        this.executeExit(position, decision.price, tick.timestamp, "STOP_LOSS");
       }
-
-      // Check stop-loss
-      this.checkStopLoss(tick);
       return;
     }
 
-    // If no position, check entry conditions
-    if (!this.position && this.balance >= 1) {
-      this.checkEntry(tick, market);
+    // If below maxPositions and no circuit breaker is active, check entry conditions
+    if (this.isRiskHalted(tick.timestamp)) return;
+    if (this.positions.size < this.config.maxPositions && this.balance >= 1) {
+      const decision = this.strategy.evaluateEntry(snapshot, this.tradeHistory);
+      if (decision.enter && checkReentry(this.config.reentry, this.reentryHistory, snapshot).allowed) {
+        this.executeEntry(tick, market, snapshot.side);
+      }
     }
   }
 
   /**
-   * Check stop-loss conditions - execute immediately if triggered
+   * Build the strategy's view of a tick
    */
-  private checkStopLoss(tick: PriceTick): void {
-    if (!this.position) return;
-
-    const currentBid = tick.bestBid;
-
-    // Check if price is below stop-loss threshold - execute immediately
-    if (currentBid <= this.config.stopLoss) {
-      this.executeExit(currentBid, tick.timestamp, "STOP_LOSS");
-    }
+  private toSnapshot(tick: PriceTick, market: HistoricalMarket): MarketSnapshot {
+    return {
+      marketSlug: market.slug,
+      tokenId: tick.tokenId,
+      side: tick.tokenId === market.upTokenId ? "UP" : "DOWN",
+      bestBid: tick.bestBid,
+      bestAsk: tick.bestAsk,
+      timestamp: tick.timestamp,
+      marketEndTime: market.endDate.getTime(),
+    };
   }
 
   /**
-   * Check entry conditions
+   * In-memory trade history (mirrors the bot's SQLite lookups)
    */
-  private checkEntry(tick: PriceTick, market: HistoricalMarket): void {
-    const now = tick.timestamp;
-    const marketEndTime = market.endDate.getTime();
-
-    // Check time window (within configured window before market end)
-    const timeRemaining = marketEndTime - now;
-    if (timeRemaining <= 0 || timeRemaining > this.config.timeWindowMs) {
-      return;
-    }
+  private tradeHistory: TradeHistory = {
+    lastWinningTrade: (marketSlug, side) =>
+      this.lastWinningTrades.get(`${marketSlug}:${side}`) ?? null,
+  };
 
-    // Determine which side this token is
-    const isUpToken = tick.tokenId === market.upTokenId;
-    const side: "UP" | "DOWN" = isUpToken ? "UP" : "DOWN";
-
-    // Check spread
-    const spread = tick.bestAsk - tick.bestBid;
-    if (spread > this.config.maxSpread) {
-      return;
-    }
+  /**
+   * In-memory history for the re-entry policy (mirrors the bot's SQLite lookups)
+   */
+  private reentryHistory: ReentryHistory = {
+    entriesInMarket: (marketSlug) => this.marketEntries.get(marketSlug) ?? 0,
+    lastStopLossAt: (marketSlug) => this.lastStopLosses.get(marketSlug) ?? null,
+    lastLosingTrade: (marketSlug, side) =>
+      this.lastLosingTrades.get(`${marketSlug}:${side}`) ?? null,
+    entriesSince: (timestamp) => {
+      let count = 0;
+      for (let i = this.entryTimestamps.length - 1; i >= 0 && this.entryTimestamps[i] >= timestamp; i--) {
+        count++;
+      }
+      return count;
+    },
+  };
 
-    // Check entry threshold
-    const askPrice = tick.bestAsk;
-    if (askPrice < this.config.entryThreshold || askPrice > this.config.maxEntryPrice) {
-      return;
-    }
+  /**
+   * In-memory history for the risk guards (mirrors the bot's SQLite lookups)
+   * Trades are recorded in exit order, so both scans stop at the first older trade
+   */
+  private riskHistory: RiskHistory = {
+    realizedPnlSince: (timestamp) => {
+      let pnl = 0;
+      for (let i = this.trades.length - 1; i >= 0 && this.trades[i].exitTimestamp >= timestamp; i--) {
+        pnl += this.trades[i].pnl;
+      }
+      return pnl;
+    },
+    losingStreakSince: (timestamp) => {
+      let streak = 0;
+      for (let i = this.trades.length - 1; i >= 0 && this.trades[i].exitTimestamp >= timestamp; i--) {
+        if (this.trades[i].pnl >= 0) break;
+        streak++;
+      }
+      return streak;
+    },
+  };
 
-    // Don't buy if already at profit target
-    if (askPrice >= this.config.profitTarget) {
-      return;
-    }
+  /**
+   * Whether a circuit breaker blocks entries at `timestamp` (lifts a halt whose cool-off ended)
+   * Mirrors bot.ts behavior
+   */
+  private isRiskHalted(timestamp: number): boolean {
+    if (!this.riskHalt) return false;
+    if (timestamp < this.riskHalt.until) return true;
+    this.riskHalt = null;
+    this.riskResetAt = timestamp;
+    this.riskPeakEquity = this.getEquity() + this.savedProfit;
+    return false;
+  }
 
-    // Check opposite-side rule (using PnL for parity with bot.ts)
-    // If last trade on same market was a WIN (positive PnL), skip same side
-    if (
-      this.lastTrade &&
-      this.lastTrade.marketSlug === market.slug &&
-      this.lastTrade.side === side &&
-      this.lastTrade.pnl > 0
-    ) {
-      return;
+  /**
+   * Trip a circuit breaker after an exit if any risk guard is breached
+   */
+  private updateRiskGuards(timestamp: number): void {
+    if (this.riskHalt) return;
+    const equity = this.getEquity() + this.savedProfit;
+    this.riskPeakEquity = Math.max(this.riskPeakEquity, equity);
+    const halt = checkRiskGuards(this.config.riskGuards, this.riskHistory, {
+      equity,
+      peakEquity: this.riskPeakEquity,
+      resetAt: this.riskResetAt,
+      timestamp,
+    });
+    if (halt) {
+      this.riskHalt = halt;
+      this.riskHalts.push(halt);
     }
-
-    // All conditions met - enter position
-    this.executeEntry(tick, market, side);
   }
 
   /**
@@ -226,79 +280,109 @@ export class BacktestEngine {
       0.99
     );
 
-    // Calculate shares
-    const shares = this.balance / entryPrice;
+    // Size the position (same policy as the bot); the taker fee is taken from the shares
+    const size = calculatePositionSize(this.config.sizing, {
+      availableBalance: this.balance,
+      price: entryPrice,
+      feeRate: feeRate(this.config.fees, "taker", entryPrice),
+    });
+    if (!size.ok) return;
+    const { shares, fee: entryFee } = applyBuyFee(this.config.fees, "taker", entryPrice, size.usdc);
 
     // Create position
-    this.position = {
+    this.positions.set(tick.tokenId, {
       tokenId: tick.tokenId,
       marketSlug: market.slug,
       side,
       shares,
       entryPrice,
       entryTimestamp: tick.timestamp,
-    };
+      costBasis: size.usdc,
+      entryFee,
+      highestBid: tick.bestBid,
+      stopBreachedAt: null,
+      stopBreachTicks: 0,
+    });
+
+    // Reserve the cost from free balance until the position closes
+    this.balance -= size.usdc;
 
-    // Deduct from balance
-    this.balance = 0;
+    // Record the entry for the re-entry policy
+    this.marketEntries.set(market.slug, (this.marketEntries.get(market.slug) ?? 0) + 1);
+    this.entryTimestamps.push(tick.timestamp);
   }
 
   /**
    * Execute exit (sell)
    */
   private executeExit(
+    position: SimulatedPosition,
     exitPrice: number,
     exitTimestamp: number,
     exitReason: ExitReason
   ): void {
-    if (!this.position) return;
-
     // Apply slippage for stop-loss exits (market sells)
     const finalExitPrice =
       exitReason === "STOP_LOSS"
         ? Math.max(exitPrice * (1 - this.config.slippage), 0.01)
         : exitPrice;
 
-    // Calculate PnL
-    const pnl = (finalExitPrice - this.position.entryPrice) * this.position.shares;
+    // Exits sell into the bids (taker fee); resolution payouts are redemptions with no fee
+    const { proceeds, fee: exitFee } = exitReason === "MARKET_RESOLVED"
+      ? { proceeds: finalExitPrice * position.shares, fee: 0 }
+      : applySellFee(this.config.fees, "taker", finalExitPrice, position.shares);
+
+    // Calculate PnL (same as the bot's trades table: gross on the shares held, net of all fees)
+    const grossPnl = (finalExitPrice - position.entryPrice) * position.shares;
+    const fees = position.entryFee + exitFee;
 
     // Create trade record
     const trade: BacktestTrade = {
-      marketSlug: this.position.marketSlug,
-      tokenId: this.position.tokenId,
-      side: this.position.side,
-      entryPrice: this.position.entryPrice,
+      marketSlug: position.marketSlug,
+      tokenId: position.tokenId,
+      side: position.side,
+      entryPrice: position.entryPrice,
       exitPrice: finalExitPrice,
-      shares: this.position.shares,
-      entryTimestamp: this.position.entryTimestamp,
+      shares: position.shares,
+      entryTimestamp: position.entryTimestamp,
       exitTimestamp,
       exitReason,
-      pnl,
+      pnl: grossPnl - fees,
+      grossPnl,
+      fees,
     };
 
     this.trades.push(trade);
-    this.lastTrade = trade;
+    if (trade.pnl > 0) {
+      this.lastWinningTrades.set(`${trade.marketSlug}:${trade.side}`, trade);
+    } else if (trade.pnl < 0) {
+      this.lastLosingTrades.set(`${trade.marketSlug}:${trade.side}`, trade);
+    }
+    if (exitReason === "STOP_LOSS") {
+      this.lastStopLosses.set(trade.marketSlug, exitTimestamp);
+    }
 
-    // Update balance
-    const proceeds = finalExitPrice * this.position.shares;
-    this.balance = proceeds;
+    // Release the position and credit proceeds
+    this.positions.delete(position.tokenId);
+    this.balance += proceeds;
 
-    // Update equity curve
+    // Update equity curve (open positions valued at cost)
+    const equity = this.getEquity();
     this.equityCurve.push({
       timestamp: exitTimestamp,
-      balance: this.balance,
+      balance: equity,
     });
 
     // Update peak for drawdown calculation
-    if (this.balance > this.peakBalance) {
-      this.peakBalance = this.balance;
+    if (equity > this.peakBalance) {
+      this.peakBalance = equity;
     }
 
-    // Clear position
-    this.position = null;
-
     // Check compound limit (take profits if balance exceeds limit)
     this.checkCompoundLimit();
+
+    // Circuit breakers (same guards as the bot)
+    this.updateRiskGuards(exitTimestamp);
   }
 
   /**
@@ -307,23 +391,46 @@ export class BacktestEngine {
    */
   private checkCompoundLimit(): void {
     if (this.config.compoundLimit <= 0) return; // Disabled
-    if (this.balance <= this.config.compoundLimit) return; // Not exceeded
+    const equity = this.getEquity();
+    if (equity <= this.config.compoundLimit) return; // Not exceeded
 
-    // Take profit: move excess to savedProfit, reset to baseBalance
-    const profit = this.balance - this.config.baseBalance;
+    // Take profit: move the excess over baseBalance to savedProfit, but only from free cash
+    // (open positions keep their reserved cost)
+    const profit = Math.min(equity - this.config.baseBalance, this.balance);
     this.savedProfit += profit;
-    this.balance = this.config.baseBalance;
+    this.balance -= profit;
   }
 
   /**
-   * Force close position at market expiry
+   * Free balance plus the cost basis reserved by open positions
+   */
+  private getEquity(): number {
+    let reserved = 0;
+    for (const position of this.positions.values()) {
+      reserved += position.costBasis;
+    }
+    return this.balance + reserved;
+  }
+
+  /**
+   * Force close every position whose market has ended by `timestamp`
    */
-  private closePositionAtExpiry(market: HistoricalMarket): void {
-    if (!this.position) return;
+  private closeExpiredPositions(timestamp: number, marketMap: Map<string, HistoricalMarket>): void {
+    for (const position of [...this.positions.values()]) {
+      const market = marketMap.get(position.marketSlug);
+      if (market && timestamp >= market.endDate.getTime()) {
+        this.closePositionAtExpiry(position, market);
+      }
+    }
+  }
 
+  /**
+   * Force close position at market expiry
+   */
+  private closePositionAtExpiry(position: SimulatedPosition, market: HistoricalMarket): void {
     // Determine outcome - if market outcome matches our side, we win
     let exitPrice: number;
-    if (market.outcome === this.position.side) {
+    if (market.outcome === position.side) {
       exitPrice = this.config.profitTarget; // Won - resolves at $0.99
     } else if (market.outcome) {
       exitPrice = 0.01; // Lost - resolves near $0
@@ -332,7 +439,7 @@ export class BacktestEngine {
       exitPrice = this.config.profitTarget; // Assume win if entry was high
     }
 
-    this.executeExit(exitPrice, market.endDate.getTime(), "MARKET_RESOLVED");
+    this.executeExit(position, exitPrice, market.endDate.getTime(), "MARKET_RESOLVED");
   }
 
   /**
@@ -343,6 +450,8 @@ export class BacktestEngine {
     const losses = this.trades.filter(t => t.pnl <= 0);
 
     const totalPnL = this.trades.reduce((sum, t) => sum + t.pnl, 0);
+    const grossPnL = this.trades.reduce((sum, t) => sum + t.grossPnl, 0);
+    const totalFees = this.trades.reduce((sum, t) => sum + t.fees, 0);
     const avgWin = wins.length > 0 ? wins.reduce((s, t) => s + t.pnl, 0) / wins.length : 0;
     const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((s, t) => s + t.pnl, 0) / losses.length) : 0;
 
@@ -380,6 +489,8 @@ export class BacktestEngine {
       losses: losses.length,
       winRate,
       totalPnL,
+      grossPnL,
+      totalFees,
       maxDrawdown,
       maxDrawdownPercent,
       sharpeRatio,
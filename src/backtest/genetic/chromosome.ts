@@ -1,5 +1,6 @@
 import type { BacktestConfig } from "../types";
 import type { Chromosome, Genes, ParameterBounds } from "./types";
+import { DEFAULT_BACKTEST_CONFIG } from "../types";
 import { DEFAULT_BOUNDS } from "./types";
 
 /**
@@ -10,6 +11,9 @@ export function createRandomChromosome(bounds: ParameterBounds = DEFAULT_BOUNDS)
     entryThreshold: randomInRange(bounds.entryThreshold.min, bounds.entryThreshold.max),
     maxEntryPrice: randomInRange(bounds.maxEntryPrice.min, bounds.maxEntryPrice.max),
     stopLoss: randomInRange(bounds.stopLoss.min, bounds.stopLoss.max),
+    trailingStop: randomInRange(bounds.trailingStop.min, bounds.trailingStop.max),
+    trailingStopOn: Math.random() < 0.5 ? 0 : 1,
+    stopLossDelayMs: Math.round(randomInRange(bounds.stopLossDelayMs.min, bounds.stopLossDelayMs.max)),
     maxSpread: randomInRange(bounds.maxSpread.min, bounds.maxSpread.max),
     timeWindowMs: Math.round(randomInRange(bounds.timeWindowMs.min, bounds.timeWindowMs.max)),
     profitTarget: randomInRange(bounds.profitTarget.min, bounds.profitTarget.max),
@@ -32,18 +36,25 @@ export function repairChromosome(chromosome: Chromosome, bounds: ParameterBounds
   genes.entryThreshold = roundTo(genes.entryThreshold, 2);
   genes.maxEntryPrice = roundTo(genes.maxEntryPrice, 2);
   genes.stopLoss = roundTo(genes.stopLoss, 2);
+  genes.trailingStop = roundTo(genes.trailingStop, 2);
   genes.maxSpread = roundTo(genes.maxSpread, 3);
   genes.profitTarget = roundTo(genes.profitTarget, 2);
 
+  // On/off genes are 0 or 1
+  genes.trailingStopOn = genes.trailingStopOn >= 0.5 ? 1 : 0;
+
   // Round time values to integers
   genes.timeWindowMs = Math.round(genes.timeWindowMs);
+  genes.stopLossDelayMs = Math.round(genes.stopLossDelayMs);
 
   // Clamp all values within bounds
   genes.entryThreshold = clamp(genes.entryThreshold, bounds.entryThreshold.min, bounds.entryThreshold.max);
   genes.maxEntryPrice = clamp(genes.maxEntryPrice, bounds.maxEntryPrice.min, bounds.maxEntryPrice.max);
   genes.stopLoss = clamp(genes.stopLoss, bounds.stopLoss.min, bounds.stopLoss.max);
+  genes.trailingStop = clamp(genes.trailingStop, bounds.trailingStop.min, bounds.trailingStop.max);
   genes.maxSpread = clamp(genes.maxSpread, bounds.maxSpread.min, bounds.maxSpread.max);
   genes.timeWindowMs = clamp(genes.timeWindowMs, bounds.timeWindowMs.min, bounds.timeWindowMs.max);
+  genes.stopLossDelayMs = clamp(genes.stopLossDelayMs, bounds.stopLossDelayMs.min, bounds.stopLossDelayMs.max);
   genes.profitTarget = clamp(genes.profitTarget, bounds.profitTarget.min, bounds.profitTarget.max);
 
   // Constraint 1: entryThreshold must be <= maxEntryPrice - 0.01
@@ -71,8 +82,16 @@ export function repairChromosome(chromosome: Chromosome, bounds: ParameterBounds
   };
 }
 
+/**
+ * Trailing stop distance the genes trade with (0 = off)
+ */
+export function effectiveTrailingStop(genes: Genes): number {
+  return genes.trailingStopOn ? genes.trailingStop : 0;
+}
+
 /**
  * Convert chromosome genes to a BacktestConfig
+ * The trailing stop type is not evolved: it follows baseConfig (the backtest mode's trailingStopType)
  */
 export function chromosomeToConfig(
   chromosome: Chromosome,
@@ -82,11 +101,20 @@ export function chromosomeToConfig(
     entryThreshold: chromosome.genes.entryThreshold,
     maxEntryPrice: chromosome.genes.maxEntryPrice,
     stopLoss: chromosome.genes.stopLoss,
+    trailingStop: effectiveTrailingStop(chromosome.genes),
+    trailingStopType: baseConfig.trailingStopType ?? "absolute",
+    stopLossDelayMs: chromosome.genes.stopLossDelayMs,
+    stopLossConfirmTicks: baseConfig.stopLossConfirmTicks ?? 0,
     maxSpread: chromosome.genes.maxSpread,
     timeWindowMs: chromosome.genes.timeWindowMs,
     profitTarget: chromosome.genes.profitTarget,
     startingBalance: baseConfig.startingBalance ?? 100,
     slippage: baseConfig.slippage ?? 0.001,
+    fees: baseConfig.fees ?? DEFAULT_BACKTEST_CONFIG.fees,
+    sizing: baseConfig.sizing ?? DEFAULT_BACKTEST_CONFIG.sizing,
+    maxPositions: baseConfig.maxPositions ?? DEFAULT_BACKTEST_CONFIG.maxPositions,
+    reentry: baseConfig.reentry ?? DEFAULT_BACKTEST_CONFIG.reentry,
+    riskGuards: baseConfig.riskGuards ?? DEFAULT_BACKTEST_CONFIG.riskGuards,
     compoundLimit: baseConfig.compoundLimit ?? 0,
     baseBalance: baseConfig.baseBalance ?? 10,
     riskMode: baseConfig.riskMode ?? "normal",
@@ -138,6 +166,9 @@ export function createChromosome(genes: Partial<Genes>, bounds: ParameterBounds
     entryThreshold: genes.entryThreshold ?? (bounds.entryThreshold.min + bounds.entryThreshold.max) / 2,
     maxEntryPrice: genes.maxEntryPrice ?? (bounds.maxEntryPrice.min + bounds.maxEntryPrice.max) / 2,
     stopLoss: genes.stopLoss ?? (bounds.stopLoss.min + bounds.stopLoss.max) / 2,
+    trailingStop: genes.trailingStop ?? (bounds.trailingStop.min + bounds.trailingStop.max) / 2,
+    trailingStopOn: genes.trailingStopOn ?? (genes.trailingStop ? 1 : 0),
+    stopLossDelayMs: genes.stopLossDelayMs ?? (bounds.stopLossDelayMs.min + bounds.stopLossDelayMs.max) / 2,
     maxSpread: genes.maxSpread ?? (bounds.maxSpread.min + bounds.maxSpread.max) / 2,
     timeWindowMs: genes.timeWindowMs ?? (bounds.timeWindowMs.min + bounds.timeWindowMs.max) / 2,
     profitTarget: genes.profitTarget ?? (bounds.profitTarget.min + bounds.profitTarget.max) / 2,
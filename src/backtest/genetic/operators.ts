@@ -1,5 +1,5 @@
 import type { Chromosome, Genes, ParameterBounds } from "./types";
-import { DEFAULT_BOUNDS } from "./types";
+import { DEFAULT_BOUNDS, SWITCH_GENES } from "./types";
 import { cloneChromosome, repairChromosome } from "./chromosome";
 
 /**
@@ -137,6 +137,10 @@ export function gaussianMutate(
 
   for (const key of geneKeys) {
     if (Math.random() < mutationRate) {
+      if (SWITCH_GENES.has(key)) {
+        mutated.genes[key] = 1 - mutated.genes[key];
+        continue;
+      }
       const range = bounds[key].max - bounds[key].min;
       const noise = gaussianRandom() * sigma * range;
       mutated.genes[key] = mutated.genes[key] + noise;
@@ -182,6 +186,7 @@ export function creepMutate(
 
   for (const key of geneKeys) {
     if (Math.random() < mutationRate) {
+      if (SWITCH_GENES.has(key)) continue; // Fine-tuning leaves switches alone
       const range = bounds[key].max - bounds[key].min;
       const creep = (Math.random() - 0.5) * 2 * creepFactor * range;
       mutated.genes[key] = mutated.genes[key] + creep;
@@ -1,5 +1,6 @@
 import type { PerformanceMetrics } from "../types";
 import type { GeneticOptimizationResult, GeneticProgress, GenerationStats, Chromosome } from "./types";
+import { effectiveTrailingStop } from "./chromosome";
 import { detectOverfitting, calculateRobustnessScore } from "./walk-forward";
 
 /**
@@ -55,6 +56,8 @@ export function printGeneticReport(result: GeneticOptimizationResult): void {
   console.log(`  Entry Threshold:     $${genes.entryThreshold.toFixed(2)}`);
   console.log(`  Max Entry Price:     $${genes.maxEntryPrice.toFixed(2)}`);
   console.log(`  Stop Loss:           $${genes.stopLoss.toFixed(2)}`);
+  console.log(`  Trailing Stop:       ${genes.trailingStopOn ? `${genes.trailingStop.toFixed(2)} below high (mode's trailingStopType)` : "Off"}`);
+  console.log(`  Stop Delay:          ${(genes.stopLossDelayMs / 1000).toFixed(1)}s`);
   console.log(`  Max Spread:          $${genes.maxSpread.toFixed(3)}`);
   console.log(`  Time Window:         ${(genes.timeWindowMs / 60000).toFixed(1)} min`);
   console.log(`  Profit Target:       $${genes.profitTarget.toFixed(2)}`);
@@ -227,6 +230,9 @@ export function exportConfigForEnv(result: GeneticOptimizationResult): string {
     `BACKTEST_ENTRY_THRESHOLD=${genes.entryThreshold}`,
     `BACKTEST_MAX_ENTRY_PRICE=${genes.maxEntryPrice}`,
     `BACKTEST_STOP_LOSS=${genes.stopLoss}`,
+    `BACKTEST_TRAILING_STOP=${effectiveTrailingStop(genes)}`,
+    `# BACKTEST_TRAILING_STOP_TYPE follows the mode's trailingStopType`,
+    `BACKTEST_STOP_LOSS_DELAY_MS=${genes.stopLossDelayMs}`,
     `BACKTEST_MAX_SPREAD=${genes.maxSpread}`,
     `BACKTEST_TIME_WINDOW_MINS=${Math.round(genes.timeWindowMs / 60000)}`,
     `BACKTEST_PROFIT_TARGET=${genes.profitTarget}`,
@@ -5,6 +5,9 @@ export interface ParameterBounds {
   entryThreshold: { min: number; max: number };
   maxEntryPrice: { min: number; max: number };
   stopLoss: { min: number; max: number };
+  trailingStop: { min: number; max: number };
+  trailingStopOn: { min: number; max: number };
+  stopLossDelayMs: { min: number; max: number };
   maxSpread: { min: number; max: number };
   timeWindowMs: { min: number; max: number };
   profitTarget: { min: number; max: number };
@@ -15,11 +18,17 @@ export interface Genes {
   entryThreshold: number;
   maxEntryPrice: number;
   stopLoss: number;
+  trailingStop: number; // Distance below highest bid, in the mode's trailingStopType (used when trailingStopOn)
+  trailingStopOn: number; // 1 = trailing stop on, 0 = off
+  stopLossDelayMs: number; // Stop confirmation delay (0 = sell on first touch)
   maxSpread: number;
   timeWindowMs: number;
   profitTarget: number;
 }
 
+// On/off genes: always 0 or 1, flipped by mutation instead of nudged
+export const SWITCH_GENES: ReadonlySet<keyof Genes> = new Set<keyof Genes>(["trailingStopOn"]);
+
 // Individual chromosome representing a trading strategy
 export interface Chromosome {
   genes: Genes;
@@ -95,6 +104,9 @@ export const DEFAULT_BOUNDS: ParameterBounds = {
   entryThreshold: { min: 0.70, max: 0.96 },
   maxEntryPrice: { min: 0.92, max: 0.99 },
   stopLoss: { min: 0.30, max: 0.80 },
+  trailingStop: { min: 0.01, max: 0.30 },
+  trailingStopOn: { min: 0, max: 1 }, // Half the initial population trades without a trailing stop
+  stopLossDelayMs: { min: 0, max: 10000 }, // 0-10 seconds
   maxSpread: { min: 0.02, max: 0.08 },
   timeWindowMs: { min: 300000, max: 3600000 }, // 5-60 minutes for 1-hour markets
   profitTarget: { min: 0.98, max: 0.99 },
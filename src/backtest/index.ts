@@ -11,12 +11,14 @@ import {
   compareConfigs,
 } from "./optimizer";
 import { runGeneticOptimization } from "./genetic";
+import { runReplay } from "./replay";
 import { printGeneticProgress, clearGeneticProgress, printGeneticReport, geneticResultToJSON, exportConfigForEnv } from "./genetic/reporter";
 import {
   printBacktestReport,
   printOptimizationTable,
   printComparisonTable,
   printTrades,
+  printReplayReport,
   printProgress,
   clearProgress,
   tradesToCSV,
@@ -32,6 +34,7 @@ import {
   clearBacktestData,
   clearHistoricalData,
 } from "../db";
+import { getConfigManager, type FeeConfig, type ModeConfig, type ReentryConfig, type RiskGuardConfig, type SizingConfig, type SizingPolicy, type TrailingStopType } from "../config";
 import { writeFileSync } from "fs";
 
 const HELP = `
@@ -46,24 +49,34 @@ COMMANDS:
   optimize  Find optimal parameters through grid search
   genetic   Find optimal parameters using genetic algorithm (recommended)
   compare   Compare different configurations
+  replay    Run the real bot on ticks recorded live (recorder.enabled), faster than real time
   history   View past backtest runs
   stats     Show cached data statistics
   clear     Clear cached data
 
 OPTIONS:
+  --mode <name>       Mode from trading.config.json (default: backtest.mode)
   --days <n>          Number of days to backtest (default: 7)
   --start <date>      Start date (YYYY-MM-DD)
   --end <date>        End date (YYYY-MM-DD)
-  --entry <price>     Entry threshold (default: 0.95)
-  --max-entry <price> Max entry price (default: 0.98)
-  --stop <price>      Stop loss threshold (default: 0.80)
-  --spread <price>    Max spread (default: 0.03)
-  --window <ms>       Time window in ms (default: 1200000 = 20min for 1-hour markets)
+  --entry <price>     Entry threshold (default: from mode)
+  --max-entry <price> Max entry price (default: from mode)
+  --stop <price>      Stop loss threshold (default: from mode)
+  --trailing <dist>   Trailing stop distance from highest bid, 0 = off (default: from mode)
+  --trailing-type <t> Trailing stop type: absolute or percent (default: from mode)
+  --delay <ms>        Stop-loss confirmation delay in ms, 0 = off (default: from mode)
+  --confirm-ticks <n> Stop-loss confirmation tick count, 0 = off (default: from mode)
+  --spread <price>    Max spread (default: from mode)
+  --window <ms>       Time window in ms (default: from mode)
   --balance <amount>  Starting balance (default: 100)
+  --sizing <policy>   Position sizing: all, fixed, fraction or kelly (default: sizing.policy)
+  --max-positions <n> Max concurrent positions (default: trading.maxPositions)
   --quick             Use quick optimization (fewer combinations)
   --force             Force re-fetch data even if cached
+  --recorded          Prefer ticks recorded live by the bot (recorder.enabled) over synthetic ones
   --export <file>     Export results to file (csv or json)
   --limit <n>         Limit output rows
+  --quiet             Replay: only print the summary, not the bot's log
 
 GENETIC ALGORITHM OPTIONS:
   --population <n>    Population size (default: 50)
@@ -76,6 +89,9 @@ EXAMPLES:
   # Run backtest with default config for last 7 days
   bun run src/backtest/index.ts run --days 7
 
+  # Run backtest using another mode from trading.config.json
+  bun run src/backtest/index.ts run --mode conservative --days 7
+
   # Run backtest with custom parameters
   bun run src/backtest/index.ts run --entry 0.90 --stop 0.60 --days 14
 
@@ -90,6 +106,9 @@ EXAMPLES:
 
   # Run genetic with custom settings
   bun run src/backtest/index.ts genetic --days 30 --population 100 --generations 200
+
+  # Replay a recorded live session through the bot (start/end accept ISO timestamps)
+  bun run src/backtest/index.ts replay --start 2026-01-15T14:00:00Z --end 2026-01-15T18:00:00Z
 `;
 
 // Parse command line arguments
@@ -97,18 +116,26 @@ function parseArguments() {
   const { values, positionals } = parseArgs({
     args: process.argv.slice(2),
     options: {
+      mode: { type: "string" },
       days: { type: "string", default: "7" },
       start: { type: "string" },
       end: { type: "string" },
       entry: { type: "string" },
       "max-entry": { type: "string" },
       stop: { type: "string" },
+      trailing: { type: "string" },
+      "trailing-type": { type: "string" },
       delay: { type: "string" },
+      "confirm-ticks": { type: "string" },
       spread: { type: "string" },
       window: { type: "string" },
       balance: { type: "string" },
+      sizing: { type: "string" },
+      "max-positions": { type: "string" },
       quick: { type: "boolean", default: false },
       force: { type: "boolean", default: false },
+      recorded: { type: "boolean", default: false },
+      quiet: { type: "boolean", default: false },
       export: { type: "string" },
       limit: { type: "string", default: "10" },
       help: { type: "boolean", short: "h", default: false },
@@ -125,15 +152,60 @@ function parseArguments() {
   return { values, positionals };
 }
 
-// Load backtest config from environment
-function getEnvConfig() {
+// Load the backtest mode from trading.config.json (--mode overrides backtest.mode)
+function getModeConfig(args: ReturnType<typeof parseArguments>["values"]): { name: string; mode: ModeConfig } {
+  const configManager = getConfigManager();
+  const name = args.mode || configManager.getBacktestConfig().mode;
+  const mode = args.mode ? configManager.getMode(args.mode) : configManager.getBacktestMode();
+  if (!mode) {
+    throw new Error(`Mode "${name}" not found in ${configManager.getConfigPath()} (available: ${configManager.getModeNames().join(", ")})`);
+  }
+  return { name, mode };
+}
+
+// Load position sizing from trading.config.json (--sizing overrides the policy)
+function getSizingConfig(args: ReturnType<typeof parseArguments>["values"]): SizingConfig {
+  const sizing = getConfigManager().getSizing();
+  return args.sizing ? { ...sizing, policy: args.sizing as SizingPolicy } : sizing;
+}
+
+// Load max concurrent positions from trading.config.json (--max-positions overrides)
+function getMaxPositions(args: ReturnType<typeof parseArguments>["values"]): number {
+  return args["max-positions"]
+    ? parseInt(args["max-positions"], 10)
+    : getConfigManager().getConfig().trading.maxPositions;
+}
+
+// Load the re-entry policy from trading.config.json
+function getReentryConfig(): ReentryConfig {
+  return getConfigManager().getReentry();
+}
+
+// Load the fee model from trading.config.json
+function getFeeConfig(): FeeConfig {
+  return getConfigManager().getFees();
+}
+
+// Load the risk guards from trading.config.json
+function getRiskGuardConfig(): RiskGuardConfig {
+  return getConfigManager().getRiskGuards();
+}
+
+// Load backtest config from environment (unset variables fall back to the given mode)
+function getEnvConfig(mode: ModeConfig = DEFAULT_BACKTEST_CONFIG) {
   return {
-    entryThreshold: parseFloat(process.env.BACKTEST_ENTRY_THRESHOLD || "0.95"),
-    maxEntryPrice: parseFloat(process.env.BACKTEST_MAX_ENTRY_PRICE || "0.98"),
-    stopLoss: parseFloat(process.env.BACKTEST_STOP_LOSS || "0.80"),
-    profitTarget: parseFloat(process.env.BACKTEST_PROFIT_TARGET || "0.99"),
-    maxSpread: parseFloat(process.env.BACKTEST_MAX_SPREAD || "0.03"),
-    timeWindowMs: parseInt(process.env.BACKTEST_TIME_WINDOW_MINS || "20", 10) * 60 * 1000, // 20 min default for 1-hour markets
+    entryThreshold: parseFloat(process.env.BACKTEST_ENTRY_THRESHOLD || String(mode.entryThreshold)),
+    maxEntryPrice: parseFloat(process.env.BACKTEST_MAX_ENTRY_PRICE || String(mode.maxEntryPrice)),
+    stopLoss: parseFloat(process.env.BACKTEST_STOP_LOSS || String(mode.stopLoss)),
+    trailingStop: parseFloat(process.env.BACKTEST_TRAILING_STOP || String(mode.trailingStop ?? 0)),
+    trailingStopType: (process.env.BACKTEST_TRAILING_STOP_TYPE || mode.trailingStopType || "absolute") as TrailingStopType,
+    stopLossDelayMs: parseInt(process.env.BACKTEST_STOP_LOSS_DELAY_MS || String(mode.stopLossDelayMs ?? 0), 10),
+    stopLossConfirmTicks: parseInt(process.env.BACKTEST_STOP_LOSS_CONFIRM_TICKS || String(mode.stopLossConfirmTicks ?? 0), 10),
+    profitTarget: parseFloat(process.env.BACKTEST_PROFIT_TARGET || String(mode.profitTarget)),
+    maxSpread: parseFloat(process.env.BACKTEST_MAX_SPREAD || String(mode.maxSpread)),
+    timeWindowMs: process.env.BACKTEST_TIME_WINDOW_MINS
+      ? parseInt(process.env.BACKTEST_TIME_WINDOW_MINS, 10) * 60 * 1000
+      : mode.timeWindowMs,
     startingBalance: parseFloat(process.env.BACKTEST_STARTING_BALANCE || "100"),
     defaultDays: parseInt(process.env.BACKTEST_DAYS || "7", 10),
     compoundLimit: parseFloat(process.env.BACKTEST_COMPOUND_LIMIT || "0"),
@@ -154,14 +226,19 @@ function getDateRange(args: ReturnType<typeof parseArguments>["values"]): { star
 }
 
 // Load cached data or fetch from API
-async function loadOrFetchMarkets(startDate: Date, endDate: Date): Promise<ReturnType<typeof loadCachedDataset> | null> {
-  console.log("Loading historical data...");
-  let markets = await loadCachedDataset(startDate, endDate);
+async function loadOrFetchMarkets(startDate: Date, endDate: Date, preferRecorded = false): Promise<ReturnType<typeof loadCachedDataset> | null> {
+  console.log(preferRecorded ? "Loading historical data (preferring recorded ticks)..." : "Loading historical data...");
+  const endpoints = getConfigManager().getEndpoints();
+  const family = getConfigManager().getMarketFamily();
+  let markets = await loadCachedDataset(startDate, endDate, endpoints, preferRecorded, family);
 
   if (markets.length === 0) {
     console.log("\nNo cached data found. Fetching from API...");
     markets = await fetchHistoricalDataset(startDate, endDate, {
       onProgress: (p) => printProgress(p.current, p.total),
+      endpoints,
+      preferRecorded,
+      family,
     });
     clearProgress();
 
@@ -191,6 +268,18 @@ function validateBacktestConfig(config: BacktestConfig): void {
   if (config.stopLoss < 0.01 || config.stopLoss > 0.99) {
     errors.push(`stopLoss must be between 0.01 and 0.99 (got ${config.stopLoss})`);
   }
+  if (config.trailingStop < 0 || config.trailingStop > 0.5) {
+    errors.push(`trailingStop must be between 0 and 0.5 (got ${config.trailingStop})`);
+  }
+  if (config.trailingStopType !== "absolute" && config.trailingStopType !== "percent") {
+    errors.push(`trailingStopType must be "absolute" or "percent" (got ${config.trailingStopType})`);
+  }
+  if (isNaN(config.stopLossDelayMs) || config.stopLossDelayMs < 0 || config.stopLossDelayMs > 300000) {
+    errors.push(`stopLossDelayMs must be between 0 and 300000 (got ${config.stopLossDelayMs})`);
+  }
+  if (isNaN(config.stopLossConfirmTicks) || config.stopLossConfirmTicks < 0) {
+    errors.push(`stopLossConfirmTicks must be >= 0 (got ${config.stopLossConfirmTicks})`);
+  }
   if (config.profitTarget < 0.01 || config.profitTarget > 0.99) {
     errors.push(`profitTarget must be between 0.01 and 0.99 (got ${config.profitTarget})`);
   }
@@ -200,6 +289,12 @@ function validateBacktestConfig(config: BacktestConfig): void {
   if (config.slippage < 0 || config.slippage > 0.10) {
     errors.push(`slippage must be between 0 and 0.10 (got ${config.slippage})`);
   }
+  if (!["all", "fixed", "fraction", "kelly"].includes(config.sizing.policy)) {
+    errors.push(`sizing policy must be all, fixed, fraction or kelly (got ${config.sizing.policy})`);
+  }
+  if (isNaN(config.maxPositions) || config.maxPositions < 1) {
+    errors.push(`maxPositions must be at least 1 (got ${config.maxPositions})`);
+  }
   if (config.startingBalance <= 0) {
     errors.push(`startingBalance must be positive (got ${config.startingBalance})`);
   }
@@ -225,11 +320,12 @@ function validateBacktestConfig(config: BacktestConfig): void {
   }
 }
 
-// Build config from arguments (env config is the base, CLI args override)
+// Build config from arguments (mode is the base, env config overrides, CLI args override both)
 function buildConfig(args: ReturnType<typeof parseArguments>["values"], startDate: Date, endDate: Date): BacktestConfig {
-  const envConfig = getEnvConfig();
+  const { name: modeName, mode } = getModeConfig(args);
+  const envConfig = getEnvConfig(mode);
 
-  // Build config: defaults < env config < CLI args
+  // Build config: defaults < mode < env config < CLI args
   const config: BacktestConfig = {
     // Start with defaults
     ...DEFAULT_BACKTEST_CONFIG,
@@ -237,14 +333,23 @@ function buildConfig(args: ReturnType<typeof parseArguments>["values"], startDat
     entryThreshold: args.entry ? parseFloat(args.entry) : envConfig.entryThreshold,
     maxEntryPrice: args["max-entry"] ? parseFloat(args["max-entry"]) : envConfig.maxEntryPrice,
     stopLoss: args.stop ? parseFloat(args.stop) : envConfig.stopLoss,
+    trailingStop: args.trailing ? parseFloat(args.trailing) : envConfig.trailingStop,
+    trailingStopType: (args["trailing-type"] || envConfig.trailingStopType) as TrailingStopType,
+    stopLossDelayMs: args.delay ? parseInt(args.delay, 10) : envConfig.stopLossDelayMs,
+    stopLossConfirmTicks: args["confirm-ticks"] ? parseInt(args["confirm-ticks"], 10) : envConfig.stopLossConfirmTicks,
     maxSpread: args.spread ? parseFloat(args.spread) : envConfig.maxSpread,
     timeWindowMs: args.window ? parseInt(args.window, 10) : envConfig.timeWindowMs,
     profitTarget: envConfig.profitTarget,
     startingBalance: args.balance ? parseFloat(args.balance) : envConfig.startingBalance,
     slippage: DEFAULT_BACKTEST_CONFIG.slippage,
+    fees: getFeeConfig(),
+    sizing: getSizingConfig(args),
+    maxPositions: getMaxPositions(args),
+    reentry: getReentryConfig(),
+    riskGuards: getRiskGuardConfig(),
     compoundLimit: envConfig.compoundLimit,
     baseBalance: envConfig.baseBalance,
-    riskMode: "normal",
+    riskMode: modeName,
     startDate,
     endDate,
   };
@@ -260,10 +365,10 @@ async function commandRun(args: ReturnType<typeof parseArguments>["values"]) {
   const { startDate, endDate } = getDateRange(args);
   const config = buildConfig(args, startDate, endDate);
 
-  const markets = await loadOrFetchMarkets(startDate, endDate);
+  const markets = await loadOrFetchMarkets(startDate, endDate, args.recorded);
   if (!markets) return;
 
-  console.log(`\nRunning backtest on ${markets.length} markets...`);
+  console.log(`\nRunning backtest on ${markets.length} markets (mode: ${config.riskMode})...`);
 
   // Run backtest
   initBacktestDatabase();
@@ -308,6 +413,8 @@ async function commandFetch(args: ReturnType<typeof parseArguments>["values"]) {
     onProgress: (p) => {
       printProgress(p.current, p.total);
     },
+    endpoints: getConfigManager().getEndpoints(),
+    family: getConfigManager().getMarketFamily(),
   });
 
   clearProgress();
@@ -318,7 +425,7 @@ async function commandFetch(args: ReturnType<typeof parseArguments>["values"]) {
 async function commandOptimize(args: ReturnType<typeof parseArguments>["values"]) {
   const { startDate, endDate } = getDateRange(args);
 
-  const markets = await loadOrFetchMarkets(startDate, endDate);
+  const markets = await loadOrFetchMarkets(startDate, endDate, args.recorded);
   if (!markets) return;
 
   console.log(`\nOptimizing on ${markets.length} markets...`);
@@ -327,6 +434,7 @@ async function commandOptimize(args: ReturnType<typeof parseArguments>["values"]
 
   const results = await runOptimization(markets, {
     ranges,
+    baseConfig: { sizing: getSizingConfig(args), maxPositions: getMaxPositions(args), reentry: getReentryConfig(), riskGuards: getRiskGuardConfig(), fees: getFeeConfig() },
     startDate,
     endDate,
     onProgress: (p) => {
@@ -351,7 +459,7 @@ async function commandOptimize(args: ReturnType<typeof parseArguments>["values"]
 async function commandGenetic(args: ReturnType<typeof parseArguments>["values"]) {
   const { startDate, endDate } = getDateRange(args);
 
-  const markets = await loadOrFetchMarkets(startDate, endDate);
+  const markets = await loadOrFetchMarkets(startDate, endDate, args.recorded);
   if (!markets) return;
 
   console.log(`\nRunning genetic optimization on ${markets.length} markets...`);
@@ -372,6 +480,12 @@ async function commandGenetic(args: ReturnType<typeof parseArguments>["values"])
     gaConfig,
     baseConfig: {
       startingBalance: parseFloat(args.balance || "100"),
+      trailingStopType: getModeConfig(args).mode.trailingStopType ?? "absolute",
+      sizing: getSizingConfig(args),
+      maxPositions: getMaxPositions(args),
+      reentry: getReentryConfig(),
+      riskGuards: getRiskGuardConfig(),
+      fees: getFeeConfig(),
       startDate,
       endDate,
     },
@@ -404,10 +518,15 @@ async function commandGenetic(args: ReturnType<typeof parseArguments>["values"])
 async function commandCompare(args: ReturnType<typeof parseArguments>["values"]) {
   const { startDate, endDate } = getDateRange(args);
 
-  const markets = await loadOrFetchMarkets(startDate, endDate);
+  const markets = await loadOrFetchMarkets(startDate, endDate, args.recorded);
   if (!markets) return;
 
   console.log(`\nComparing configurations on ${markets.length} markets...`);
+  const sizing = getSizingConfig(args);
+  const maxPositions = getMaxPositions(args);
+  const reentry = getReentryConfig();
+  const riskGuards = getRiskGuardConfig();
+  const fees = getFeeConfig();
 
   // Build configs with different parameters
   const conservativeConfig: BacktestConfig = {
@@ -418,7 +537,12 @@ async function commandCompare(args: ReturnType<typeof parseArguments>["values"])
     timeWindowMs: 15 * 60 * 1000,
     startDate,
     endDate,
-    riskMode: "normal",
+    riskMode: "conservative",
+    sizing,
+    maxPositions,
+    reentry,
+    riskGuards,
+    fees,
   };
 
   const moderateConfig: BacktestConfig = {
@@ -429,7 +553,12 @@ async function commandCompare(args: ReturnType<typeof parseArguments>["values"])
     timeWindowMs: 25 * 60 * 1000,
     startDate,
     endDate,
-    riskMode: "normal",
+    riskMode: "moderate",
+    sizing,
+    maxPositions,
+    reentry,
+    riskGuards,
+    fees,
   };
 
   const aggressiveConfig: BacktestConfig = {
@@ -440,7 +569,12 @@ async function commandCompare(args: ReturnType<typeof parseArguments>["values"])
     timeWindowMs: 40 * 60 * 1000,
     startDate,
     endDate,
-    riskMode: "normal",
+    riskMode: "aggressive",
+    sizing,
+    maxPositions,
+    reentry,
+    riskGuards,
+    fees,
   };
 
   // Run all backtests
@@ -500,6 +634,58 @@ async function commandHistory(args: ReturnType<typeof parseArguments>["values"])
   console.log("");
 }
 
+// Command: replay
+async function commandReplay(args: ReturnType<typeof parseArguments>["values"]) {
+  const { startDate, endDate } = getDateRange(args);
+  const configManager = getConfigManager();
+
+  // Replays use the live active mode (--mode overrides) and always trade on the paper venue
+  const modeName = args.mode || configManager.getActiveModeName();
+  if (!configManager.getMode(modeName)) {
+    throw new Error(`Mode "${modeName}" not found in ${configManager.getConfigPath()} (available: ${configManager.getModeNames().join(", ")})`);
+  }
+  const trading = configManager.getConfig().trading;
+  configManager.applyOverrides({
+    activeMode: modeName,
+    trading: {
+      paperTrading: true,
+      paperBalance: args.balance ? parseFloat(args.balance) : trading.paperBalance,
+      maxPositions: getMaxPositions(args),
+    },
+    sizing: getSizingConfig(args),
+    shadow: { enabled: false },
+    recorder: { enabled: false },
+    feedHealth: { enabled: false }, // Would poll the live CLOB REST API for quiet recorded tokens
+    spot: { enabled: false },
+  });
+
+  const mode = configManager.getActiveMode();
+  if ((mode.minSpotDistanceUsd ?? 0) > 0 || (mode.minSpotDistanceSigma ?? 0) > 0) {
+    console.log(`Warning: mode "${modeName}" has spot distance filters; recordings have no spot prices, so they block every entry`);
+  }
+  if ((mode.minBidDepth ?? 0) > 0 || (mode.minAskDepthUsdc ?? 0) > 0 || (mode.minBookImbalance ?? -1) > -1) {
+    console.log(`Warning: mode "${modeName}" has book depth filters; recordings have no order books, so they block every entry`);
+  }
+
+  initBacktestDatabase();
+  console.log(`Replaying ${startDate.toISOString()} to ${endDate.toISOString()} (mode: ${modeName})...\n`);
+  const result = await runReplay({
+    startDate,
+    endDate,
+    configManager,
+    onLog: args.quiet ? undefined : (message) => console.log(message),
+  });
+  if (!result) {
+    console.log("No recorded markets in this period. Enable recorder.enabled while the bot runs to record sessions.");
+    return;
+  }
+  if (result.ticks === 0) {
+    console.log("No recorded ticks in this period.");
+  }
+
+  printReplayReport(result);
+}
+
 // Command: stats
 async function commandStats() {
   initBacktestDatabase();
@@ -508,7 +694,7 @@ async function commandStats() {
 
   console.log("\n=== CACHE STATISTICS ===\n");
   console.log(`Total Markets Cached: ${stats.totalMarkets}`);
-  console.log(`Total Price Ticks: ${stats.totalPriceTicks}`);
+  console.log(`Total Price Ticks: ${stats.totalPriceTicks} (${stats.recordedPriceTicks} recorded live)`);
 
   if (stats.dateRange.earliest && stats.dateRange.latest) {
     console.log(`Date Range: ${stats.dateRange.earliest.toISOString().slice(0, 10)} to ${stats.dateRange.latest.toISOString().slice(0, 10)}`);
@@ -560,6 +746,9 @@ async function main() {
       case "compare":
         await commandCompare(args);
         break;
+      case "replay":
+        await commandReplay(args);
+        break;
       case "history":
         await commandHistory(args);
         break;
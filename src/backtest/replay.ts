@@ -0,0 +1,258 @@
+/**
+ * Replay mode
+ * Runs the real Bot (paper venue) on ticks and trades recorded live by the bot (recorder.enabled) under a
+ * simulated clock that moves as fast as the bot can process them. Unlike the BacktestEngine this
+ * goes through the WebSocket-driven realtime checks, the poll loop, re-entry and risk guards.
+ */
+
+import { rmSync } from "fs";
+import { Bot } from "../bot";
+import { ManualClock, ManualScheduler, settle, systemClock, type Clock } from "../clock";
+import type { ConfigManager } from "../config";
+import {
+  initDatabase,
+  setDatabaseClock,
+  iterateRecordedTicks,
+  iterateRecordedTrades,
+  loadHistoricalMarketsInRange,
+  getTradeStats,
+  getTotalPnL,
+  type HistoricalMarketRow,
+  type PriceHistoryRow,
+  type TradeTapeRow,
+} from "../db";
+import { BTC_HOURLY_FAMILY, type MarketFamily } from "../market-family";
+import type { Market, MarketSource } from "../scanner";
+import type { TradeSide } from "../trade-tape";
+import { PriceStream, type PriceUpdate } from "../websocket";
+import type { ReplayResult } from "./types";
+
+const DEFAULT_REPLAY_DB = "trades_replay.db";
+const REPLAY_PRIVATE_KEY = `0x${"1".padStart(64, "0")}`; // Throwaway key: replays only trade on the paper venue
+
+/**
+ * Price stream fed from recorded ticks instead of the market WebSocket
+ * Only subscribed tokens are delivered, as on the live socket; there is no L2 book
+ * (recordings only keep the top of book), so paper fills use the signalled price
+ */
+export class ReplayPriceStream extends PriceStream {
+  private replaying = false;
+
+  connect(): Promise<void> {
+    this.replaying = true;
+    return Promise.resolve();
+  }
+
+  isConnected(): boolean {
+    return this.replaying;
+  }
+
+  close(): void {
+    this.replaying = false;
+  }
+
+  /**
+   * Deliver a recorded tick; false if the bot was not subscribed to its token
+   */
+  emitTick(row: PriceHistoryRow): boolean {
+    if (!this.replaying || !this.subscriptions.has(row.token_id)) return false;
+    this.lastMessageAt = row.timestamp;
+    this.recordPrice({
+      tokenId: row.token_id,
+      price: row.mid_price,
+      bestBid: row.best_bid,
+      bestAsk: row.best_ask,
+      spread: row.best_ask - row.best_bid,
+      timestamp: row.timestamp,
+      source: row.source as PriceUpdate["source"],
+    });
+    return true;
+  }
+
+  /**
+   * Add a recorded trade to the trade tape (its price move is a separate recorded tick)
+   */
+  emitTrade(row: TradeTapeRow): void {
+    if (!this.replaying) return;
+    this.lastMessageAt = row.timestamp;
+    this.recordTrade({
+      tokenId: row.token_id,
+      price: row.price,
+      size: row.size,
+      side: row.side as TradeSide | null,
+      timestamp: row.timestamp,
+    });
+  }
+
+  /**
+   * Announce a market's winner the way the market channel does when it resolves
+   */
+  emitResolution(market: HistoricalMarketRow, family: MarketFamily = BTC_HOURLY_FAMILY): void {
+    if (!this.replaying || !market.outcome) return;
+    const timestamp = new Date(market.end_date).getTime();
+    this.lastMessageAt = timestamp;
+    this.notifyMarketEvent({
+      eventType: "market_resolved",
+      slug: market.market_slug,
+      winningAssetId: market.outcome === "UP" ? market.up_token_id : market.down_token_id,
+      winningOutcome: market.outcome === "UP" ? family.outcomes[0] : family.outcomes[1],
+      timestamp,
+    });
+  }
+}
+
+/**
+ * Market list and resolutions from the recorded markets in backtest.db
+ */
+export class ReplayMarketSource implements MarketSource {
+  private markets: HistoricalMarketRow[];
+  private clock: Clock;
+  private family: MarketFamily;
+
+  constructor(markets: HistoricalMarketRow[], clock: Clock, family: MarketFamily = BTC_HOURLY_FAMILY) {
+    this.markets = markets;
+    this.clock = clock;
+    this.family = family;
+  }
+
+  /**
+   * Like Gamma's current and next market: open markets starting within one market duration
+   */
+  async fetchMarkets(): Promise<Market[]> {
+    const now = this.clock.now();
+    return this.markets
+      .filter(m => new Date(m.start_date).getTime() <= now + this.family.durationMs && new Date(m.end_date).getTime() > now)
+      .map(m => ({
+        id: m.market_slug,
+        slug: m.market_slug,
+        question: m.question || m.market_slug,
+        endDate: m.end_date,
+        outcomes: [...this.family.outcomes],
+        outcomePrices: [],
+        clobTokenIds: [m.up_token_id, m.down_token_id],
+        active: true,
+        closed: false,
+      }));
+  }
+
+  /**
+   * Recorded winner, once the market has ended on the replay clock
+   */
+  async fetchResolution(slug: string): Promise<"UP" | "DOWN" | null> {
+    const market = this.markets.find(m => m.market_slug === slug);
+    if (!market?.outcome || this.clock.now() < new Date(market.end_date).getTime()) return null;
+    return market.outcome as "UP" | "DOWN";
+  }
+}
+
+export interface ReplayOptions {
+  startDate: Date;
+  endDate: Date;
+  configManager: ConfigManager;  // Must already be forced to paper trading
+  dbPath?: string;               // Trade database for the replay (recreated on every run)
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Replay the recorded session between startDate and endDate through a fresh Bot
+ * Returns null if nothing was recorded in the window
+ */
+export async function runReplay(options: ReplayOptions): Promise<ReplayResult | null> {
+  const { startDate, endDate, configManager } = options;
+  const startMs = startDate.getTime();
+  const endMs = endDate.getTime();
+  const markets = loadHistoricalMarketsInRange(startDate, endDate);
+  if (markets.length === 0) return null;
+  const family = configManager.getMarketFamily();
+
+  // Start from an empty trade database so a session always replays the same way
+  const dbPath = options.dbPath ?? DEFAULT_REPLAY_DB;
+  rmSync(dbPath, { force: true });
+  initDatabase(true, false, dbPath);
+
+  const resolutions = markets
+    .filter(m => m.outcome && new Date(m.end_date).getTime() <= endMs)
+    .sort((a, b) => new Date(a.end_date).getTime() - new Date(b.end_date).getTime());
+  let nextResolution = 0;
+
+  // Simulated time: the bot's clock, its timers and the database timestamps only move as the replay advances
+  const clock = new ManualClock(startMs);
+  const scheduler = new ManualScheduler(clock);
+  const stream = new ReplayPriceStream(undefined, clock);
+  const wallStart = performance.now();
+  let ticks = 0;
+  let delivered = 0;
+
+  setDatabaseClock(clock);
+  try {
+    const bot = new Bot(REPLAY_PRIVATE_KEY, configManager, options.onLog ?? (() => {}), {
+      priceStream: stream,
+      markets: new ReplayMarketSource(markets, clock, family),
+      clock,
+      scheduler,
+    });
+    await bot.init();
+    await bot.start();
+
+    const resolveUntil = async (timestamp: number) => {
+      while (nextResolution < resolutions.length) {
+        const market = resolutions[nextResolution];
+        const resolvedAt = new Date(market.end_date).getTime();
+        if (resolvedAt > timestamp) break;
+        await scheduler.advanceTo(resolvedAt);
+        stream.emitResolution(market, family);
+        await settle();
+        nextResolution++;
+      }
+    };
+
+    // Trades go on the tape before the tick at the same time (live, the trade's price update follows it)
+    const trades = iterateRecordedTrades(startMs, endMs);
+    let nextTrade = trades.next();
+    const tradesUntil = async (timestamp: number) => {
+      while (!nextTrade.done && nextTrade.value.timestamp <= timestamp) {
+        const trade = nextTrade.value;
+        await resolveUntil(trade.timestamp);
+        await scheduler.advanceTo(trade.timestamp);
+        stream.emitTrade(trade);
+        nextTrade = trades.next();
+      }
+    };
+
+    for (const row of iterateRecordedTicks(startMs, endMs)) {
+      await tradesUntil(row.timestamp);
+      await resolveUntil(row.timestamp);
+      await scheduler.advanceTo(row.timestamp);
+      ticks++;
+      if (stream.emitTick(row)) {
+        delivered++;
+        await settle();
+      }
+    }
+    await tradesUntil(endMs);
+    await resolveUntil(endMs);
+    await scheduler.advanceTo(endMs);
+
+    bot.stop();
+    const stats = getTradeStats();
+    return {
+      startDate,
+      endDate,
+      riskMode: configManager.getActiveModeName(),
+      markets: markets.length,
+      ticks,
+      deliveredTicks: delivered,
+      trades: stats.total,
+      wins: stats.wins,
+      losses: stats.losses,
+      openPositions: stats.open,
+      totalPnL: getTotalPnL(),
+      finalBalance: bot.getState().balance,
+      dbPath,
+      wallTimeMs: performance.now() - wallStart,
+    };
+  } finally {
+    setDatabaseClock(systemClock);
+    stream.close();
+  }
+}
@@ -1,4 +1,8 @@
-import type { BacktestResult, BacktestTrade, OptimizationResult, PerformanceMetrics } from "./types";
+import type { BacktestResult, BacktestTrade, OptimizationResult, PerformanceMetrics, ReplayResult } from "./types";
+import { describeSizing } from "../sizing";
+import { describeReentry } from "../reentry";
+import { describeRiskGuards } from "../risk";
+import { describeFees } from "../fees";
 
 /**
  * Format a number as currency
@@ -54,6 +58,11 @@ export function printBacktestReport(result: BacktestResult): void {
   console.log(`\nPeriod: ${formatDate(result.config.startDate)} to ${formatDate(result.config.endDate)}`);
   console.log(`Starting Balance: ${formatCurrency(result.config.startingBalance)}`);
   console.log(`Risk Mode: ${result.config.riskMode}`);
+  console.log(`Position Sizing: ${describeSizing(result.config.sizing)}`);
+  console.log(`Max Positions: ${result.config.maxPositions}`);
+  console.log(`Re-entry Policy: ${describeReentry(result.config.reentry)}`);
+  console.log(`Risk Guards: ${describeRiskGuards(result.config.riskGuards)}`);
+  console.log(`Fees: ${describeFees(result.config.fees)}`);
   if (result.config.compoundLimit > 0) {
     console.log(`Compound Limit: ${formatCurrency(result.config.compoundLimit)} (reset to ${formatCurrency(result.config.baseBalance)})`);
   }
@@ -63,6 +72,15 @@ export function printBacktestReport(result: BacktestResult): void {
   console.log(`  Entry Range: ${formatCurrency(result.config.entryThreshold)} - ${formatCurrency(result.config.maxEntryPrice)}`);
   console.log(`  Profit Target: ${formatCurrency(result.config.profitTarget)}`);
   console.log(`  Stop Loss: ${formatCurrency(result.config.stopLoss)}`);
+  if (result.config.trailingStop > 0) {
+    const trailing = result.config.trailingStopType === "percent"
+      ? formatPercent(result.config.trailingStop)
+      : formatCurrency(result.config.trailingStop);
+    console.log(`  Trailing Stop: ${trailing} below high`);
+  }
+  if (result.config.stopLossDelayMs > 0 || result.config.stopLossConfirmTicks > 0) {
+    console.log(`  Stop Confirmation: ${formatDuration(result.config.stopLossDelayMs)} / ${result.config.stopLossConfirmTicks} ticks`);
+  }
   console.log(`  Max Spread: ${formatCurrency(result.config.maxSpread)}`);
   console.log(`  Time Window: ${formatDuration(result.config.timeWindowMs)}`);
 
@@ -72,6 +90,9 @@ export function printBacktestReport(result: BacktestResult): void {
   console.log(`  Win/Loss: ${result.metrics.wins}/${result.metrics.losses}`);
   console.log(`  Win Rate: ${formatPercent(result.metrics.winRate)}`);
   console.log(`  Total PnL: ${formatCurrency(result.metrics.totalPnL)}`);
+  if (result.metrics.totalFees > 0) {
+    console.log(`  Gross PnL: ${formatCurrency(result.metrics.grossPnL)} (fees ${formatCurrency(result.metrics.totalFees)})`);
+  }
   console.log(`  Return: ${formatPercent(result.metrics.returnOnCapital)}`);
   console.log(`  Final Balance: ${formatCurrency(result.finalBalance)}`);
   if (result.savedProfit > 0) {
@@ -85,6 +106,12 @@ export function printBacktestReport(result: BacktestResult): void {
   console.log(`  Sharpe Ratio: ${result.metrics.sharpeRatio.toFixed(2)}`);
   console.log(`  Profit Factor: ${result.metrics.profitFactor === Infinity ? "∞" : result.metrics.profitFactor.toFixed(2)}`);
   console.log(`  Expectancy: ${formatCurrency(result.metrics.expectancy)}`);
+  if (result.riskHalts.length > 0) {
+    console.log(`  Risk Halts: ${result.riskHalts.length}`);
+    for (const halt of result.riskHalts) {
+      console.log(`    ${new Date(halt.trippedAt).toISOString().slice(0, 16)} ${halt.reason}`);
+    }
+  }
 
   // Trade Analysis
   console.log("\n--- Trade Analysis ---");
@@ -108,6 +135,38 @@ export function printBacktestReport(result: BacktestResult): void {
   console.log("");
 }
 
+/**
+ * Print the summary of a replayed session
+ */
+export function printReplayReport(result: ReplayResult): void {
+  const simulatedMs = result.endDate.getTime() - result.startDate.getTime();
+  const speedup = result.wallTimeMs > 0 ? simulatedMs / result.wallTimeMs : 0;
+
+  console.log("\n");
+  printLine("=");
+  console.log("                 REPLAY RESULTS");
+  printLine("=");
+
+  console.log(`\nPeriod: ${result.startDate.toISOString().slice(0, 16)} to ${result.endDate.toISOString().slice(0, 16)}`);
+  console.log(`Risk Mode: ${result.riskMode}`);
+  console.log(`Markets: ${result.markets}`);
+  console.log(`Recorded Ticks: ${result.ticks} (${result.deliveredTicks} delivered to subscribed tokens)`);
+  console.log(`Replayed in ${formatDuration(result.wallTimeMs)} (${speedup.toFixed(0)}x real time)`);
+
+  console.log("\n--- Performance ---");
+  console.log(`  Total Trades: ${result.trades}`);
+  console.log(`  Win/Loss: ${result.wins}/${result.losses}`);
+  if (result.openPositions > 0) {
+    console.log(`  Still Open: ${result.openPositions}`);
+  }
+  console.log(`  Total PnL: ${formatCurrency(result.totalPnL)}`);
+  console.log(`  Final Balance: ${formatCurrency(result.finalBalance)}`);
+  console.log(`  Trades and logs: ${result.dbPath}`);
+
+  printLine("=");
+  console.log("");
+}
+
 /**
  * Print optimization results table
  */
@@ -235,6 +294,8 @@ export function tradesToCSV(trades: BacktestTrade[]): string {
     "entry_timestamp",
     "exit_timestamp",
     "exit_reason",
+    "gross_pnl",
+    "fees",
     "pnl",
   ];
 
@@ -248,6 +309,8 @@ export function tradesToCSV(trades: BacktestTrade[]): string {
     new Date(t.entryTimestamp).toISOString(),
     new Date(t.exitTimestamp).toISOString(),
     t.exitReason,
+    t.grossPnl.toFixed(4),
+    t.fees.toFixed(4),
     t.pnl.toFixed(4),
   ]);
 
@@ -1,4 +1,5 @@
-import type { RiskMode } from "../config";
+import type { FeeConfig, ReentryConfig, RiskGuardConfig, RiskMode, SizingConfig, TrailingStopType } from "../config";
+import type { RiskHalt } from "../risk";
 
 // Configuration for a single backtest run
 export interface BacktestConfig {
@@ -6,6 +7,10 @@ export interface BacktestConfig {
   entryThreshold: number;
   maxEntryPrice: number;
   stopLoss: number;
+  trailingStop: number; // Distance below highest bid since entry (0 = disabled)
+  trailingStopType: TrailingStopType;
+  stopLossDelayMs: number; // Bid must stay at/below the stop this long before selling (0 = immediate)
+  stopLossConfirmTicks: number; // ...and for this many ticks (0 = immediate)
   maxSpread: number;
   timeWindowMs: number;
   profitTarget: number;
@@ -15,12 +20,19 @@ export interface BacktestConfig {
   startDate: Date;
   endDate: Date;
   slippage: number; // Simulated slippage (e.g., 0.001 = 0.1%)
+  fees: FeeConfig; // Fee model (same as the bot's `fees` config section)
+
+  // Position sizing policy (same as the bot's `sizing` config section)
+  sizing: SizingConfig;
+  maxPositions: number; // Max concurrent positions (same as trading.maxPositions)
+  reentry: ReentryConfig; // Re-entry policy (same as the bot's `reentry` config section)
+  riskGuards: RiskGuardConfig; // Circuit breakers (same as the bot's `riskGuards` config section)
 
   // Compounding / profit taking
   compoundLimit: number; // Take profit when balance exceeds this (0 = disabled)
   baseBalance: number; // Reset to this balance after taking profit
 
-  // Risk mode: only "normal" is supported
+  // Name of the config mode the parameters came from
   riskMode: RiskMode;
 }
 
@@ -63,6 +75,11 @@ export interface SimulatedPosition {
   shares: number;
   entryPrice: number;
   entryTimestamp: number;
+  costBasis: number; // USDC reserved from balance for this position
+  entryFee: number; // USDC value of the shares taken as the entry fee
+  highestBid: number; // Highest bid since entry (for trailing stop)
+  stopBreachedAt: number | null; // First tick timestamp at/below the stop (for stop confirmation)
+  stopBreachTicks: number; // Consecutive ticks at/below the stop
 }
 
 // Exit reasons
@@ -79,7 +96,9 @@ export interface BacktestTrade {
   entryTimestamp: number;
   exitTimestamp: number;
   exitReason: ExitReason;
-  pnl: number;
+  pnl: number; // Net of fees
+  grossPnl: number; // Before fees
+  fees: number; // Entry + exit fees
 }
 
 // Performance metrics
@@ -88,7 +107,9 @@ export interface PerformanceMetrics {
   wins: number;
   losses: number;
   winRate: number;
-  totalPnL: number;
+  totalPnL: number; // Net of fees (as are all other PnL-based metrics)
+  grossPnL: number; // Before fees
+  totalFees: number;
   maxDrawdown: number;
   maxDrawdownPercent: number;
   sharpeRatio: number;
@@ -112,6 +133,7 @@ export interface BacktestResult {
   drawdownCurve: { timestamp: number; drawdown: number }[];
   savedProfit: number; // Profit taken out via compound limit
   finalBalance: number; // Balance at end of backtest
+  riskHalts: RiskHalt[]; // Circuit breaker halts, in order
 }
 
 // Optimization result for a single config
@@ -121,6 +143,24 @@ export interface OptimizationResult {
   rank: number;
 }
 
+// Result of replaying a recorded session through the real bot
+export interface ReplayResult {
+  startDate: Date;
+  endDate: Date;
+  riskMode: RiskMode;
+  markets: number;
+  ticks: number;           // Recorded ticks in the window
+  deliveredTicks: number;  // Ticks for tokens the bot was subscribed to
+  trades: number;
+  wins: number;
+  losses: number;
+  openPositions: number;   // Still open when the window ended
+  totalPnL: number;
+  finalBalance: number;    // Available paper balance at the end
+  dbPath: string;          // Trade database written by the replay
+  wallTimeMs: number;
+}
+
 // Database record for historical market
 export interface HistoricalMarketRecord {
   id: number;
@@ -185,11 +225,41 @@ export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, "startDate" | "endDat
   entryThreshold: 0.95,
   maxEntryPrice: 0.98,
   stopLoss: 0.80,
+  trailingStop: 0, // Disabled by default
+  trailingStopType: "absolute",
+  stopLossDelayMs: 0, // Sell on first touch by default
+  stopLossConfirmTicks: 0,
   maxSpread: 0.03,
   timeWindowMs: 20 * 60 * 1000, // 20 minutes for 1-hour markets
   profitTarget: 0.99,
   startingBalance: 100,
   slippage: 0.001,
+  fees: {
+    takerRate: 0.01,
+    makerRate: 0,
+    curve: "flat",
+  },
+  sizing: {
+    policy: "all", // Spend the whole balance per trade (original behavior)
+    fixedUsdc: 10,
+    fraction: 0.25,
+    kellyMultiplier: 0.25,
+    winProbability: 0.97,
+    maxUsdc: 0,
+  },
+  maxPositions: 1,
+  reentry: {
+    maxEntriesPerMarket: 0,
+    stopLossCooldownMs: 0,
+    allowSameSideAfterLoss: true,
+    maxEntriesPerHour: 0,
+  },
+  riskGuards: {
+    maxDailyLossUsdc: 0,
+    maxConsecutiveLosses: 0,
+    maxDrawdown: 0,
+    coolOffMs: 60 * 60 * 1000,
+  },
   compoundLimit: 0, // Disabled by default
   baseBalance: 10,
   riskMode: "normal",
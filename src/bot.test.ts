@@ -0,0 +1,314 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ReplayMarketSource, ReplayPriceStream } from "./backtest/replay";
+import { Bot } from "./bot";
+import { ManualClock, ManualScheduler, settle, systemClock } from "./clock";
+import { ConfigManager } from "./config";
+import { getOpenTrades, getRecentTrades, initDatabase, setDatabaseClock, type HistoricalMarketRow } from "./db";
+import { startMockPolymarketServer, type MockBook, type MockPolymarketServer } from "./mock/polymarket-server";
+import { PriceStream } from "./websocket";
+
+const PRIVATE_KEY = `0x${"1".padStart(64, "0")}`;
+const MINUTE_MS = 60 * 1000;
+const MARKET_START = Date.parse("2026-01-01T15:00:00Z");
+const MARKET_END = MARKET_START + 60 * MINUTE_MS;
+const MARKET: HistoricalMarketRow = {
+  id: 1,
+  market_slug: "bitcoin-up-or-down-january-1-10am-et",
+  question: null,
+  start_date: new Date(MARKET_START).toISOString(),
+  end_date: new Date(MARKET_END).toISOString(),
+  up_token_id: "token-up",
+  down_token_id: "token-down",
+  outcome: null,
+  fetched_at: new Date(MARKET_START).toISOString(),
+};
+
+describe("Bot on a simulated clock", () => {
+  let dir: string;
+  let clock: ManualClock;
+  let scheduler: ManualScheduler;
+  let stream: ReplayPriceStream;
+  let bot: Bot;
+  let logs: string[];
+
+  // Deliver an UP book top at the current simulated time and let the bot react
+  const quote = async (bid: number, ask: number) => {
+    stream.emitTick({
+      id: 0,
+      token_id: MARKET.up_token_id,
+      market_slug: MARKET.market_slug,
+      timestamp: clock.now(),
+      best_bid: bid,
+      best_ask: ask,
+      mid_price: (bid + ask) / 2,
+      source: "ws",
+      recorded: 1,
+      seq: 1,
+    });
+    await settle();
+  };
+  const at = (minutesBeforeEnd: number) => MARKET_END - minutesBeforeEnd * MINUTE_MS;
+  const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "bot-test-"));
+    const configPath = join(dir, "trading.config.json");
+    writeFileSync(configPath, JSON.stringify({
+      trading: { paperTrading: true, paperBalance: 100, pollIntervalMs: 1000 },
+      feedHealth: { enabled: false },
+      modes: {
+        normal: {
+          entryThreshold: 0.95,
+          maxEntryPrice: 0.98,
+          stopLoss: 0.80,
+          maxSpread: 0.03,
+          timeWindowMs: 20 * MINUTE_MS,
+          profitTarget: 0.99,
+          stopLossDelayMs: 5000,
+          stopLossConfirmTicks: 2,
+        },
+      },
+    }));
+
+    clock = new ManualClock(at(30));
+    scheduler = new ManualScheduler(clock);
+    stream = new ReplayPriceStream(undefined, clock);
+    setDatabaseClock(clock);
+    initDatabase(true, false, join(dir, "trades.db"));
+    logs = [];
+    bot = new Bot(PRIVATE_KEY, new ConfigManager(configPath), (message) => logs.push(message), {
+      priceStream: stream,
+      markets: new ReplayMarketSource([MARKET], clock),
+      clock,
+      scheduler,
+    });
+    await bot.init();
+    await bot.start();
+  });
+
+  afterEach(() => {
+    bot.stop();
+    stream.close();
+    setDatabaseClock(systemClock);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("enters only once the market is inside the time window", async () => {
+    await quote(0.95, 0.96);
+    await scheduler.advanceTo(at(20) - 1000);
+    await quote(0.95, 0.96);
+    expect(bot.getState().positions.size).toBe(0);
+
+    await scheduler.advanceTo(at(20));
+    await quote(0.95, 0.96);
+    expect(bot.getState().positions.size).toBe(1);
+    expect(getOpenTrades().map(t => t.created_at)).toEqual([iso(at(20))]);
+  });
+
+  test("the poll loop enters on its own once time reaches the window", async () => {
+    await scheduler.advanceTo(at(20) - 2000);
+    await quote(0.95, 0.96);
+    expect(bot.getState().positions.size).toBe(0);
+
+    // Polls run every second from start, so with a fresh quote the one at the window edge enters
+    await scheduler.advanceTo(at(20) - 500);
+    await quote(0.95, 0.96);
+    await scheduler.advanceTo(at(20) + 1000);
+    expect(getOpenTrades().map(t => t.created_at)).toEqual([iso(at(20))]);
+  });
+
+  test("a stop-loss waits stopLossDelayMs of simulated time before exiting", async () => {
+    await scheduler.advanceTo(at(15));
+    await quote(0.95, 0.96);
+    expect(bot.getState().positions.size).toBe(1);
+
+    const breachedAt = clock.now() + 1000;
+    await scheduler.advanceTo(breachedAt);
+    await quote(0.79, 0.81);
+    expect(logs.some(l => l.includes("[STOP-LOSS] Bid $0.79 at stop $0.80 - confirming"))).toBe(true);
+
+    await scheduler.advanceTo(breachedAt + 4000);
+    await quote(0.79, 0.81);
+    expect(bot.getState().positions.size).toBe(1);
+
+    await scheduler.advanceTo(breachedAt + 5000);
+    await quote(0.79, 0.81);
+    expect(bot.getState().positions.size).toBe(0);
+    const [trade] = getRecentTrades(1);
+    expect(trade.status).toBe("STOPPED");
+    expect(trade.closed_at).toBe(iso(breachedAt + 5000));
+  });
+
+  test("a bid that recovers before confirmation resets the stop", async () => {
+    await scheduler.advanceTo(at(15));
+    await quote(0.95, 0.96);
+
+    await scheduler.advanceTo(at(15) + 1000);
+    await quote(0.79, 0.81);
+    await scheduler.advanceTo(at(15) + 3000);
+    await quote(0.85, 0.87);
+    expect(logs.some(l => l.includes("[STOP-LOSS] Bid recovered to $0.85 before confirmation - holding"))).toBe(true);
+
+    // A new breach starts a new confirmation window instead of exiting on the old one
+    await scheduler.advanceTo(at(15) + 7000);
+    await quote(0.79, 0.81);
+    expect(bot.getState().positions.size).toBe(1);
+    await scheduler.advanceTo(at(15) + 12000);
+    await quote(0.79, 0.81);
+    expect(bot.getState().positions.size).toBe(0);
+  });
+
+  test("polls re-reading the same quote do not count as confirmation ticks", async () => {
+    await scheduler.advanceTo(at(15));
+    await quote(0.95, 0.96);
+
+    await scheduler.advanceTo(at(15) + 1000);
+    await quote(0.79, 0.81);
+    // Past stopLossDelayMs, with several polls of the cached quote in between
+    await scheduler.advanceTo(at(15) + 10000);
+    expect(bot.getState().positions.size).toBe(1);
+
+    await quote(0.79, 0.81);
+    expect(bot.getState().positions.size).toBe(0);
+    expect(getRecentTrades(1)[0].closed_at).toBe(iso(at(15) + 10000));
+  });
+});
+
+describe("Bot against the mock Polymarket server", () => {
+  const book = (bid: number, ask: number): MockBook => ({ bids: [{ price: bid, size: 500 }], asks: [{ price: ask, size: 500 }] });
+  const BALANCE = 100;
+
+  let dir: string;
+  let server: MockPolymarketServer;
+  let stream: PriceStream;
+  let bot: Bot;
+
+  async function waitFor(condition: () => boolean, timeoutMs = 20000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error("Timed out waiting for the bot");
+      await Bun.sleep(50);
+    }
+  }
+
+  /**
+   * Start the mock with one market ending in `endsInMs` whose UP book is below the entry threshold,
+   * and a bot trading it with fixed $10 entries
+   */
+  async function startBot(paperTrading: boolean, endsInMs: number): Promise<void> {
+    dir = mkdtempSync(join(tmpdir(), "bot-mock-test-"));
+    server = startMockPolymarketServer({
+      port: 0,
+      balanceUsdc: BALANCE,
+      scenario: { markets: [{ endsInMs, up: book(0.92, 0.93), down: book(0.07, 0.08) }], steps: [] },
+    });
+    const configPath = join(dir, "trading.config.json");
+    writeFileSync(configPath, JSON.stringify({
+      trading: { paperTrading, paperBalance: BALANCE, pollIntervalMs: 1000 },
+      sizing: { policy: "fixed", fixedUsdc: 10 },
+      endpoints: { gammaUrl: server.gammaUrl, clobUrl: server.clobUrl, wsUrl: server.wsUrl },
+      modes: {
+        normal: {
+          entryThreshold: 0.95,
+          maxEntryPrice: 0.98,
+          stopLoss: 0.80,
+          maxSpread: 0.03,
+          timeWindowMs: 20 * MINUTE_MS,
+          profitTarget: 0.99,
+        },
+      },
+    }));
+
+    initDatabase(paperTrading, false, join(dir, "trades.db"));
+    stream = new PriceStream(server.wsUrl);
+    bot = new Bot(PRIVATE_KEY, new ConfigManager(configPath), () => {}, { priceStream: stream });
+    await bot.init();
+    await bot.start();
+  }
+
+  // Move the UP book into the entry band and wait for the position to open
+  async function enter(): Promise<void> {
+    server.setBook(server.markets[0].upTokenId, book(0.95, 0.96));
+    await waitFor(() => getOpenTrades().length === 1);
+  }
+
+  afterEach(async () => {
+    bot.shutdown();
+    stream.close();
+    // Let in-flight orders finish before the server and database go away
+    const { pendingEntries, pendingExits } = bot.getState();
+    await waitFor(() => pendingEntries.size === 0 && pendingExits.size === 0);
+    server.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("paper: exits at the profit target without touching the wallet", async () => {
+    await startBot(true, 10 * MINUTE_MS);
+    await enter();
+    const [entry] = getOpenTrades();
+    expect(entry.entry_price).toBeCloseTo(0.96, 6);
+
+    server.setBook(server.markets[0].upTokenId, book(0.99, 1.00));
+    await waitFor(() => getOpenTrades().length === 0);
+    const [trade] = getRecentTrades(1);
+    expect(trade.status).toBe("RESOLVED");
+    expect(trade.exit_price).toBeCloseTo(0.99, 6);
+    expect(trade.pnl).toBeGreaterThan(0);
+    expect(trade.closed_at).not.toBeNull();
+    expect(server.getBalance()).toBe(BALANCE);
+    expect(server.getOrders()).toEqual([]);
+  }, 30000);
+
+  test("paper: settles at the payout when the market resolves", async () => {
+    await startBot(true, 8000);
+    await enter();
+    server.resolve(server.markets[0].slug, "UP");
+
+    await waitFor(() => getOpenTrades().length === 0);
+    const [trade] = getRecentTrades(1);
+    expect(trade.status).toBe("RESOLVED");
+    expect(trade.exit_price).toBe(1);
+    expect(trade.pnl).toBeGreaterThan(0);
+    expect(server.getBalance()).toBe(BALANCE);
+  }, 30000);
+
+  test("live: buys and sells through the CLOB at the profit target", async () => {
+    await startBot(false, 10 * MINUTE_MS);
+    const { upTokenId } = server.markets[0];
+    await enter();
+    const [entry] = getOpenTrades();
+    expect(server.getPosition(upTokenId)).toBe(entry.shares);
+    expect(server.getBalance()).toBeCloseTo(BALANCE - entry.cost_basis, 6);
+
+    server.setBook(upTokenId, book(0.99, 1.00));
+    await waitFor(() => getOpenTrades().length === 0);
+    const [trade] = getRecentTrades(1);
+    expect(trade.status).toBe("RESOLVED");
+    expect(trade.exit_price).toBeCloseTo(0.99, 6);
+    expect(server.getPosition(upTokenId)).toBe(0);
+    // The mock charges no fees, so the wallet moves by exactly the trade's PnL
+    expect(server.getBalance()).toBeCloseTo(BALANCE + trade.pnl!, 6);
+  }, 30000);
+
+  test("live: a resolved market closes the position at the payout", async () => {
+    await startBot(false, 8000);
+    const { slug, upTokenId } = server.markets[0];
+    await enter();
+    const [entry] = getOpenTrades();
+
+    // Resolution redeems the winning shares, so there is nothing left to sell at expiry
+    server.resolve(slug, "UP");
+    expect(server.getPosition(upTokenId)).toBe(0);
+    expect(server.getBalance()).toBeCloseTo(BALANCE - entry.cost_basis + entry.shares, 6);
+
+    await waitFor(() => getOpenTrades().length === 0);
+    const [trade] = getRecentTrades(1);
+    expect(trade.status).toBe("RESOLVED");
+    expect(trade.exit_price).toBe(1);
+    expect(trade.pnl).toBeCloseTo(entry.shares - entry.cost_basis, 6);
+    expect(server.getBalance()).toBeCloseTo(BALANCE + trade.pnl!, 6);
+  }, 30000);
+});
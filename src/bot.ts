@@ -1,8 +1,47 @@
 import { Trader, type SignatureType, MIN_ORDER_SIZE } from "./trader";
-import { findEligibleMarkets, fetchBtc1HourMarkets, analyzeMarket, fetchMarketResolution, type EligibleMarket, type Market, type PriceOverride } from "./scanner";
-import { insertTrade, closeTrade, getOpenTrades, getLastClosedTrade, getLastWinningTradeInMarket, insertLog, type Trade, type LogLevel } from "./db";
+import { findEligibleMarkets, analyzeMarket, gammaMarketSource, type EligibleMarket, type Market, type MarketSource, type PriceOverride } from "./scanner";
+import {
+  insertTrade,
+  closeTrade,
+  getOpenTrades,
+  getTradeById,
+  updateTradeShares,
+  recordOrderFill,
+  recordOrderCancelled,
+  linkOrdersToTrade,
+  getLastClosedTrade,
+  getLastWinningTradeInMarket,
+  getLastLosingTradeInMarket,
+  getLastStoppedTradeInMarket,
+  countTradesInMarket,
+  countTradesSince,
+  getRealizedPnlSince,
+  countLosingStreakSince,
+  getRiskState,
+  saveRiskState,
+  insertLog,
+  insertShadowFill,
+  type Trade,
+  type LogLevel
+} from "./db";
 import { getPriceStream, UserStream, type MarketEvent, type PriceStream, type UserOrderEvent, type UserTradeEvent } from "./websocket";
 import { type ConfigManager, type ConfigChangeEvent, type BotConfig } from "./config";
+import { ThresholdStrategy, type MarketSnapshot, type Strategy, type TradeHistory } from "./strategy";
+import { calculatePositionSize, describeSizing } from "./sizing";
+import { checkReentry, describeReentry, type ReentryHistory } from "./reentry";
+import { checkRiskGuards, describeRiskGuards, type RiskHalt, type RiskHistory } from "./risk";
+import { getSpotFeed, checkSpotDistance, type SpotFeed } from "./spot";
+import { PaperVenue, LiveVenue, type EntryFill, type ExecutionVenue, type SellOrder } from "./venue";
+import { runMakerEntry, type MakerEntryResult } from "./maker";
+import { checkDepth, depthFiltersDisabled, type DepthFilterParams } from "./orderbook";
+import { checkTape, tapeFiltersDisabled, type TapeFilterParams } from "./trade-tape";
+import { ShadowComparator } from "./shadow";
+import { TickRecorder } from "./recorder";
+import { FeedHealthMonitor, type TokenFreshness } from "./feed-health";
+import { sleep, systemClock, systemScheduler, type Clock, type Scheduler, type TimerHandle } from "./clock";
+import { MarketCalendar } from "./market-calendar";
+import { marketSlugPattern, outcomeIndexes, type MarketFamily } from "./market-family";
+import { reconcile, parseOpenOrder, type KnownToken, type OpenOrderSummary, type ReconcileIssue } from "./reconcile";
 
 export type { RiskMode, BotConfig } from "./config";
 
@@ -14,6 +53,13 @@ export interface Position {
   side: "UP" | "DOWN";
   marketSlug: string;
   marketEndDate: Date;
+  highestBid: number;  // Highest bid since entry (0 = unknown, e.g. loaded after restart)
+  stopBreachedAt: number | null;  // When the bid first touched the stop (stop-loss confirmation)
+  stopBreachTicks: number;  // Consecutive price updates at/below the stop
+  lastTickAt: number;  // Timestamp of the last WebSocket update the stop tracking counted (0 = none)
+  exitedShares: number;  // Shares already sold by partial exits (paper book fills)
+  exitProceeds: number;  // USDC received from those partial exits (after fees)
+  exitFees: number;  // Fees taken from those partial exits
   // No limit orders - using WebSocket monitoring for profit target and stop-loss
 }
 
@@ -29,10 +75,12 @@ export interface BotState {
   logs: string[];
   tradingEnabled: boolean;
   initError: string | null;
+  riskHalt: RiskHalt | null;  // Tripped circuit breaker (entries disabled, exits still managed)
   wsConnected: boolean;
   userWsConnected: boolean;
   markets: Market[];
   paperTrading: boolean;
+  shadowMode: boolean;  // Real account read-only, every order paper-filled
   // Market resolutions from WebSocket (slug -> winning token ID)
   marketResolutions: Map<string, string>;
 }
@@ -46,33 +94,126 @@ export interface WsStats {
   userLastMessageAt: number;
   userMarketCount: number;
   priceMaxAgeMs: number;
+  feedHealthEnabled: boolean;
+  tokenStaleMs: number;
+  tokens: TokenFreshness[];  // Per-token freshness of the market subscriptions, stalest first
+  resubscribes: number;      // Stream stalls answered with a resubscribe
+  reconnects: number;        // ...and with a forced reconnect
+  restPolls: number;         // REST quotes fetched for stale position tokens
 }
 
 export type LogCallback = (message: string) => void;
 
+// Replacements for the live data sources (replays run the bot on recorded data)
+export interface BotServices {
+  priceStream?: PriceStream;
+  markets?: MarketSource;
+  clock?: Clock;          // Time for entry windows, expiry, staleness and timestamps (system clock by default)
+  scheduler?: Scheduler;  // Timers for the poll loop, maker, shadow, recorder and feed health (system timers by default)
+}
+
 // Memory limits
 // Increased from 100 to 500 to reduce risk of missing profit exits
 const MAX_LIMIT_FILLS_CACHE = 500;
 
 export class Bot {
   private trader: Trader;
+  private venue: ExecutionVenue;
   private config: BotConfig;
   private configManager: ConfigManager;
   private state: BotState;
-  private interval: Timer | null = null;
+  private interval: TimerHandle | null = null;
   private onLog: LogCallback;
   private priceStream: PriceStream;
+  private marketSource: MarketSource;
+  private family: MarketFamily; // Market series being traded (restart to change)
+  private calendar: MarketCalendar;
+  private clock: Clock;
+  private scheduler: Scheduler;
+  private spotFeed: SpotFeed;
   private userStream: UserStream | null = null;
   private wsLimitFills: Map<string, { filledShares: number; avgPrice: number; timestamp: number }> = new Map();
   private pendingLimitFills: Set<string> = new Set();
   private lastMarketRefresh: Date | null = null;
-
-  constructor(privateKey: string, configManager: ConfigManager, onLog: LogCallback = console.log) {
+  private reentryBlocks: Map<string, string> = new Map(); // tokenId -> last logged re-entry block reason
+  private spotBlocks: Set<string> = new Set(); // "slug:side" with a logged spot filter block
+  private depthBlocks: Set<string> = new Set(); // "slug:side" with a logged depth filter block
+  private tapeBlocks: Set<string> = new Set(); // "slug:side" with a logged tape filter block
+  private reconcileIssues: ReconcileIssue[] = []; // Startup mismatches waiting for the operator
+  private shadow: ShadowComparator | null = null; // Shadow mode: paper fills vs the live book
+  private recorder: TickRecorder; // Live ticks into backtest.db (recorder.enabled)
+  private feedHealth: FeedHealthMonitor; // Stale token / stalled stream watchdog (feedHealth.enabled)
+  private riskPeakEquity = 0; // Highest equity since the risk guards were last reset
+  private riskResetAt: number; // When the risk guards were last reset (losing streaks count from here)
+
+  constructor(privateKey: string, configManager: ConfigManager, onLog: LogCallback = console.log, services: BotServices = {}) {
     this.configManager = configManager;
     this.config = configManager.toBotConfig();
-    this.trader = new Trader(privateKey, this.config.signatureType, this.config.funderAddress);
+    this.clock = services.clock ?? systemClock;
+    this.scheduler = services.scheduler ?? systemScheduler;
+    this.riskResetAt = this.clock.now();
+    const endpoints = configManager.getEndpoints();
+    this.family = configManager.getMarketFamily();
+    this.calendar = new MarketCalendar(this.family);
+    this.trader = new Trader(privateKey, this.config.signatureType, this.config.funderAddress, endpoints.clobUrl);
+    const shadowMode = !this.config.paperTrading && configManager.getShadow().enabled;
+    if (shadowMode) {
+      // Shadow mode signs into the real account but must never place or cancel an order
+      this.trader.setReadOnly(true);
+      this.shadow = new ShadowComparator({
+        windowMs: () => this.configManager.getShadow().compareWindowMs,
+        getBook: (tokenId) => this.priceStream.isConnected() ? this.priceStream.getBook(tokenId) : null,
+        onResult: (result) => insertShadowFill({
+          orderId: result.fill.orderId,
+          tokenId: result.fill.tokenId,
+          side: result.fill.side,
+          shares: result.fill.shares,
+          paperPrice: result.fill.price,
+          windowMs: result.windowMs,
+          samples: result.samples,
+          bookEndPrice: result.endPrice,
+          bookBestPrice: result.bestPrice,
+          bookWorstPrice: result.worstPrice,
+          fillable: result.fillable
+        }),
+        log: (message, context) => this.log(message, context),
+        clock: this.clock,
+        scheduler: this.scheduler
+      });
+    }
+    this.venue = this.config.paperTrading || shadowMode
+      ? new PaperVenue({
+        balance: this.config.paperBalance,
+        fees: () => this.configManager.getFees(),
+        resolveWinner: (marketSlug) => this.resolveMarketWinner(marketSlug),
+        getBook: (tokenId) => this.priceStream.isConnected() ? this.priceStream.getBook(tokenId) : null,
+        onTakerFill: this.shadow ? (fill) => this.shadow?.track(fill) : undefined,
+        log: (message, context) => this.log(message, context)
+      })
+      : new LiveVenue(
+        this.trader,
+        () => this.configManager.getFees(),
+        (message, context) => this.log(message, context),
+        (marketSlug) => this.resolveMarketWinner(marketSlug)
+      );
     this.onLog = onLog;
-    this.priceStream = getPriceStream();
+    this.recorder = new TickRecorder((message) => this.log(message), this.scheduler);
+    this.priceStream = services.priceStream ?? getPriceStream(endpoints.wsUrl, this.clock);
+    this.marketSource = services.markets ?? gammaMarketSource(endpoints.gammaUrl, this.clock, this.family);
+    this.spotFeed = getSpotFeed(configManager.getSpot(), this.clock);
+    this.feedHealth = new FeedHealthMonitor({
+      stream: this.priceStream,
+      clock: this.clock,
+      scheduler: this.scheduler,
+      positionTokens: () => [...this.state.positions.keys()],
+      fetchQuote: async (tokenId) => {
+        // getPrice reports errors (and an empty book) as bid 0 / ask 1 - never exit on that
+        const { bid, ask } = await this.trader.getPrice(tokenId);
+        return bid > 0 ? { bid, ask } : null;
+      },
+      onQuote: (tokenId, bid, ask) => this.checkExitRealtime(tokenId, bid, ask, "REST"),
+      log: (message) => this.log(message)
+    });
     this.state = {
       running: false,
       balance: this.config.paperTrading ? this.config.paperBalance : 0,
@@ -85,10 +226,12 @@ export class Bot {
       logs: [],
       tradingEnabled: false,
       initError: null,
+      riskHalt: null,
       wsConnected: false,
       userWsConnected: false,
       markets: [],
       paperTrading: this.config.paperTrading,
+      shadowMode,
       marketResolutions: new Map()
     };
 
@@ -106,6 +249,9 @@ export class Bot {
     // Check for changes that require special handling
     const requiresRestart = event.changedPaths.some(path =>
       path.startsWith("trading.paperTrading") ||
+      path.startsWith("shadow.enabled") ||
+      path.startsWith("endpoints.") ||
+      path.startsWith("market.") ||
       path.startsWith("wallet.signatureType") ||
       path.startsWith("wallet.funderAddress")
     );
@@ -116,8 +262,13 @@ export class Bot {
 
     // Handle paperBalance changes in paper trading mode
     if (event.changedPaths.includes("trading.paperBalance") && this.config.paperTrading) {
-      if (this.state.positions.size === 0) {
+      if (this.state.positions.size === 0 && this.venue instanceof PaperVenue) {
+        // Profit set aside by the compound limit stays in the paper account
+        this.venue.setBalance(this.config.paperBalance + this.state.savedProfit);
         this.state.balance = this.config.paperBalance;
+        // A new paper balance is a new baseline for the drawdown guard
+        this.riskPeakEquity = this.getEquity();
+        this.persistRiskState();
         this.log(`[CONFIG] Paper balance updated to $${this.config.paperBalance.toFixed(2)}`);
       } else {
         this.log(`[CONFIG] Paper balance change ignored (${this.state.positions.size} open positions)`);
@@ -126,23 +277,46 @@ export class Bot {
 
     // Handle pollIntervalMs changes - restart the interval
     if (event.changedPaths.includes("trading.pollIntervalMs") && this.interval) {
-      clearInterval(this.interval);
-      this.interval = setInterval(() => this.tick(), this.config.pollIntervalMs);
+      this.scheduler.clear(this.interval);
+      this.interval = this.scheduler.setInterval(() => this.tick(), this.config.pollIntervalMs);
       this.log(`[CONFIG] Poll interval changed to ${this.config.pollIntervalMs}ms`);
     }
 
-    // Log mode changes
-    if (event.changedPaths.includes("activeMode")) {
-      this.log(`[CONFIG] Mode changed: ${prevConfig.riskMode} -> ${this.config.riskMode}`);
+    // Re-entry policy is read on every entry; clear logged blocks so new reasons are reported
+    if (event.changedPaths.some(path => path.startsWith("reentry."))) {
+      this.reentryBlocks.clear();
+      this.log(`[CONFIG] Re-entry policy: ${describeReentry(this.configManager.getReentry())}`);
     }
 
-    // Log threshold changes for current mode
-    const thresholdChanges = event.changedPaths.filter(p =>
-      p.includes("entryThreshold") || p.includes("stopLoss") || p.includes("maxEntryPrice")
-    );
-    if (thresholdChanges.length > 0) {
-      const mode = this.configManager.getActiveMode();
-      this.log(`[CONFIG] Updated: entry=$${mode.entryThreshold.toFixed(2)}, stop=$${mode.stopLoss.toFixed(2)}`);
+    // Recorder only runs while the bot does; start() picks up the setting otherwise
+    if (event.changedPaths.some(path => path.startsWith("recorder.")) && this.state.running) {
+      this.updateRecorder();
+    }
+
+    // Same for the feed watchdog
+    if (event.changedPaths.some(path => path.startsWith("feedHealth.")) && this.state.running) {
+      this.updateFeedHealth();
+    }
+
+    // Risk guards are checked on every tick and after every exit
+    if (event.changedPaths.some(path => path.startsWith("riskGuards."))) {
+      this.log(`[CONFIG] Risk guards: ${describeRiskGuards(this.configManager.getRiskGuards())}`);
+    }
+
+    // Log mode changes (strategy picks up the new mode on the next price update)
+    const mode = this.configManager.getActiveMode();
+    if (event.changedPaths.includes("activeMode")) {
+      this.log(`[CONFIG] Mode changed: ${prevConfig.riskMode} -> ${this.config.riskMode} (entry=$${mode.entryThreshold.toFixed(2)}-$${mode.maxEntryPrice.toFixed(2)}, stop=$${mode.stopLoss.toFixed(2)})`);
+    } else {
+      // Log threshold changes for current mode (edits to other modes don't affect trading)
+      const modePrefix = `modes.${this.config.riskMode}.`;
+      const thresholdChanges = event.changedPaths.filter(p =>
+        p.startsWith(modePrefix) &&
+        (p.includes("entryThreshold") || p.includes("stopLoss") || p.includes("maxEntryPrice"))
+      );
+      if (thresholdChanges.length > 0) {
+        this.log(`[CONFIG] Updated: entry=$${mode.entryThreshold.toFixed(2)}, stop=$${mode.stopLoss.toFixed(2)}`);
+      }
     }
   }
 
@@ -150,6 +324,11 @@ export class Bot {
     if (trade.market_end_date) {
       return new Date(trade.market_end_date);
     }
+    const period = this.calendar.parse(trade.market_slug, this.clock.now());
+    if (period) {
+      return period.end;
+    }
+    // Legacy BTC slug format from before market families
     const match = trade.market_slug.match(/btc-updown-1h-(\d+)/);
     if (match) {
       const startTimestamp = parseInt(match[1]) * 1000;
@@ -159,17 +338,32 @@ export class Bot {
   }
 
   /**
-   * Get profit target from config
+   * Position for an OPEN trade loaded from the database
    */
-  private getProfitTarget(): number {
-    return this.configManager.getProfitTarget();
+  private positionFromTrade(trade: Trade, shares: number): Position {
+    return {
+      tradeId: trade.id,
+      tokenId: trade.token_id,
+      shares,
+      entryPrice: trade.entry_price,
+      side: trade.side as "UP" | "DOWN",
+      marketSlug: trade.market_slug,
+      marketEndDate: this.parseMarketEndDate(trade),
+      highestBid: 0,
+      stopBreachedAt: null,
+      stopBreachTicks: 0,
+      lastTickAt: 0,
+      exitedShares: 0,
+      exitProceeds: 0,
+      exitFees: 0
+    };
   }
 
   /**
-   * Get paper fee rate from config
+   * Get profit target from config
    */
-  private getPaperFeeRate(): number {
-    return this.configManager.getAdvanced().paperFeeRate;
+  private getProfitTarget(): number {
+    return this.configManager.getProfitTarget();
   }
 
   /**
@@ -197,15 +391,115 @@ export class Bot {
       entryThreshold: mode.entryThreshold,
       maxEntryPrice: mode.maxEntryPrice,
       stopLoss: mode.stopLoss,
+      trailingStop: mode.trailingStop ?? 0,
+      trailingStopType: mode.trailingStopType ?? "absolute",
+      stopLossDelayMs: mode.stopLossDelayMs ?? 0,
+      stopLossConfirmTicks: mode.stopLossConfirmTicks ?? 0,
+      minSpotDistanceUsd: mode.minSpotDistanceUsd ?? 0,
+      minSpotDistanceSigma: mode.minSpotDistanceSigma ?? 0,
+      depthBand: mode.depthBand ?? 0.02,
+      minBidDepth: mode.minBidDepth ?? 0,
+      minAskDepthUsdc: mode.minAskDepthUsdc ?? 0,
+      minBookImbalance: mode.minBookImbalance ?? -1,
+      tapeWindowMs: mode.tapeWindowMs ?? 5 * 60 * 1000,
+      minTradedUsdc: mode.minTradedUsdc ?? 0,
+      minTrades: mode.minTrades ?? 0,
+      minBuyRatio: mode.minBuyRatio ?? 0,
       timeWindowMs: mode.timeWindowMs,
       maxSpread: mode.maxSpread
     };
   }
 
+  /**
+   * Book depth filters from the active mode
+   */
+  private getDepthFilter(): DepthFilterParams {
+    const { depthBand, minBidDepth, minAskDepthUsdc, minBookImbalance } = this.getActiveConfig();
+    return { depthBand, minBidDepth, minAskDepthUsdc, minBookImbalance };
+  }
+
+  /**
+   * Trade tape filters from the active mode
+   */
+  private getTapeFilter(): TapeFilterParams {
+    const { tapeWindowMs, minTradedUsdc, minTrades, minBuyRatio } = this.getActiveConfig();
+    return { tapeWindowMs, minTradedUsdc, minTrades, minBuyRatio };
+  }
+
+  /**
+   * Build the shared strategy from the active mode (re-read on every call for hot-reload)
+   */
+  private getStrategy(): Strategy {
+    return new ThresholdStrategy({
+      ...this.getActiveConfig(),
+      profitTarget: this.getProfitTarget()
+    });
+  }
+
+  /**
+   * Describe the active trailing stop for log messages ("" when disabled)
+   */
+  private formatTrailingStop(): string {
+    const { trailingStop, trailingStopType } = this.config;
+    if (trailingStop <= 0) return "";
+    return trailingStopType === "percent"
+      ? `, trailing ${(trailingStop * 100).toFixed(1)}% from high`
+      : `, trailing $${trailingStop.toFixed(2)} from high`;
+  }
+
+  /**
+   * Trade history for strategy entry rules, backed by the trades table
+   */
+  private tradeHistory: TradeHistory = {
+    lastWinningTrade: (marketSlug, side) => {
+      const trade = getLastWinningTradeInMarket(marketSlug, side);
+      return trade ? { marketSlug: trade.market_slug, side, pnl: trade.pnl ?? 0 } : null;
+    }
+  };
+
+  /**
+   * Trade history for the re-entry policy, backed by the trades table
+   */
+  private reentryHistory: ReentryHistory = {
+    entriesInMarket: (marketSlug) => countTradesInMarket(marketSlug),
+    lastStopLossAt: (marketSlug) => {
+      const trade = getLastStoppedTradeInMarket(marketSlug);
+      return trade?.closed_at ? new Date(trade.closed_at).getTime() : null;
+    },
+    lastLosingTrade: (marketSlug, side) => {
+      const trade = getLastLosingTradeInMarket(marketSlug, side);
+      return trade ? { marketSlug: trade.market_slug, side, pnl: trade.pnl ?? 0 } : null;
+    },
+    entriesSince: (timestamp) => countTradesSince(new Date(timestamp))
+  };
+
+  /**
+   * Closed trade history for the risk guards, backed by the trades table
+   */
+  private riskHistory: RiskHistory = {
+    realizedPnlSince: (timestamp) => getRealizedPnlSince(new Date(timestamp)),
+    losingStreakSince: (timestamp) => countLosingStreakSince(new Date(timestamp))
+  };
+
+  /**
+   * Build the strategy's view of a position's token at the given bid/ask
+   */
+  private positionSnapshot(position: Position, bestBid: number, bestAsk: number): MarketSnapshot {
+    return {
+      marketSlug: position.marketSlug,
+      tokenId: position.tokenId,
+      side: position.side,
+      bestBid,
+      bestAsk,
+      timestamp: this.clock.now(),
+      marketEndTime: position.marketEndDate.getTime()
+    };
+  }
+
   async init(): Promise<void> {
     // Fetch initial markets
     try {
-      this.state.markets = await fetchBtc1HourMarkets();
+      this.state.markets = await this.marketSource.fetchMarkets();
       if (this.state.markets.length > 0) {
         this.log(`Found ${this.state.markets.length} active markets`);
       }
@@ -227,14 +521,22 @@ export class Bot {
     // Real-time price monitoring via WebSocket
     // Note: Using async callback to properly await mutex-protected operations
     this.priceStream.onPrice(async (update) => {
-      // Real-time stop-loss check (await to prevent race conditions)
-      await this.checkStopLossRealtime(update.tokenId, update.bestBid);
-      // Real-time profit target check (await to prevent race conditions)
-      await this.checkProfitTargetRealtime(update.tokenId, update.bestBid);
+      if (this.recorder.isRunning()) {
+        this.recorder.record(update);
+      }
+      // Real-time stop-loss / profit target check (await to prevent race conditions)
+      await this.checkExitRealtime(update.tokenId, update.bestBid, update.bestAsk, "WS", update.timestamp);
       // Real-time entry check (await to prevent race conditions)
       await this.checkEntryRealtime(update.tokenId, update.bestBid, update.bestAsk);
     });
 
+    // Trade tape (the stream aggregates it; the recorder keeps the raw trades)
+    this.priceStream.onTrade((trade) => {
+      if (this.recorder.isRunning()) {
+        this.recorder.recordTrade(trade);
+      }
+    });
+
     this.priceStream.onMarketEvent((event) => {
       this.handleMarketEvent(event);
     });
@@ -251,6 +553,9 @@ export class Bot {
       this.log("WebSocket connection failed, using Gamma API");
     }
 
+    // BTC spot feed for spot distance entry filters
+    await this.initSpotFeed();
+
     // Paper trading mode - skip real trader init
     if (this.config.paperTrading) {
       this.log("PAPER TRADING MODE - Using virtual money");
@@ -259,19 +564,15 @@ export class Bot {
       // Load open paper trades from DB
       const openTrades = getOpenTrades();
       for (const trade of openTrades) {
-        this.state.positions.set(trade.token_id, {
-          tradeId: trade.id,
-          tokenId: trade.token_id,
-          shares: trade.shares,
-          entryPrice: trade.entry_price,
-          side: trade.side as "UP" | "DOWN",
-          marketSlug: trade.market_slug,
-          marketEndDate: this.parseMarketEndDate(trade)
-        });
+        this.state.positions.set(trade.token_id, this.positionFromTrade(trade, trade.shares));
       }
       if (openTrades.length > 0) {
-        // Money is invested in positions, so available balance is 0
-        this.state.balance = 0;
+        // Money invested in positions is not available (sizing may leave part of the balance free)
+        const invested = openTrades.reduce((sum, t) => sum + t.cost_basis, 0);
+        this.state.balance = Math.max(0, this.state.balance - invested);
+        if (this.venue instanceof PaperVenue) {
+          this.venue.setBalance(this.state.balance);
+        }
         this.log(`Loaded ${openTrades.length} open positions`);
         // Check for any expired positions immediately
         await this.checkExpiredPositions();
@@ -306,53 +607,12 @@ export class Bot {
         this.log(`Balance: $${this.state.balance.toFixed(2)} USDC`);
         await this.initUserStream();
 
-        // Load open trades from DB and verify they still exist on Polymarket
-        const openTrades = getOpenTrades();
-        for (const trade of openTrades) {
-          // Verify position actually exists on Polymarket
-          // Retry up to 3 times to distinguish API errors from actual 0 balance
-          let actualBalance: number | null = null;
-          for (let attempt = 1; attempt <= 3; attempt++) {
-            actualBalance = await this.trader.getPositionBalance(trade.token_id);
-            if (actualBalance !== null) break;
-            this.log(`Position check failed (attempt ${attempt}/3), retrying...`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-
-          // API error after all retries - keep position in DB, don't close
-          if (actualBalance === null) {
-            this.log(`Warning: Cannot verify position ${trade.side} - keeping in DB (API error)`);
-            this.state.positions.set(trade.token_id, {
-              tradeId: trade.id,
-              tokenId: trade.token_id,
-              shares: trade.shares, // Use DB value since API failed
-              entryPrice: trade.entry_price,
-              side: trade.side as "UP" | "DOWN",
-              marketSlug: trade.market_slug,
-              marketEndDate: this.parseMarketEndDate(trade)
-            });
-            continue;
-          }
-
-          if (actualBalance < 0.01) {
-            // Position doesn't exist - was sold manually or resolved
-            this.log(`Closing stale DB position: ${trade.side} (no shares on Polymarket)`);
-            closeTrade(trade.id, 0.99, "RESOLVED"); // Assume resolved at profit
-            continue;
-          }
-
-          // Use actual balance from Polymarket, not DB value
-          this.state.positions.set(trade.token_id, {
-            tradeId: trade.id,
-            tokenId: trade.token_id,
-            shares: actualBalance, // Use real balance
-            entryPrice: trade.entry_price,
-            side: trade.side as "UP" | "DOWN",
-            marketSlug: trade.market_slug,
-            marketEndDate: this.parseMarketEndDate(trade)
-          });
-
-          this.log(`Loaded position: ${trade.side} with ${actualBalance.toFixed(2)} shares`);
+        if (this.state.shadowMode) {
+          // Shadow trades are paper positions; the real account is only read
+          await this.loadShadowAccount();
+        } else {
+          // Load open trades from DB, checked against holdings and open orders on Polymarket
+          await this.reconcileOnStartup();
         }
         if (this.state.positions.size > 0) {
           // Check for any expired positions immediately
@@ -372,6 +632,368 @@ export class Bot {
         this.log("Tip: Ensure API keys match your wallet");
       }
     }
+
+    if (this.state.tradingEnabled) {
+      this.restoreRiskState();
+    }
+  }
+
+  /**
+   * Load the risk guard state so a halt from before a restart still applies
+   */
+  private restoreRiskState(): void {
+    const saved = getRiskState();
+    if (!saved) {
+      this.riskPeakEquity = this.getEquity();
+      this.riskResetAt = this.clock.now();
+      this.persistRiskState();
+      return;
+    }
+
+    this.riskPeakEquity = saved.peak_equity;
+    this.riskResetAt = new Date(saved.reset_at).getTime();
+    if (saved.halt_reason && saved.halted_at && saved.halted_until) {
+      this.state.riskHalt = {
+        reason: saved.halt_reason,
+        trippedAt: new Date(saved.halted_at).getTime(),
+        until: new Date(saved.halted_until).getTime()
+      };
+      this.state.tradingEnabled = false;
+      this.log(`[RISK] Halt restored: ${saved.halt_reason} - entries disabled until ${saved.halted_until}`);
+    }
+  }
+
+  /**
+   * Persist the risk guard state (halt, peak equity, reset time)
+   */
+  private persistRiskState(): void {
+    const halt = this.state.riskHalt;
+    try {
+      saveRiskState({
+        haltReason: halt?.reason ?? null,
+        haltedAt: halt ? new Date(halt.trippedAt) : null,
+        haltedUntil: halt ? new Date(halt.until) : null,
+        peakEquity: this.riskPeakEquity,
+        resetAt: new Date(this.riskResetAt)
+      });
+    } catch (err) {
+      this.log(`[RISK] Failed to save risk state: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Balance plus saved profit plus open positions at cost
+   */
+  private getEquity(): number {
+    let invested = 0;
+    for (const position of this.state.positions.values()) {
+      invested += position.entryPrice * position.shares;
+    }
+    return this.state.balance + this.state.savedProfit + invested;
+  }
+
+  /**
+   * Whether open positions should still be managed (exits keep running during a risk halt)
+   */
+  private canManagePositions(): boolean {
+    return this.state.tradingEnabled || this.state.riskHalt !== null;
+  }
+
+  /**
+   * Check the circuit breakers: trip a halt, or lift one whose cool-off has ended
+   */
+  private updateRiskGuards(): void {
+    if (!this.canManagePositions()) return;
+    const now = this.clock.now();
+    const equity = this.getEquity();
+
+    if (this.state.riskHalt) {
+      if (now < this.state.riskHalt.until) return;
+      // Start over from the current equity so the same losses do not trip the guards again
+      this.log(`[RISK] Cool-off over (${this.state.riskHalt.reason}) - entries re-enabled`);
+      this.state.riskHalt = null;
+      this.state.tradingEnabled = true;
+      this.riskResetAt = now;
+      this.riskPeakEquity = equity;
+      this.persistRiskState();
+    }
+
+    if (equity > this.riskPeakEquity + 0.01) {
+      this.riskPeakEquity = equity;
+      this.persistRiskState();
+    }
+
+    const halt = checkRiskGuards(this.configManager.getRiskGuards(), this.riskHistory, {
+      equity,
+      peakEquity: this.riskPeakEquity,
+      resetAt: this.riskResetAt,
+      timestamp: now
+    });
+    if (!halt) return;
+
+    this.state.riskHalt = halt;
+    this.state.tradingEnabled = false;
+    this.persistRiskState();
+    this.log(`[RISK] Circuit breaker tripped: ${halt.reason} - entries disabled until ${new Date(halt.until).toISOString()}`);
+  }
+
+  /**
+   * Shadow mode startup: paper account funded with the wallet balance, positions from
+   * the shadow DB, and a read-only look at the real account's open orders
+   */
+  private async loadShadowAccount(): Promise<void> {
+    const openOrders = (await this.trader.getOpenOrders())
+      .map(parseOpenOrder)
+      .filter((order): order is OpenOrderSummary => order !== null);
+    this.log(`[SHADOW] Read-only: wallet $${this.state.balance.toFixed(2)}, ${openOrders.length} open order(s) on the account - orders are paper-filled`);
+
+    const openTrades = getOpenTrades();
+    for (const trade of openTrades) {
+      this.state.positions.set(trade.token_id, this.positionFromTrade(trade, trade.shares));
+    }
+    const invested = openTrades.reduce((sum, t) => sum + t.cost_basis, 0);
+    this.state.balance = Math.max(0, this.state.balance - invested);
+    if (this.venue instanceof PaperVenue) {
+      this.venue.setBalance(this.state.balance);
+    }
+    if (openTrades.length > 0) {
+      this.log(`[SHADOW] Loaded ${openTrades.length} open shadow position(s)`);
+    }
+  }
+
+  /**
+   * Rebuild positions from OPEN trades, checked against exchange balances and open orders
+   * Safe fixes are applied immediately; the rest wait for the operator in the UI
+   */
+  private async reconcileOnStartup(): Promise<void> {
+    const openTrades = getOpenTrades();
+    const knownTokens = this.getKnownTokens();
+    const openOrders = (await this.trader.getOpenOrders())
+      .map(parseOpenOrder)
+      .filter((order): order is OpenOrderSummary => order !== null);
+
+    // Balances for DB trades, current market tokens (orphans) and open order tokens
+    const tokenIds = new Set([
+      ...openTrades.map(t => t.token_id),
+      ...knownTokens.map(t => t.tokenId),
+      ...openOrders.map(o => o.tokenId)
+    ]);
+    const balances = new Map<string, number | null>();
+    for (const tokenId of tokenIds) {
+      // Retry up to 3 times to distinguish API errors from actual 0 balance
+      let balance: number | null = null;
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        balance = await this.trader.getPositionBalance(tokenId);
+        if (balance !== null) break;
+        this.log(`Position check failed (attempt ${attempt}/3), retrying...`);
+        await sleep(this.scheduler, 1000);
+      }
+      balances.set(tokenId, balance);
+    }
+
+    const issues = reconcile(openTrades, knownTokens, { balances, openOrders });
+    const awaitingClose = new Set(issues.filter(i => i.fix.type === "CLOSE_TRADE").map(i => i.tradeId));
+
+    for (const trade of openTrades) {
+      if (awaitingClose.has(trade.id)) continue; // No shares to manage
+      const shares = balances.get(trade.token_id) ?? trade.shares;
+      this.state.positions.set(trade.token_id, this.positionFromTrade(trade, shares));
+      this.log(`Loaded position: ${trade.side} with ${shares.toFixed(2)} shares`);
+    }
+
+    if (issues.length === 0) {
+      this.log(`[RECONCILE] ${openTrades.length} open trade(s) match the exchange, no stray orders`);
+      return;
+    }
+
+    for (const issue of issues) {
+      const context = { marketSlug: issue.marketSlug ?? undefined, tokenId: issue.tokenId, tradeId: issue.tradeId ?? undefined };
+      if (issue.needsOperator) {
+        this.reconcileIssues.push(issue);
+        this.log(`[RECONCILE] Needs operator: ${issue.description} ([a] apply / [d] dismiss)`, context);
+        continue;
+      }
+      try {
+        const outcome = await this.applyReconcileFix(issue);
+        this.log(`[RECONCILE] Auto-fixed: ${issue.description} -> ${outcome}`, context);
+      } catch (err) {
+        this.reconcileIssues.push({ ...issue, needsOperator: true });
+        this.log(`[RECONCILE] Auto-fix failed: ${issue.description}: ${err instanceof Error ? err.message : err}`, context);
+      }
+    }
+  }
+
+  /**
+   * Outcome tokens of the current markets (for detecting positions with no DB trade)
+   */
+  private getKnownTokens(): KnownToken[] {
+    const tokens: KnownToken[] = [];
+    for (const market of this.state.markets) {
+      if (market.clobTokenIds.length < 2) continue;
+      const [upTokenId, downTokenId] = market.clobTokenIds;
+      tokens.push({ tokenId: upTokenId, marketSlug: market.slug, side: "UP", marketEndDate: market.endDate });
+      tokens.push({ tokenId: downTokenId, marketSlug: market.slug, side: "DOWN", marketEndDate: market.endDate });
+    }
+    return tokens;
+  }
+
+  /**
+   * Apply a reconciliation fix; returns what was done (throws if it could not be applied)
+   */
+  private async applyReconcileFix(issue: ReconcileIssue): Promise<string> {
+    const { fix } = issue;
+    switch (fix.type) {
+      case "KEEP":
+        return "kept DB value";
+
+      case "SET_SHARES": {
+        updateTradeShares(issue.tradeId!, fix.shares);
+        const position = this.state.positions.get(issue.tokenId);
+        if (position) position.shares = fix.shares;
+        return `shares set to ${fix.shares.toFixed(2)}`;
+      }
+
+      case "CLOSE_TRADE": {
+        const trade = getTradeById(issue.tradeId!);
+        if (!trade || trade.status !== "OPEN") return "trade already closed";
+        // Exit price: resolution if known, else the current bid, else flat at the entry price
+        const winner = await this.resolveMarketWinner(trade.market_slug);
+        let price = trade.entry_price;
+        let basis = "entry price, no bid";
+        if (winner) {
+          price = trade.side === winner ? 1.00 : 0.00;
+          basis = `${winner} won`;
+        } else {
+          const quote = await this.venue.getQuote(trade.token_id);
+          if (quote && quote.bid > 0) {
+            price = quote.bid;
+            basis = "current bid";
+          }
+        }
+        closeTrade(trade.id, price, "RESOLVED");
+        this.state.positions.delete(trade.token_id);
+        return `closed at $${price.toFixed(2)} (${basis})`;
+      }
+
+      case "IMPORT_POSITION": {
+        // Cost is unknown - mark the entry at the current bid (ask if there is no bid)
+        const quote = await this.venue.getQuote(issue.tokenId);
+        const price = quote && quote.bid > 0 ? quote.bid : quote && quote.ask < 1 ? quote.ask : 0.5;
+        const { token, shares } = fix;
+        const tradeId = insertTrade({
+          market_slug: token.marketSlug,
+          token_id: token.tokenId,
+          side: token.side,
+          entry_price: price,
+          shares,
+          cost_basis: shares * price,
+          created_at: new Date(this.clock.now()).toISOString(),
+          market_end_date: new Date(token.marketEndDate).toISOString()
+        });
+        const trade = getTradeById(tradeId);
+        if (trade) {
+          this.state.positions.set(token.tokenId, this.positionFromTrade(trade, shares));
+          if (this.priceStream.isConnected()) {
+            this.priceStream.subscribe([token.tokenId]);
+          }
+        }
+        return `imported as trade #${tradeId} at $${price.toFixed(2)}`;
+      }
+
+      case "CANCEL_ORDER": {
+        const cancelled = await this.venue.cancel(fix.orderId);
+        if (!cancelled) throw new Error("cancel failed");
+        return "order cancelled";
+      }
+    }
+  }
+
+  /**
+   * Connect the BTC spot feed (only when spot.enabled)
+   * Entries with spot filters are blocked while the feed is down
+   */
+  private async initSpotFeed(): Promise<void> {
+    const spot = this.configManager.getSpot();
+    if (!spot.enabled) return;
+
+    this.spotFeed.onConnectionChange((connected) => {
+      this.log(connected ? "[SPOT] Feed reconnected" : "[SPOT] Feed disconnected, will reconnect...");
+    });
+
+    try {
+      await this.spotFeed.connect();
+      this.log(`[SPOT] Connected to ${spot.symbol.toUpperCase()} feed`);
+    } catch (err) {
+      this.log(`[SPOT] Feed connection failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Spot distance filters from the active mode (no-op when both are disabled)
+   */
+  private passesSpotFilter(marketSlug: string, side: "UP" | "DOWN", marketEndDate: Date): boolean {
+    const { minSpotDistanceUsd, minSpotDistanceSigma } = this.getActiveConfig();
+    const decision = checkSpotDistance(
+      this.spotFeed,
+      { minSpotDistanceUsd, minSpotDistanceSigma },
+      side,
+      this.calendar.periodStart(marketEndDate.getTime() - 1),
+      marketEndDate.getTime(),
+      this.clock.now(),
+      this.configManager.getSpot().maxAgeMs
+    );
+    if (!decision.ok) {
+      // Spot moves constantly, so only log the first block per market side until it passes
+      const key = `${marketSlug}:${side}`;
+      if (!this.spotBlocks.has(key)) {
+        this.spotBlocks.add(key);
+        this.log(`[SPOT] Skipping ${side} entry: ${decision.reason}`, { marketSlug });
+      }
+      return false;
+    }
+    this.spotBlocks.delete(`${marketSlug}:${side}`);
+    return true;
+  }
+
+  /**
+   * Book depth filters from the active mode on a token's WebSocket book (no-op when all are disabled)
+   */
+  private passesDepthFilter(marketSlug: string, side: "UP" | "DOWN", tokenId: string): boolean {
+    const params = this.getDepthFilter();
+    if (depthFiltersDisabled(params)) return true;
+    const depth = this.priceStream.getDepth(tokenId, params.depthBand, this.getActiveConfig().maxEntryPrice, this.getWsPriceMaxAgeMs());
+    const decision = checkDepth(depth, params);
+    if (!decision.ok) {
+      // Log the first block per market side until it passes (books change on every update)
+      const key = `${marketSlug}:${side}`;
+      if (!this.depthBlocks.has(key)) {
+        this.depthBlocks.add(key);
+        this.log(`[DEPTH] Skipping ${side} entry: ${decision.reason}`, { marketSlug, tokenId });
+      }
+      return false;
+    }
+    this.depthBlocks.delete(`${marketSlug}:${side}`);
+    return true;
+  }
+
+  /**
+   * Trade tape filters from the active mode on a token's recent trades (no-op when all are disabled)
+   */
+  private passesTapeFilter(marketSlug: string, side: "UP" | "DOWN", tokenId: string): boolean {
+    const params = this.getTapeFilter();
+    if (tapeFiltersDisabled(params)) return true;
+    const decision = checkTape(this.priceStream.getTradeStats(tokenId, params.tapeWindowMs), params);
+    if (!decision.ok) {
+      // Log the first block per market side until it passes
+      const key = `${marketSlug}:${side}`;
+      if (!this.tapeBlocks.has(key)) {
+        this.tapeBlocks.add(key);
+        this.log(`[TAPE] Skipping ${side} entry: ${decision.reason}`, { marketSlug, tokenId });
+      }
+      return false;
+    }
+    this.tapeBlocks.delete(`${marketSlug}:${side}`);
+    return true;
   }
 
   private async initUserStream(): Promise<void> {
@@ -383,7 +1005,7 @@ export class Bot {
       return;
     }
 
-    this.userStream = new UserStream();
+    this.userStream = new UserStream(this.configManager.getEndpoints().wsUrl, this.clock);
     this.userStream.onConnectionChange((connected) => {
       this.state.userWsConnected = connected;
       if (connected) {
@@ -413,7 +1035,7 @@ export class Bot {
   }
 
   private log(message: string, context?: { marketSlug?: string; tokenId?: string; tradeId?: number }): void {
-    const timestamp = new Date().toLocaleTimeString();
+    const timestamp = new Date(this.clock.now()).toLocaleTimeString();
     const formatted = `[${timestamp}] ${message}`;
     this.state.logs.push(formatted);
     if (this.state.logs.length > 100) {
@@ -460,10 +1082,10 @@ export class Bot {
     // Extract market slug from message if not provided in context
     let marketSlug = context?.marketSlug;
     if (!marketSlug) {
-      // Try to extract market slug patterns like "bitcoin-up-or-down-*" or "btc-updown-1h-*"
-      const marketMatch = message.match(/(bitcoin-up-or-down-[\w-]+|btc-updown-1h-\d+)/);
+      // Try to extract the family's slugs (or legacy "btc-updown-1h-*" ones)
+      const marketMatch = message.match(marketSlugPattern(this.family, false)) ?? message.match(/btc-updown-1h-\d+/);
       if (marketMatch) {
-        marketSlug = marketMatch[1];
+        marketSlug = marketMatch[0];
       }
     }
 
@@ -494,6 +1116,67 @@ export class Bot {
     return Math.max(0, this.state.balance - this.state.reservedBalance);
   }
 
+  /**
+   * Log prefix for venue-specific messages ("[PAPER] " for simulated trading)
+   */
+  private venueTag(): string {
+    if (this.state.shadowMode) return "[SHADOW] ";
+    return this.venue.simulated ? "[PAPER] " : "";
+  }
+
+  /**
+   * Refresh the trading balance from the venue and apply the compound limit
+   */
+  private async syncBalance(): Promise<void> {
+    const venueBalance = await this.venue.getBalance();
+    if (venueBalance === null) return;
+
+    if (this.venue.simulated) {
+      // Paper profit taken by the compound limit is set aside inside the paper account
+      this.state.balance = venueBalance - this.state.savedProfit;
+      this.checkCompoundLimit();
+    } else {
+      this.applyCompoundLimit(venueBalance);
+    }
+  }
+
+  /**
+   * Current bid/ask for a token: WebSocket price if fresh, otherwise the venue's quote
+   */
+  private async getCurrentPrice(
+    tokenId: string,
+    requireWsConnected: boolean
+  ): Promise<{ bid: number; ask: number; source: "WS" | "REST"; updatedAt?: number } | null> {
+    const wsPrice = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
+    if (wsPrice && (!requireWsConnected || this.state.wsConnected)) {
+      return { bid: wsPrice.bestBid, ask: wsPrice.bestAsk, source: "WS", updatedAt: wsPrice.timestamp };
+    }
+    const quote = await this.venue.getQuote(tokenId);
+    return quote ? { ...quote, source: "REST" } : null;
+  }
+
+  /**
+   * Winning side of a resolved market: WebSocket resolution first, then the API
+   */
+  private async resolveMarketWinner(marketSlug: string): Promise<"UP" | "DOWN" | null> {
+    const winningTokenId = this.state.marketResolutions.get(marketSlug);
+    if (winningTokenId) {
+      // Determine if UP or DOWN won by matching token ID
+      const market = this.state.markets.find(m => m.slug === marketSlug);
+      if (market && market.clobTokenIds.length >= 2) {
+        const winner = winningTokenId === market.clobTokenIds[0] ? "UP" : "DOWN";
+        this.log(`[WS] Got resolution from WebSocket: ${winner} won`);
+        this.recorder.setOutcome(marketSlug, winner);
+        return winner;
+      }
+    }
+    const winner = await this.marketSource.fetchResolution(marketSlug);
+    if (winner) {
+      this.recorder.setOutcome(marketSlug, winner);
+    }
+    return winner;
+  }
+
   private handleMarketEvent(event: MarketEvent): void {
     let slug = event.slug;
     if (!slug && event.marketId) {
@@ -503,8 +1186,9 @@ export class Bot {
       }
     }
     if (!slug) return;
-    // Match actual API format: "bitcoin-up-or-down-{month}-{day}-{hour}{am/pm}-et"
-    if (!slug.startsWith("bitcoin-up-or-down-")) return;
+    // Only markets of the traded family
+    const period = this.calendar.parse(slug, this.clock.now());
+    if (!period) return;
 
     const eventType = event.eventType.toLowerCase();
     if (eventType === "market_resolved" || event.winningAssetId) {
@@ -514,6 +1198,7 @@ export class Bot {
         // Store winning asset ID for position resolution
         if (event.winningAssetId) {
           this.state.marketResolutions.set(slug, event.winningAssetId);
+          this.recorder.setOutcome(slug, event.winningAssetId === match.clobTokenIds[0] ? "UP" : "DOWN");
           this.log(`[WS] Market resolved: ${slug} (winner: ${event.winningAssetId.slice(0, 8)}...)`);
         } else {
           this.log(`[WS] Market resolved: ${slug}`);
@@ -526,46 +1211,31 @@ export class Bot {
       if (!event.assetsIds || event.assetsIds.length < 2) return;
       if (this.state.markets.some(m => m.slug === slug)) return;
 
-      // Parse BTC hourly market slug format: bitcoin-up-or-down-{month}-{day}-{hour}{am/pm}-et
-      const slugMatch = slug.match(/bitcoin-up-or-down-(\w+)-(\d+)-(\d+)(am|pm)-et/);
-      if (!slugMatch) return;
-
-      // Parse end date from slug components
-      const monthNames = ["january", "february", "march", "april", "may", "june",
-                         "july", "august", "september", "october", "november", "december"];
-      const monthStr = slugMatch[1].toLowerCase();
-      const monthIndex = monthNames.indexOf(monthStr);
-      const day = parseInt(slugMatch[2], 10);
-      let hour = parseInt(slugMatch[3], 10);
-      const ampm = slugMatch[4].toLowerCase();
-
-      // Convert to 24-hour format
-      if (ampm === "pm" && hour !== 12) hour += 12;
-      if (ampm === "am" && hour === 12) hour = 0;
-
-      // Market ends 1 hour after the start hour (ET timezone)
-      const now = new Date();
-      const year = now.getFullYear();
-      // Create date in ET (approximate - market start time + 1 hour)
-      const marketEndHour = hour + 1;
-      const endDate = new Date(Date.UTC(year, monthIndex >= 0 ? monthIndex : 0, day, marketEndHour + 5, 0, 0)).toISOString(); // +5 for ET to UTC approximation
-      const outcomes = event.outcomes && event.outcomes.length >= 2 ? event.outcomes : ["Up", "Down"];
+      // Outcomes in the family's [up, down] order (assumed if the event doesn't list them)
+      let outcomes = [...this.family.outcomes];
+      let clobTokenIds = event.assetsIds.slice(0, 2);
+      if (event.outcomes && event.outcomes.length >= 2) {
+        const { up, down } = outcomeIndexes(this.family, event.outcomes);
+        if (up < 0 || down < 0) return;
+        outcomes = [event.outcomes[up], event.outcomes[down]];
+        clobTokenIds = [event.assetsIds[up], event.assetsIds[down]];
+      }
 
       const market: Market = {
         id: event.id || event.marketId || slug,
         slug,
         question: event.question || slug,
-        endDate,
+        endDate: period.end.toISOString(),
         outcomes,
         outcomePrices: [],
-        clobTokenIds: event.assetsIds,
+        clobTokenIds,
         active: true,
         closed: false
       };
 
       this.state.markets.push(market);
       this.state.markets.sort((a, b) => new Date(a.endDate).getTime() - new Date(b.endDate).getTime());
-      this.log(`[WS] New BTC 1h market: ${slug}`);
+      this.log(`[WS] New ${this.family.name} market: ${slug}`);
       this.subscribeToMarkets([market]).catch((err) => {
         this.log(`Error subscribing to new market: ${err instanceof Error ? err.message : err}`);
       });
@@ -605,7 +1275,7 @@ export class Bot {
       this.cleanupOldLimitFills();
     }
 
-    this.wsLimitFills.set(orderId, { filledShares: totalShares, avgPrice, timestamp: Date.now() });
+    this.wsLimitFills.set(orderId, { filledShares: totalShares, avgPrice, timestamp: this.clock.now() });
 
     if (totalShares >= position.shares * 0.99) {
       this.wsLimitFills.delete(orderId);
@@ -619,7 +1289,7 @@ export class Bot {
    * Clean up old limit fill entries (older than 1 hour)
    */
   private cleanupOldLimitFills(): void {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
+    const oneHourAgo = this.clock.now() - 60 * 60 * 1000;
     for (const [orderId, fill] of this.wsLimitFills) {
       if (fill.timestamp < oneHourAgo) {
         this.wsLimitFills.delete(orderId);
@@ -646,23 +1316,23 @@ export class Bot {
         tokenId: current.tokenId,
         tradeId: current.tradeId
       });
-      const newBalance = await this.trader.getBalance();
-      if (newBalance !== null) {
-        this.state.balance = newBalance;
-      }
+      await this.syncBalance();
     } finally {
       this.pendingLimitFills.delete(position.tokenId);
     }
   }
 
   private handleUserTrade(event: UserTradeEvent): void {
-    if (this.config.paperTrading) return;
+    if (this.config.paperTrading || this.state.shadowMode) return;
 
+    // Orders table: a single match is a lower bound on the order's cumulative fill
+    // (order events carry the exact size_matched)
     if (Array.isArray(event.maker_orders)) {
       for (const maker of event.maker_orders) {
         const orderId = maker.order_id;
         const matchedShares = parseFloat(maker.matched_amount || "0");
         const price = parseFloat(maker.price || event.price || "0");
+        recordOrderFill(orderId || "", matchedShares, price);
         this.recordWsLimitFill(orderId || "", matchedShares, price);
       }
     }
@@ -670,6 +1340,7 @@ export class Bot {
     if (event.taker_order_id) {
       const matchedShares = parseFloat(event.size || "0");
       const price = parseFloat(event.price || "0");
+      recordOrderFill(event.taker_order_id, matchedShares, price);
       this.recordWsLimitFill(event.taker_order_id, matchedShares, price);
     }
   }
@@ -680,12 +1351,25 @@ export class Bot {
     const orderId = event.id;
     if (!orderId) return;
 
-    const position = this.findPositionByLimitOrderId(orderId);
-    if (!position) return;
-
     const sizeMatched = parseFloat(event.size_matched || "0");
     const originalSize = parseFloat(event.original_size || "0");
     const status = (event.status || "").toUpperCase();
+
+    // Shadow mode places no orders, so account activity is someone else's - report it only
+    if (this.state.shadowMode) {
+      this.log(`[SHADOW] Account order ${orderId.slice(0, 10)}... ${status || (event.type || "").toUpperCase()}: ${sizeMatched.toFixed(2)}/${originalSize.toFixed(2)} @ $${parseFloat(event.price || "0").toFixed(2)}`);
+      return;
+    }
+
+    // Orders table: cumulative fill and cancellations
+    recordOrderFill(orderId, sizeMatched, parseFloat(event.price || "0"));
+    if ((event.type || "").toUpperCase() === "CANCELLATION" || status === "CANCELED" || status === "CANCELLED") {
+      recordOrderCancelled(orderId);
+    }
+
+    const position = this.findPositionByLimitOrderId(orderId);
+    if (!position) return;
+
     const filled = status === "MATCHED" || (originalSize > 0 && sizeMatched >= originalSize);
 
     if (filled) {
@@ -755,6 +1439,9 @@ export class Bot {
   }
 
   private async subscribeToMarkets(markets: Market[]): Promise<void> {
+    if (this.recorder.isRunning()) {
+      this.recorder.trackMarkets(markets, this.calendar);
+    }
     const tokenIds: string[] = [];
     const marketIds = new Set<string>();
     for (const market of markets) {
@@ -797,13 +1484,19 @@ export class Bot {
     if (!this.state.wsConnected) return undefined;
 
     const overrides: PriceOverride = {};
+    const depthFilter = this.getDepthFilter();
+    const withDepth = !depthFiltersDisabled(depthFilter);
+    const maxEntryPrice = this.getActiveConfig().maxEntryPrice;
     for (const market of this.state.markets) {
       for (const tokenId of market.clobTokenIds) {
         const wsPrice = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
         if (wsPrice) {
           overrides[tokenId] = {
             bestBid: wsPrice.bestBid,
-            bestAsk: wsPrice.bestAsk
+            bestAsk: wsPrice.bestAsk,
+            depth: withDepth
+              ? this.priceStream.getDepth(tokenId, depthFilter.depthBand, maxEntryPrice, this.getWsPriceMaxAgeMs())
+              : undefined
           };
         }
       }
@@ -815,40 +1508,95 @@ export class Bot {
     if (this.state.running) return;
     this.state.running = true;
     this.log("Bot started");
+    this.log(`Re-entry policy: ${describeReentry(this.configManager.getReentry())}`);
+    this.log(`Risk guards: ${describeRiskGuards(this.configManager.getRiskGuards())}`);
+    this.updateRecorder();
+    this.updateFeedHealth();
 
     // Run immediately
     await this.tick();
 
     // Then run on interval
-    this.interval = setInterval(() => this.tick(), this.config.pollIntervalMs);
+    this.interval = this.scheduler.setInterval(() => this.tick(), this.config.pollIntervalMs);
   }
 
   stop(): void {
     if (!this.state.running) return;
     this.state.running = false;
     if (this.interval) {
-      clearInterval(this.interval);
+      this.scheduler.clear(this.interval);
       this.interval = null;
     }
+    this.shadow?.stop();
+    this.recorder.stop();
+    this.feedHealth.stop();
     this.log("Bot stopped");
   }
 
+  /**
+   * Stop for good: also close the user and spot feeds (a stopped bot can be started again, a
+   * shut down one cannot)
+   */
+  shutdown(): void {
+    this.stop();
+    this.userStream?.close();
+    this.userStream = null;
+    this.spotFeed.close();
+  }
+
+  /**
+   * Start, restart or stop the tick recorder to match recorder.enabled
+   */
+  private updateRecorder(): void {
+    const { enabled, flushIntervalMs } = this.configManager.getRecorder();
+    if (!enabled) {
+      if (this.recorder.isRunning()) {
+        this.recorder.stop();
+        this.log(`[RECORDER] Stopped (${this.recorder.getRecordedCount()} ticks, ${this.recorder.getRecordedTradeCount()} trades recorded)`);
+      }
+      return;
+    }
+    const wasRunning = this.recorder.isRunning();
+    this.recorder.start(flushIntervalMs);
+    this.recorder.trackMarkets(this.state.markets, this.calendar);
+    if (!wasRunning) {
+      this.log("[RECORDER] Recording live ticks and trades to backtest.db");
+    }
+  }
+
+  /**
+   * Start, restart or stop the feed watchdog to match feedHealth.enabled
+   */
+  private updateFeedHealth(): void {
+    const config = this.configManager.getFeedHealth();
+    if (!config.enabled) {
+      if (this.feedHealth.isRunning()) {
+        this.feedHealth.stop();
+        this.log("[FEED] Watchdog stopped");
+      }
+      return;
+    }
+    const wasRunning = this.feedHealth.isRunning();
+    this.feedHealth.start(config);
+    if (!wasRunning) {
+      this.log(`[FEED] Watchdog: tokens stale after ${config.tokenStaleMs / 1000}s, stream stalled after ${config.streamStallMs / 1000}s`);
+    }
+  }
+
   private async tick(): Promise<void> {
     try {
-      this.state.lastScan = new Date();
+      this.state.lastScan = new Date(this.clock.now());
 
-      // Only trade if trading is enabled
-      if (!this.state.tradingEnabled) {
+      // Only trade if trading is enabled (a risk halt still manages open positions)
+      if (!this.canManagePositions()) {
         return;
       }
 
-      // In paper mode, balance is managed internally
-      if (!this.config.paperTrading) {
-        const walletBalance = await this.trader.getBalance();
-        if (walletBalance !== null) {
-          this.applyCompoundLimit(walletBalance);
-        }
-      }
+      // Refresh balance from the venue (applies the compound limit)
+      await this.syncBalance();
+
+      // Trip or lift circuit breakers
+      this.updateRiskGuards();
 
       // Check for limit order fills (profit taking)
       await this.checkLimitOrderFills();
@@ -859,8 +1607,8 @@ export class Bot {
       // Check stop-losses on open positions
       await this.checkStopLosses();
 
-      // Only look for new trades if we have balance
-      if (this.state.balance > 1) {
+      // Only look for new trades if entries are enabled and we have balance
+      if (this.state.tradingEnabled && this.state.balance > 1) {
         await this.scanForEntries();
       }
     } catch (err) {
@@ -869,42 +1617,22 @@ export class Bot {
   }
 
   private async checkLimitOrderFills(): Promise<void> {
+    const profitTarget = this.getProfitTarget();
+
     for (const [tokenId, position] of this.state.positions) {
       try {
-        const profitTarget = this.getProfitTarget();
-        if (this.config.paperTrading) {
-          // Paper trading: check if price hit profit target
-          const wsPrice = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
-          if (wsPrice && wsPrice.bestBid >= profitTarget) {
-            await this.executeTakeProfit(tokenId, position, wsPrice.bestBid, "WS");
-          }
-        } else {
-          // Real trading: monitor price for profit target (no limit orders)
-
-          // Skip if position has no shares (invalid state)
-          if (!position.shares || position.shares < 0.01) {
-            this.log(`Removing invalid position with 0 shares`);
-            closeTrade(position.tradeId, 0, "RESOLVED");
-            this.state.positions.delete(tokenId);
-            continue;
-          }
-
-          // Check if price hit profit target - market sell immediately
-          const wsPrice = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
-          let currentBid: number | null = null;
-          let source: "WS" | "REST" = "WS";
-
-          if (wsPrice) {
-            currentBid = wsPrice.bestBid;
-          } else {
-            const { bid } = await this.trader.getPrice(tokenId);
-            currentBid = bid;
-            source = "REST";
-          }
+        // Skip if position has no shares (invalid state)
+        if (!position.shares || position.shares < 0.01) {
+          this.log(`Removing invalid position with 0 shares`);
+          closeTrade(position.tradeId, 0, "RESOLVED");
+          this.state.positions.delete(tokenId);
+          continue;
+        }
 
-          if (currentBid >= profitTarget) {
-            await this.executeTakeProfit(tokenId, position, currentBid, source);
-          }
+        // Check if price hit profit target - sell immediately
+        const quote = await this.getCurrentPrice(tokenId, false);
+        if (quote && quote.bid >= profitTarget) {
+          await this.executeTakeProfit(tokenId, position, quote.bid, quote.source);
         }
       } catch (err) {
         this.log(`Error checking limit order: ${err}`);
@@ -913,134 +1641,76 @@ export class Bot {
   }
 
   private async checkExpiredPositions(): Promise<void> {
-    const now = new Date();
+    const now = new Date(this.clock.now());
 
     for (const [tokenId, position] of this.state.positions) {
       // Check if market has ended
       if (position.marketEndDate.getTime() > 0 && now >= position.marketEndDate) {
-        this.log(`Market expired for ${position.side} position`, {
+        this.log(`${this.venueTag()}Market expired for ${position.side} position`, {
           marketSlug: position.marketSlug,
           tokenId,
           tradeId: position.tradeId
         });
 
-        if (this.config.paperTrading) {
-          // Paper trading: check WebSocket resolution first, then fall back to API
-          let winner: "UP" | "DOWN" | null = null;
-
-          // Check if we have resolution from WebSocket
-          const winningTokenId = this.state.marketResolutions.get(position.marketSlug);
-          if (winningTokenId) {
-            // Determine if UP or DOWN won by matching token ID
-            const market = this.state.markets.find(m => m.slug === position.marketSlug);
-            if (market && market.clobTokenIds.length >= 2) {
-              winner = winningTokenId === market.clobTokenIds[0] ? "UP" : "DOWN";
-              this.log(`[WS] Got resolution from WebSocket: ${winner} won`);
-            }
-          }
-
-          // Fall back to API if no WebSocket resolution
-          if (!winner) {
-            winner = await fetchMarketResolution(position.marketSlug);
-          }
-
-          if (!winner) {
-            this.log(`[PAPER] Waiting for market resolution...`);
-            continue;
-          }
-
-          // We won if our side matches the winner
-          const exitPrice = position.side === winner ? 1.00 : 0.00;
-          this.log(`[PAPER] Market resolved: ${winner} won - we ${position.side === winner ? "won" : "lost"}`);
-
-          const proceeds = exitPrice * position.shares;
-          const pnl = (exitPrice - position.entryPrice) * position.shares;
-
-          closeTrade(position.tradeId, exitPrice, "RESOLVED");
-          this.state.positions.delete(tokenId);
-          this.state.balance += proceeds;
-
-          this.log(`[PAPER] Market resolved. Sold ${position.shares.toFixed(2)} shares @ $${exitPrice.toFixed(2)}. PnL: $${pnl.toFixed(2)}`, {
-            marketSlug: position.marketSlug,
-            tokenId,
-            tradeId: position.tradeId
-          });
-          this.log(`[PAPER] New balance: $${this.state.balance.toFixed(2)}`);
-          this.checkCompoundLimit();
-        } else {
-          // Real trading: try market sell at actual price, then cancel limit order
-          try {
-            // Market sell at actual bid price
-            const result = await this.trader.marketSell(tokenId, position.shares);
-            if (result) {
-              closeTrade(position.tradeId, result.price, "RESOLVED");
-              this.state.positions.delete(tokenId);
-              const realPnl = (result.price - position.entryPrice) * position.shares;
-
-              this.log(`Market resolved @ $${result.price.toFixed(2)}. PnL: $${realPnl.toFixed(2)}`, {
-                marketSlug: position.marketSlug,
-                tokenId,
-                tradeId: position.tradeId
-              });
-
-              // Sync balance after exit
-              const newBalance = await this.trader.getBalance();
-              if (newBalance !== null) {
-                this.state.balance = newBalance;
-              }
-            } else {
-              // Market sell failed - keep limit order as fallback
-              const lastError = this.trader.getLastMarketSellError();
-              const detail = lastError ? `: ${lastError}` : "";
-              this.log(`Market sell failed for expired position${detail}, keeping limit order`, {
-                marketSlug: position.marketSlug,
-                tokenId,
-                tradeId: position.tradeId
-              });
-            }
-          } catch (err) {
-            this.log(`Error selling expired position: ${err}`);
-          }
+        try {
+          await this.closePosition(position, { price: 0, bestBid: 0, reason: "EXPIRED" }, "RESOLVED", "[EXPIRED]");
+        } catch (err) {
+          this.log(`Error selling expired position: ${err}`);
         }
       }
     }
   }
 
   /**
-   * Real-time stop-loss check triggered by WebSocket price updates
+   * Real-time exit check (stop-loss and profit target) triggered by WebSocket price updates
    * This fires IMMEDIATELY when prices change, no polling delay
+   * (also fed REST quotes by the feed watchdog while a position's token is stale)
    */
-  private async checkStopLossRealtime(tokenId: string, currentBid: number): Promise<void> {
+  private async checkExitRealtime(
+    tokenId: string,
+    currentBid: number,
+    currentAsk: number,
+    source: "WS" | "REST" = "WS",
+    updatedAt?: number
+  ): Promise<void> {
     // Only check if we have a position for this token and bot is running
-    if (!this.state.running || !this.state.tradingEnabled) return;
+    if (!this.state.running || !this.canManagePositions()) return;
 
     const position = this.state.positions.get(tokenId);
     if (!position) return;
 
-    const activeConfig = this.getActiveConfig();
+    const strategy = this.getStrategy();
+    const snapshot = this.positionSnapshot(position, currentBid, currentAsk);
+    this.trackPosition(strategy, position, snapshot, updatedAt);
 
-    // Check if price is below stop-loss threshold - execute immediately
-    if (currentBid <= activeConfig.stopLoss) {
+    const decision = strategy.evaluateExit(position, snapshot);
+    if (decision.action === "STOP_LOSS") {
       await this.executeStopLoss(tokenId, position, currentBid);
+    } else if (decision.action === "TAKE_PROFIT") {
+      await this.executeTakeProfit(tokenId, position, currentBid, source);
     }
   }
 
   /**
-   * Real-time profit target check triggered by WebSocket price updates
-   * This fires IMMEDIATELY when prices change, no polling delay
+   * Update strategy tracking (high-water mark, stop confirmation) on a position
+   * Logs when a stop breach starts waiting for confirmation or clears before it
+   * `updatedAt` is the WebSocket update's timestamp, remembered so polls don't count it again
    */
-  private async checkProfitTargetRealtime(tokenId: string, currentBid: number): Promise<void> {
-    // Only check if we have a position for this token and bot is running
-    if (!this.state.running || !this.state.tradingEnabled) return;
-
-    const position = this.state.positions.get(tokenId);
-    if (!position) return;
+  private trackPosition(strategy: Strategy, position: Position, snapshot: MarketSnapshot, updatedAt?: number): void {
+    const wasBreached = position.stopBreachedAt !== null;
+    Object.assign(position, strategy.trackPosition(position, snapshot));
+    if (updatedAt !== undefined) {
+      position.lastTickAt = Math.max(position.lastTickAt, updatedAt);
+    }
 
-    const profitTarget = this.getProfitTarget();
+    const { stopLossDelayMs, stopLossConfirmTicks } = strategy.params;
+    if (stopLossDelayMs <= 0 && stopLossConfirmTicks <= 0) return;
 
-    // Check if price is at or above profit target - execute immediately
-    if (currentBid >= profitTarget) {
-      await this.executeTakeProfit(tokenId, position, currentBid, "WS");
+    const context = { marketSlug: position.marketSlug, tokenId: position.tokenId, tradeId: position.tradeId };
+    if (!wasBreached && position.stopBreachedAt !== null) {
+      this.log(`[STOP-LOSS] Bid $${snapshot.bestBid.toFixed(2)} at stop $${strategy.stopPrice(position).toFixed(2)} - confirming (${stopLossDelayMs}ms / ${stopLossConfirmTicks} ticks)`, context);
+    } else if (wasBreached && position.stopBreachedAt === null) {
+      this.log(`[STOP-LOSS] Bid recovered to $${snapshot.bestBid.toFixed(2)} before confirmation - holding`, context);
     }
   }
 
@@ -1070,64 +1740,20 @@ export class Bot {
         tradeId: position.tradeId
       });
 
-      if (this.config.paperTrading) {
-        // Paper trading: simulate sell at bid price
-        const exitPrice = currentBid;
-        const proceeds = exitPrice * position.shares;
-        closeTrade(position.tradeId, exitPrice, "STOPPED");
-        this.state.positions.delete(tokenId);
-        this.state.balance += proceeds;
-        const pnl = (exitPrice - position.entryPrice) * position.shares;
-        this.log(`[PAPER] Sold ${position.shares.toFixed(2)} shares @ $${exitPrice.toFixed(2)}. PnL: $${pnl.toFixed(2)}`, {
-          marketSlug: position.marketSlug,
-          tokenId: position.tokenId,
-          tradeId: position.tradeId
-        });
-
-        this.checkCompoundLimit();
-      } else {
-        // Real trading: market sell immediately (no limit orders to worry about)
-        try {
-          // SECURITY FIX: Skip stop-loss on empty order book (bid = 0)
-          // This prevents triggering on temporary book clearing
-          if (currentBid === 0) {
-            this.log(`[STOP-LOSS] Skipping: order book empty (bid = 0)`);
-            return;
-          }
-
-          const result = await this.trader.marketSell(tokenId, position.shares, currentBid);
-          if (result) {
-            closeTrade(position.tradeId, result.price, "STOPPED");
-            this.state.positions.delete(tokenId);
-            const pnl = (result.price - position.entryPrice) * position.shares;
-            this.log(`[STOP-LOSS] Sold ${position.shares.toFixed(2)} shares @ $${result.price.toFixed(2)}. PnL: $${pnl.toFixed(2)}`, {
-              marketSlug: position.marketSlug,
-              tokenId: position.tokenId,
-              tradeId: position.tradeId
-            });
-
-            // Sync balance after exit
-            const newBalance = await this.trader.getBalance();
-            if (newBalance !== null) {
-              this.state.balance = newBalance;
-            }
-          } else {
-            const lastError = this.trader.getLastMarketSellError();
-            const detail = lastError ? `: ${lastError}` : "";
-            this.log(`[STOP-LOSS] Market sell failed${detail} - will retry on next tick`, {
-              marketSlug: position.marketSlug,
-              tokenId: position.tokenId,
-              tradeId: position.tradeId
-            });
-          }
-        } catch (err) {
-          this.log(`[STOP-LOSS] Error: ${err instanceof Error ? err.message : err}`, {
-            marketSlug: position.marketSlug,
-            tokenId: position.tokenId,
-            tradeId: position.tradeId
-          });
-        }
+      // SECURITY FIX: Skip stop-loss on empty order book (bid = 0)
+      // This prevents triggering on temporary book clearing
+      if (currentBid === 0) {
+        this.log(`[STOP-LOSS] Skipping: order book empty (bid = 0)`);
+        return;
       }
+
+      await this.closePosition(position, { price: currentBid, bestBid: currentBid, reason: "STOP_LOSS" }, "STOPPED", "[STOP-LOSS]");
+    } catch (err) {
+      this.log(`[STOP-LOSS] Error: ${err instanceof Error ? err.message : err}`, {
+        marketSlug: position.marketSlug,
+        tokenId: position.tokenId,
+        tradeId: position.tradeId
+      });
     } finally {
       // MUTEX: Always release the lock
       this.state.pendingExits.delete(tokenId);
@@ -1160,58 +1786,14 @@ export class Bot {
 
     try {
       const profitTarget = this.getProfitTarget();
-
-      if (this.config.paperTrading) {
-        // Paper trading: simulate limit order fill at profit target
-        const exitPrice = profitTarget;
-        const proceeds = exitPrice * position.shares;
-        const pnl = (exitPrice - position.entryPrice) * position.shares;
-
-        closeTrade(position.tradeId, exitPrice, "RESOLVED");
-        this.state.positions.delete(tokenId);
-        this.state.balance += proceeds;
-
-        this.log(`[PAPER] Limit order filled @ $${exitPrice.toFixed(2)}! PnL: $${pnl.toFixed(2)}`, {
-          marketSlug: position.marketSlug,
-          tokenId,
-          tradeId: position.tradeId
-        });
-        this.log(`[PAPER] New balance: $${this.state.balance.toFixed(2)}`);
-        this.checkCompoundLimit();
-        return;
-      }
-
-      this.log(`[TAKE-PROFIT] (${source}) Price $${currentBid.toFixed(2)} hit target $${profitTarget.toFixed(2)} - selling`, {
+      this.log(`${this.venueTag()}[TAKE-PROFIT] (${source}) Price $${currentBid.toFixed(2)} hit target $${profitTarget.toFixed(2)} - selling`, {
         marketSlug: position.marketSlug,
         tokenId,
         tradeId: position.tradeId
       });
 
-      // Market sell at current price
-      const result = await this.trader.marketSell(tokenId, position.shares, currentBid);
-      if (result) {
-        const pnl = (result.price - position.entryPrice) * position.shares;
-        closeTrade(position.tradeId, result.price, "RESOLVED");
-        this.state.positions.delete(tokenId);
-
-        this.log(`[TAKE-PROFIT] Sold ${position.shares.toFixed(2)} shares @ $${result.price.toFixed(2)}! PnL: $${pnl.toFixed(2)}`, {
-          marketSlug: position.marketSlug,
-          tokenId,
-          tradeId: position.tradeId
-        });
-        const newBalance = await this.trader.getBalance();
-        if (newBalance !== null) {
-          this.state.balance = newBalance;
-        }
-      } else {
-        const lastError = this.trader.getLastMarketSellError();
-        const detail = lastError ? `: ${lastError}` : "";
-        this.log(`[TAKE-PROFIT] Market sell failed${detail} - will retry on next tick`, {
-          marketSlug: position.marketSlug,
-          tokenId,
-          tradeId: position.tradeId
-        });
-      }
+      // Paper fills at the target (like a resting limit order); live sells at market
+      await this.closePosition(position, { price: profitTarget, bestBid: currentBid, reason: "TAKE_PROFIT" }, "RESOLVED", "[TAKE-PROFIT]");
     } catch (err) {
       this.log(`[TAKE-PROFIT] Error: ${err instanceof Error ? err.message : err}`, {
         marketSlug: position.marketSlug,
@@ -1224,26 +1806,112 @@ export class Bot {
     }
   }
 
+  /**
+   * Rest a limit bid for an entry instead of taking the ask (entry.orderType = "maker")
+   */
+  private async runMakerEntry(snapshot: MarketSnapshot, usdc: number, maxPrice: number): Promise<MakerEntryResult> {
+    const { tokenId } = snapshot;
+    const entry = this.configManager.getEntry();
+    const result = await runMakerEntry(this.venue, { tokenId, usdc, maxPrice }, entry, {
+      getQuote: () => this.getCurrentPrice(tokenId, true),
+      getTickSize: () => this.priceStream.getTickSize(tokenId),
+      stillWanted: () => {
+        const price = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
+        if (!price) return false;
+        const current = { ...snapshot, bestBid: price.bestBid, bestAsk: price.bestAsk, timestamp: this.clock.now() };
+        return this.passesEntryGate(current);
+      },
+      log: (message, context) => this.log(`${this.venueTag()}${message}`, { marketSlug: snapshot.marketSlug, ...context }),
+      clock: this.clock,
+      scheduler: this.scheduler
+    });
+    if (result.fill && result.reason !== "filled") {
+      this.log(`${this.venueTag()}[MAKER] Partial entry kept (${result.reason}): ${result.fill.shares.toFixed(2)} shares`, {
+        marketSlug: snapshot.marketSlug,
+        tokenId
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Sell a position through the venue and record the exit
+   * Returns false (position kept, retried on the next check) if the sell failed
+   */
+  private async closePosition(
+    position: Position,
+    exit: Pick<SellOrder, "price" | "bestBid" | "reason">,
+    status: "STOPPED" | "RESOLVED",
+    label: string
+  ): Promise<boolean> {
+    const context = { marketSlug: position.marketSlug, tokenId: position.tokenId, tradeId: position.tradeId };
+
+    const exitStartedAt = new Date(this.clock.now()).toISOString();
+    const fill = await this.venue.sell({
+      tokenId: position.tokenId,
+      marketSlug: position.marketSlug,
+      side: position.side,
+      shares: position.shares,
+      ...exit
+    });
+    // Attach every sell order this attempt placed (filled or not) to the trade
+    linkOrdersToTrade(position.tokenId, "SELL", position.tradeId, exitStartedAt);
+    if (!fill) {
+      const lastError = this.venue.getLastError();
+      const detail = lastError ? `: ${lastError}` : "";
+      this.log(`${this.venueTag()}${label} Sell failed${detail} - will retry on next tick`, context);
+      return false;
+    }
+
+    // Partial fill (paper book ran out of bids): keep the rest open and retry on the next check
+    if (fill.shares < position.shares - 0.01) {
+      position.shares -= fill.shares;
+      position.exitedShares += fill.shares;
+      position.exitProceeds += fill.proceeds;
+      position.exitFees += fill.fee;
+      this.log(`${this.venueTag()}${label} Partial fill: sold ${fill.shares.toFixed(2)} shares @ $${fill.price.toFixed(3)}, ${position.shares.toFixed(2)} remaining - will retry on next tick`, context);
+      await this.syncBalance();
+      return false;
+    }
+
+    // Average exit price (before fees) across any earlier partial fills
+    const totalShares = position.exitedShares + fill.shares;
+    const exitFee = position.exitFees + fill.fee;
+    const exitPrice = totalShares > 0 ? (position.exitProceeds + fill.proceeds + exitFee) / totalShares : fill.price;
+    closeTrade(position.tradeId, exitPrice, status, exitFee);
+    this.state.positions.delete(position.tokenId);
+    const closed = getTradeById(position.tradeId);
+    const pnl = closed?.pnl ?? (exitPrice - position.entryPrice) * totalShares;
+    const fees = closed && closed.fees > 0 ? ` (fees: $${closed.fees.toFixed(2)})` : "";
+    this.log(`${this.venueTag()}${label} Sold ${totalShares.toFixed(2)} shares @ $${exitPrice.toFixed(2)}. PnL: $${pnl.toFixed(2)}${fees}`, context);
+
+    await this.syncBalance();
+    this.log(`${this.venueTag()}Balance after exit: $${this.state.balance.toFixed(2)}`);
+    this.updateRiskGuards();
+    return true;
+  }
+
   private async checkStopLosses(): Promise<void> {
-    const activeConfig = this.getActiveConfig();
+    const strategy = this.getStrategy();
 
     for (const [tokenId, position] of this.state.positions) {
       try {
-        // Use WebSocket price if available, otherwise fall back to REST API
-        let currentBid: number;
-        const wsPrice = this.priceStream.getPrice(tokenId, this.getWsPriceMaxAgeMs());
-        if (wsPrice && this.state.wsConnected) {
-          currentBid = wsPrice.bestBid;
-        } else if (!this.config.paperTrading) {
-          const { bid } = await this.trader.getPrice(tokenId);
-          currentBid = bid;
-        } else {
-          continue; // Skip if no price available in paper mode
+        // Use WebSocket price if available, otherwise fall back to the venue's quote
+        const quote = await this.getCurrentPrice(tokenId, true);
+        if (!quote) continue; // No price available (paper mode without WebSocket)
+        const currentBid = quote.bid;
+
+        const snapshot = this.positionSnapshot(position, currentBid, quote.ask);
+        // A cached WebSocket quote already counted as a tick is not a new price update
+        if (quote.updatedAt === undefined || quote.updatedAt > position.lastTickAt) {
+          this.trackPosition(strategy, position, snapshot, quote.updatedAt);
         }
 
-        // Check if price is below stop-loss threshold - execute immediately
-        if (currentBid <= activeConfig.stopLoss) {
+        const decision = strategy.evaluateExit(position, snapshot);
+        if (decision.action === "STOP_LOSS") {
           await this.executeStopLoss(tokenId, position, currentBid);
+        } else if (decision.action === "TAKE_PROFIT") {
+          await this.executeTakeProfit(tokenId, position, currentBid, "REST");
         }
       } catch (err) {
         this.log(`Error checking stop-loss: ${err}`);
@@ -1276,31 +1944,18 @@ export class Bot {
     );
     if (!market) return;
 
-    const activeConfig = this.getActiveConfig();
-    const now = Date.now();
-
-    // Check time window (time remaining until market ends)
-    // market.endDate may be a Date object or string depending on source
-    const endTime = market.endDate instanceof Date ? market.endDate.getTime() : new Date(market.endDate).getTime();
-    const timeRemaining = endTime - now;
-    if (timeRemaining <= 0 || timeRemaining > activeConfig.timeWindowMs) return;
-
     // Determine which side this token is (UP or DOWN)
     const isUpToken = market.clobTokenIds[0] === tokenId;
     const side: "UP" | "DOWN" = isUpToken ? "UP" : "DOWN";
+    // market.endDate may be a Date object or string depending on source
+    const marketEndDate = market.endDate instanceof Date ? market.endDate : new Date(market.endDate);
+    const timeRemaining = marketEndDate.getTime() - this.clock.now();
 
-    // Check spread
-    const spread = bestAsk - bestBid;
-    if (spread > activeConfig.maxSpread) return;
-
-    // Check entry threshold (ask must be >= threshold and <= max)
-    if (bestAsk < activeConfig.entryThreshold || bestAsk > activeConfig.maxEntryPrice) return;
-
-    // Don't buy if price is at or above profit target
-    if (bestAsk >= this.getProfitTarget()) return;
+    // Cheap range check first: price updates fire constantly (enterPosition runs the full entry gate)
+    const { entryThreshold, maxEntryPrice } = this.getActiveConfig();
+    if (bestAsk < entryThreshold || bestAsk > maxEntryPrice) return;
 
     // Build eligible market object for enterPosition
-    const marketEndDate = market.endDate instanceof Date ? market.endDate : new Date(market.endDate);
     const eligibleMarket: EligibleMarket = {
       slug: market.slug,
       question: market.question,
@@ -1315,6 +1970,7 @@ export class Bot {
       eligibleSide: side
     };
 
+    // Strategy rules and filters are evaluated in enterPosition.
     // Don't log every WS signal - too spammy. Only log when actually entering.
     await this.enterPosition(eligibleMarket);
   }
@@ -1324,7 +1980,7 @@ export class Bot {
       const activeConfig = this.getActiveConfig();
 
       // Refresh markets list
-      this.state.markets = await fetchBtc1HourMarkets();
+      this.state.markets = await this.marketSource.fetchMarkets();
       await this.subscribeToMarkets(this.state.markets);
 
       // Use WebSocket prices if available for more accurate signals
@@ -1333,8 +1989,9 @@ export class Bot {
         entryThreshold: activeConfig.entryThreshold,
         timeWindowMs: activeConfig.timeWindowMs,
         maxEntryPrice: activeConfig.maxEntryPrice,
-        maxSpread: activeConfig.maxSpread
-      }, priceOverrides);
+        maxSpread: activeConfig.maxSpread,
+        depthFilter: this.getDepthFilter()
+      }, priceOverrides, this.clock);
 
       for (const market of eligible) {
         // Skip if we already have a position in this market
@@ -1348,8 +2005,35 @@ export class Bot {
     }
   }
 
+  /**
+   * Full entry gate: trading state (incl. risk halt), strategy rules, re-entry policy and the
+   * spot, depth and tape filters. Checked before entering and again while a maker bid rests
+   */
+  private passesEntryGate(snapshot: MarketSnapshot): boolean {
+    if (!this.state.running || !this.state.tradingEnabled || this.state.riskHalt) return false;
+    const { marketSlug, tokenId, side } = snapshot;
+
+    // Shared strategy rules (time window, spread, entry range, opposite-side rule)
+    if (!this.getStrategy().evaluateEntry(snapshot, this.tradeHistory).enter) return false;
+
+    // Re-entry policy (max entries, cooldown after stop, same side after loss, hourly cap)
+    const reentry = checkReentry(this.configManager.getReentry(), this.reentryHistory, snapshot);
+    if (!reentry.allowed) {
+      // Log each block once per token until the reason changes (price updates fire constantly)
+      if (this.reentryBlocks.get(tokenId) !== reentry.reason) {
+        this.reentryBlocks.set(tokenId, reentry.reason);
+        this.log(`[REENTRY] Blocked ${side} entry: ${reentry.reason}`, { marketSlug, tokenId });
+      }
+      return false;
+    }
+    this.reentryBlocks.delete(tokenId);
+
+    return this.passesSpotFilter(marketSlug, side, new Date(snapshot.marketEndTime)) &&
+      this.passesDepthFilter(marketSlug, side, tokenId) &&
+      this.passesTapeFilter(marketSlug, side, tokenId);
+  }
+
   private async enterPosition(market: EligibleMarket): Promise<void> {
-    const activeConfig = this.getActiveConfig();
     const side = market.eligibleSide!;
     const tokenId = side === "UP" ? market.upTokenId : market.downTokenId;
     const askPrice = side === "UP" ? market.upAsk : market.downAsk;
@@ -1362,14 +2046,18 @@ export class Bot {
     if (this.state.pendingEntries.has(tokenId)) return;
     if (this.state.positions.has(tokenId)) return;
     if (this.state.positions.size >= this.config.maxPositions) return;
-    if (askPrice >= this.getProfitTarget()) return;
-    if (askPrice > activeConfig.maxEntryPrice) return;
-    if (askPrice < activeConfig.entryThreshold) return;
-    if ((askPrice - bidPrice) > activeConfig.maxSpread) return;
 
-    // Only enter OPPOSITE side of last WINNING trade IN THE SAME MARKET
-    const lastWinningTrade = getLastWinningTradeInMarket(market.slug, side);
-    if (lastWinningTrade) return;
+    // Entry gate (strategy rules, re-entry policy, spot/depth/tape filters) on the signalled prices
+    const snapshot: MarketSnapshot = {
+      marketSlug: market.slug,
+      tokenId,
+      side,
+      bestBid: bidPrice,
+      bestAsk: askPrice,
+      timestamp: this.clock.now(),
+      marketEndTime: endDate.getTime()
+    };
+    if (!this.passesEntryGate(snapshot)) return;
 
     // MUTEX: Now we're actually going to try to enter
     this.state.pendingEntries.add(tokenId);
@@ -1387,183 +2075,100 @@ export class Bot {
         tokenId
       });
 
-      if (this.config.paperTrading) {
-        // Paper trading: simulate buy at ask price
-        const availableBalance = this.getAvailableBalance();
-        if (availableBalance < 1) {
-          this.log("Insufficient paper balance");
-          return;
-        }
-
-        // Reserve the balance to prevent concurrent overspending
-        this.state.reservedBalance += availableBalance;
-
-        try {
-          // Calculate shares: balance / askPrice
-          const rawShares = availableBalance / askPrice;
-          // Apply paper trading fee (simulates Polymarket's ~1% taker fee)
-          const paperFeeRate = this.getPaperFeeRate();
-          const shares = rawShares * (1 - paperFeeRate);
-
-          // Check minimum order size (Polymarket requires at least 5 shares)
-          if (shares < MIN_ORDER_SIZE) {
-            const minUsdc = MIN_ORDER_SIZE * askPrice / (1 - paperFeeRate);
-            this.log(`[PAPER] Insufficient balance for ${MIN_ORDER_SIZE} shares (need $${minUsdc.toFixed(2)}, have $${availableBalance.toFixed(2)})`);
-            return;
-          }
-
-          // Record paper trade
-          const tradeId = insertTrade({
-            market_slug: market.slug,
-            token_id: tokenId,
-            side,
-            entry_price: askPrice,
-            shares,
-            cost_basis: availableBalance,
-            created_at: new Date().toISOString(),
-            market_end_date: endDate.toISOString()
-          });
-
-          this.state.positions.set(tokenId, {
-            tradeId,
-            tokenId,
-            shares,
-            entryPrice: askPrice,
-            side,
-            marketSlug: market.slug,
-            marketEndDate: endDate
-            // No limit orders - using WebSocket monitoring instead
-          });
-
-          // Ensure tokenId is subscribed for real-time stop-loss monitoring
-          if (this.priceStream.isConnected()) {
-            this.priceStream.subscribe([tokenId]);
-          }
-
-          // Deduct from paper balance
-          this.state.balance -= availableBalance;
+      // Size from compound-limited balance (set by syncBalance in tick)
+      // Sizing also enforces the minimum order size before attempting trade
+      const sizing = this.configManager.getSizing();
+      const feeRate = this.venue.feeRate(askPrice);
+      const size = calculatePositionSize(sizing, {
+        availableBalance: this.getAvailableBalance(),
+        price: askPrice,
+        feeRate
+      });
+      if (!size.ok) {
+        this.log(`${this.venueTag()}Skipping entry: ${size.reason}`);
+        return;
+      }
+      const { usdc } = size;
 
-          this.log(`[PAPER] Bought ${shares.toFixed(2)} shares of ${side} @ $${askPrice.toFixed(2)} ask (fee: ${(paperFeeRate * 100).toFixed(1)}%)`, {
-            marketSlug: market.slug,
-            tokenId,
-            tradeId
-          });
-          this.log(`[PAPER] Monitoring for exit: profit @ $${this.getProfitTarget().toFixed(2)}, stop-loss @ $${this.config.stopLoss.toFixed(2)}`);
-        } finally {
-          // Release the reserved balance
-          this.state.reservedBalance -= availableBalance;
-        }
-      } else {
-        // Real trading - use compound-limited balance (set by applyCompoundLimit in tick)
-        const availableBalance = this.getAvailableBalance();
-        if (availableBalance < 1) {
-          this.log("Insufficient balance");
-          return;
-        }
+      // Reserve the balance to prevent concurrent overspending
+      this.state.reservedBalance += usdc;
 
-        // Check minimum order size before attempting trade
-        const estimatedShares = availableBalance / askPrice;
-        if (estimatedShares < MIN_ORDER_SIZE) {
-          const minUsdc = MIN_ORDER_SIZE * askPrice;
-          this.log(`Insufficient balance for ${MIN_ORDER_SIZE} shares (need $${minUsdc.toFixed(2)}, have $${availableBalance.toFixed(2)})`);
-          return;
+      try {
+        this.log(`${this.venueTag()}Position size: $${usdc.toFixed(2)} (${describeSizing(sizing)})`);
+        const maxPrice = this.getActiveConfig().maxEntryPrice;
+        const entryStartedAt = new Date(this.clock.now()).toISOString();
+        let fill: EntryFill | null;
+        let failure: string | null;
+        if (this.configManager.getEntry().orderType === "maker") {
+          const result = await this.runMakerEntry(snapshot, usdc, maxPrice);
+          fill = result.fill;
+          failure = result.reason;
+        } else {
+          fill = await this.venue.buy({ tokenId, price: askPrice, maxPrice, usdc });
+          failure = this.venue.getLastError();
         }
-
-        // Reserve the balance to prevent concurrent overspending
-        this.state.reservedBalance += availableBalance;
-
-        try {
-          const result = await this.trader.buy(tokenId, askPrice, availableBalance);
-          if (!result) {
-            this.log("Order failed");
-            return;
-          }
-
-          // Wait for order to fill (with 10s timeout)
-          this.log(`Order placed, waiting for fill...`);
-          const fillInfo = await this.trader.waitForFill(result.orderId, 10000);
-
-          if (!fillInfo || fillInfo.filledShares <= 0) {
-            // Order didn't fill - cancel it and abort
-            this.log("Order did not fill, cancelling...");
-            await this.trader.cancelOrder(result.orderId);
-            return;
-          }
-
-          // Use actual fill data instead of assumed values
-          const actualShares = fillInfo.filledShares;
-          const actualEntryPrice = fillInfo.avgPrice || askPrice;
-          const actualCost = actualShares * actualEntryPrice;
-
-          this.log(`Order filled: ${actualShares.toFixed(2)} shares @ $${actualEntryPrice.toFixed(2)}`, {
+        if (!fill) {
+          this.log(`${this.venueTag()}Entry failed: ${failure ?? "order failed"}`, {
             marketSlug: market.slug,
             tokenId
           });
+          return;
+        }
 
-          // Wait for position to settle before placing limit sell
-          this.log(`Waiting for position settlement...`);
-          await new Promise(resolve => setTimeout(resolve, 3000)); // 3s initial delay
-
-          // Get ACTUAL position balance (may differ from calculated due to fees)
-          // Use polling to wait for settlement (API may take time to reflect new position)
-          let actualPositionBalance: number | null = null;
-          for (let attempt = 1; attempt <= 5; attempt++) {
-            actualPositionBalance = await this.trader.getPositionBalance(tokenId);
-            if (actualPositionBalance !== null && actualPositionBalance > 0) break;
-            if (attempt < 5) {
-              await new Promise(resolve => setTimeout(resolve, 1000)); // 1s between attempts
-            }
-          }
-          const sharesToSell = (actualPositionBalance !== null && actualPositionBalance > 0)
-            ? actualPositionBalance
-            : actualShares;
+        // Record trade with the actual fill (shares account for fees)
+        const tradeId = insertTrade({
+          market_slug: market.slug,
+          token_id: tokenId,
+          side,
+          entry_price: fill.price,
+          shares: fill.shares,
+          cost_basis: fill.cost,
+          fees: fill.fee,
+          created_at: new Date(this.clock.now()).toISOString(),
+          market_end_date: endDate.toISOString()
+        });
+        linkOrdersToTrade(tokenId, "BUY", tradeId, entryStartedAt);
 
-          if (Math.abs(sharesToSell - actualShares) > 0.01) {
-            this.log(`Adjusted shares: ${actualShares.toFixed(2)} → ${sharesToSell.toFixed(2)} (actual balance)`);
-          }
+        this.state.positions.set(tokenId, {
+          tradeId,
+          tokenId,
+          shares: fill.shares,
+          entryPrice: fill.price,
+          side,
+          marketSlug: market.slug,
+          marketEndDate: endDate,
+          highestBid: bidPrice,
+          stopBreachedAt: null,
+          stopBreachTicks: 0,
+          lastTickAt: 0,
+          exitedShares: 0,
+          exitProceeds: 0,
+          exitFees: 0
+          // No limit orders - using WebSocket monitoring instead
+        });
 
-          // NO LIMIT ORDER - monitor via WebSocket for profit target and stop-loss
-          // This avoids shares being locked by limit orders, which blocks stop-loss execution
-          this.log(`Monitoring for exit: profit @ $${this.getProfitTarget().toFixed(2)}, stop-loss @ $${this.config.stopLoss.toFixed(2)}`);
-
-          // Record trade with actual position balance (accounts for fees)
-          const tradeId = insertTrade({
-            market_slug: market.slug,
-            token_id: tokenId,
-            side,
-            entry_price: actualEntryPrice,
-            shares: sharesToSell, // Use actual position balance, not calculated
-            cost_basis: actualCost,
-            created_at: new Date().toISOString(),
-            market_end_date: endDate.toISOString()
-          });
+        // Ensure tokenId is subscribed for real-time stop-loss monitoring
+        if (this.priceStream.isConnected()) {
+          this.priceStream.subscribe([tokenId]);
+        }
 
-          this.state.positions.set(tokenId, {
-            tradeId,
-            tokenId,
-            shares: sharesToSell, // Use actual position balance for stop-loss
-            entryPrice: actualEntryPrice,
-            side,
-            marketSlug: market.slug,
-            marketEndDate: endDate
-            // No limitOrderId - using WebSocket monitoring instead
-          });
+        const fee = fill.fee > 0 ? ` (fee: $${fill.fee.toFixed(2)})` : "";
+        this.log(`${this.venueTag()}Bought ${fill.shares.toFixed(2)} shares of ${side} @ $${fill.price.toFixed(2)} for $${fill.cost.toFixed(2)}${fee}`, {
+          marketSlug: market.slug,
+          tokenId,
+          tradeId
+        });
 
-          // Ensure tokenId is subscribed for real-time stop-loss monitoring
-          if (this.priceStream.isConnected()) {
-            this.priceStream.subscribe([tokenId]);
-          }
+        // NO LIMIT ORDER - monitor via WebSocket for profit target and stop-loss
+        // This avoids shares being locked by limit orders, which blocks stop-loss execution
+        this.log(`${this.venueTag()}Monitoring for exit: profit @ $${this.getProfitTarget().toFixed(2)}, stop-loss @ $${this.config.stopLoss.toFixed(2)}${this.formatTrailingStop()}`);
 
-          // Sync balance after trade
-          const newBalance = await this.trader.getBalance();
-          if (newBalance !== null) {
-            this.state.balance = newBalance;
-          }
-          this.log(`Balance after trade: $${this.state.balance.toFixed(2)}`);
-        } finally {
-          // Release reserved balance
-          this.state.reservedBalance -= availableBalance;
-        }
+        // Sync balance after trade
+        await this.syncBalance();
+        this.log(`${this.venueTag()}Balance after trade: $${this.state.balance.toFixed(2)}`);
+      } finally {
+        // Release reserved balance
+        this.state.reservedBalance -= usdc;
       }
     } finally {
       // MUTEX: Always release the lock
@@ -1579,7 +2184,44 @@ export class Bot {
     return this.config;
   }
 
+  /**
+   * Startup reconciliation issues waiting for the operator
+   */
+  getReconcileIssues(): ReconcileIssue[] {
+    return this.reconcileIssues;
+  }
+
+  /**
+   * Operator decision on a reconciliation issue: apply its proposed fix or leave things as they are
+   */
+  async resolveReconcileIssue(id: string, apply: boolean): Promise<void> {
+    const issue = this.reconcileIssues.find(i => i.id === id);
+    if (!issue) return;
+    this.reconcileIssues = this.reconcileIssues.filter(i => i.id !== id);
+    const context = { marketSlug: issue.marketSlug ?? undefined, tokenId: issue.tokenId, tradeId: issue.tradeId ?? undefined };
+
+    if (!apply) {
+      this.log(`[RECONCILE] Operator dismissed: ${issue.description}`, context);
+      return;
+    }
+    try {
+      const outcome = await this.applyReconcileFix(issue);
+      this.log(`[RECONCILE] Operator applied: ${issue.description} -> ${outcome}`, context);
+    } catch (err) {
+      this.reconcileIssues.push(issue); // Keep it so the operator can retry
+      this.log(`[RECONCILE] Fix failed: ${issue.description}: ${err instanceof Error ? err.message : err}`, context);
+    }
+  }
+
+  /**
+   * Current stop price for a position (includes trailing stop)
+   */
+  getStopPrice(position: Position): number {
+    return this.getStrategy().stopPrice(position);
+  }
+
   getWsStats(): WsStats {
+    const feedHealth = this.configManager.getFeedHealth();
     return {
       marketConnected: this.state.wsConnected,
       marketLastMessageAt: this.priceStream.getLastMessageAt(),
@@ -1588,7 +2230,11 @@ export class Bot {
       userConnected: this.state.userWsConnected,
       userLastMessageAt: this.userStream ? this.userStream.getLastMessageAt() : 0,
       userMarketCount: this.userStream ? this.userStream.getMarketCount() : 0,
-      priceMaxAgeMs: this.getWsPriceMaxAgeMs()
+      priceMaxAgeMs: this.getWsPriceMaxAgeMs(),
+      feedHealthEnabled: feedHealth.enabled,
+      tokenStaleMs: feedHealth.tokenStaleMs,
+      tokens: this.feedHealth.getFreshness(feedHealth.tokenStaleMs),
+      ...this.feedHealth.getStats()
     };
   }
 
@@ -1596,12 +2242,12 @@ export class Bot {
     const activeConfig = this.getActiveConfig();
 
     // Only refresh markets periodically, not every UI render
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const shouldRefresh = !this.lastMarketRefresh ||
                          (now.getTime() - this.lastMarketRefresh.getTime()) > this.getMarketRefreshInterval();
 
     if (shouldRefresh) {
-      this.state.markets = await fetchBtc1HourMarkets();
+      this.state.markets = await this.marketSource.fetchMarkets();
       await this.subscribeToMarkets(this.state.markets);
       this.lastMarketRefresh = now;
     }
@@ -1612,8 +2258,9 @@ export class Bot {
       entryThreshold: activeConfig.entryThreshold,
       timeWindowMs: activeConfig.timeWindowMs,
       maxEntryPrice: activeConfig.maxEntryPrice,
-      maxSpread: activeConfig.maxSpread
-    }, priceOverrides));
+      maxSpread: activeConfig.maxSpread,
+      depthFilter: this.getDepthFilter()
+    }, priceOverrides, this.clock));
   }
 
   isWsConnected(): boolean {
@@ -0,0 +1,156 @@
+/**
+ * Time and timer sources
+ * Time-window, staleness and expiry checks read the time from a Clock and wait on a Scheduler,
+ * so tests, replays and simulations can drive both; everything defaults to the system ones
+ */
+
+export interface Clock {
+  /** Milliseconds since the epoch */
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to (tests, replays and simulations)
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(startMs: number = 0) {
+    this.current = startMs;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Jump to `timestamp` (ms); the clock never goes backwards
+   */
+  set(timestamp: number): void {
+    this.current = Math.max(this.current, timestamp);
+  }
+
+  advance(ms: number): void {
+    this.current += Math.max(0, ms);
+  }
+}
+
+/** Timer returned by a Scheduler, passed back to clear it */
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Timer source paired with a Clock (poll loops, sampling windows, delays)
+ */
+export interface Scheduler {
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a timeout or interval (unknown or already fired handles are ignored) */
+  clear(handle: TimerHandle): void;
+}
+
+export const systemScheduler: Scheduler = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clear: (handle) => clearTimeout(handle),
+};
+
+/**
+ * Resolve after `ms` on the scheduler's time
+ */
+export function sleep(scheduler: Scheduler, ms: number): Promise<void> {
+  return new Promise(resolve => scheduler.setTimeout(resolve, ms));
+}
+
+/**
+ * Let everything that can run without time passing finish (promise chains, queued callbacks)
+ */
+export function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+interface ManualTimer {
+  due: number;
+  intervalMs: number | null;  // null = one-shot
+  callback: () => void;
+}
+
+/**
+ * Scheduler whose timers only fire when `advanceTo` moves its ManualClock past them
+ */
+export class ManualScheduler implements Scheduler {
+  readonly clock: ManualClock;
+  private timers: Map<number, ManualTimer> = new Map();
+  private nextTimerId = 1;
+
+  constructor(clock: ManualClock) {
+    this.clock = clock;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.add(callback, Math.max(0, ms), false);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return this.add(callback, Math.max(1, ms), true);
+  }
+
+  clear(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /** Timers waiting to fire */
+  pending(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move the clock to `target`, firing every timer due on the way in order and letting
+   * each one's callbacks settle before the next
+   */
+  async advanceTo(target: number): Promise<void> {
+    for (;;) {
+      const next = this.nextDue(target);
+      if (!next) break;
+      const [id, timer] = next;
+      this.clock.set(timer.due);
+      if (timer.intervalMs === null) {
+        this.timers.delete(id);
+      } else {
+        timer.due += timer.intervalMs;
+      }
+      try {
+        timer.callback();
+      } catch (err) {
+        console.error(`[CLOCK] Timer callback error: ${err instanceof Error ? err.message : err}`);
+      }
+      await settle();
+    }
+    this.clock.set(target);
+  }
+
+  advance(ms: number): Promise<void> {
+    return this.advanceTo(this.clock.now() + Math.max(0, ms));
+  }
+
+  private add(callback: () => void, delay: number, repeat: boolean): number {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { due: this.clock.now() + delay, intervalMs: repeat ? delay : null, callback });
+    return id;
+  }
+
+  /**
+   * Earliest timer due at or before `target` (ties fire in the order they were scheduled)
+   */
+  private nextDue(target: number): [number, ManualTimer] | null {
+    let next: [number, ManualTimer] | null = null;
+    for (const entry of this.timers) {
+      if (entry[1].due > target) continue;
+      if (!next || entry[1].due < next[1].due) next = entry;
+    }
+    return next;
+  }
+}
@@ -1,6 +1,10 @@
 import { watch, existsSync, readFileSync, writeFileSync } from "fs";
 import { EventEmitter } from "events";
 import type { SignatureType } from "./trader";
+import { validateMarketFamily } from "./market-family";
+
+// How a trailing stop distance is measured from the highest bid since entry
+export type TrailingStopType = "absolute" | "percent";
 
 // Mode-specific trading parameters
 export interface ModeConfig {
@@ -10,6 +14,127 @@ export interface ModeConfig {
   maxSpread: number;
   timeWindowMs: number;
   profitTarget: number;
+  // Optional trailing stop distance below the highest bid since entry (0 = disabled)
+  // "absolute": price distance (0.05 = 5 cents), "percent": fraction of the high (0.05 = 5%)
+  // stopLoss still applies as a floor
+  trailingStop?: number;
+  trailingStopType?: TrailingStopType;
+  // Optional stop-loss confirmation: bid must stay at/below the stop for this long
+  // and/or this many price updates before selling (0 = sell on first touch)
+  stopLossDelayMs?: number;
+  stopLossConfirmTicks?: number;
+  // Optional BTC spot filters (require spot.enabled): only enter a side once spot has moved
+  // this far from the hour's open in its favour (0 = disabled)
+  // "Sigma" is the distance in std devs of the expected move over the time remaining
+  minSpotDistanceUsd?: number;
+  minSpotDistanceSigma?: number;
+  // Optional order book depth filters (live/paper WebSocket books): depth counts the shares
+  // within `depthBand` of the best price (default 0.02)
+  depthBand?: number;
+  minBidDepth?: number;       // Shares bid near the best bid (0 = disabled)
+  minAskDepthUsdc?: number;   // USDC offered at or below maxEntryPrice (0 = disabled)
+  minBookImbalance?: number;  // (bid - ask) / (bid + ask) depth, -1 to 1 (-1 = disabled)
+  // Optional trade tape filters on the side's trades over the last `tapeWindowMs` (default 5 minutes)
+  tapeWindowMs?: number;
+  minTradedUsdc?: number;  // Traded notional (0 = disabled)
+  minTrades?: number;      // Trade count (0 = disabled)
+  minBuyRatio?: number;    // Share of the volume bought by aggressors, 0 to 1 (0 = disabled)
+}
+
+// Position sizing policy
+// "all": whole available balance, "fixed": fixedUsdc per trade,
+// "fraction": fraction of available balance, "kelly": kellyMultiplier x Kelly fraction
+export type SizingPolicy = "all" | "fixed" | "fraction" | "kelly";
+
+export interface SizingConfig {
+  policy: SizingPolicy;
+  fixedUsdc: number;        // USDC per trade for "fixed"
+  fraction: number;         // Fraction of available balance for "fraction" (0-1)
+  kellyMultiplier: number;  // Fractional Kelly multiplier for "kelly" (e.g. 0.25 = quarter Kelly)
+  winProbability: number;   // Estimated win probability used by "kelly"
+  maxUsdc: number;          // Cap on USDC per trade for any policy (0 = no cap)
+}
+
+// Re-entry policy (on top of the strategy's "no same side after a win" rule)
+export interface ReentryConfig {
+  maxEntriesPerMarket: number;     // Max entries in one market, any side (0 = unlimited)
+  stopLossCooldownMs: number;      // Wait after a stop-loss before re-entering that market (0 = disabled)
+  allowSameSideAfterLoss: boolean; // Allow re-entering a side that lost in the same market
+  maxEntriesPerHour: number;       // Max entries across all markets in a rolling hour (0 = unlimited)
+}
+
+// Risk guards (circuit breakers): stop new entries after losses until the cool-off ends
+export interface RiskGuardConfig {
+  maxDailyLossUsdc: number;      // Max realized loss per UTC day (0 = disabled)
+  maxConsecutiveLosses: number;  // Max losing trades in a row (0 = disabled)
+  maxDrawdown: number;           // Max drop from peak equity as a fraction, e.g. 0.2 = 20% (0 = disabled)
+  coolOffMs: number;             // How long a halt lasts (0 = until the next UTC day)
+}
+
+// Entry order type: "taker" buys at the ask, "maker" rests a limit bid at/near the best bid
+export type EntryOrderType = "taker" | "maker";
+
+export interface EntryConfig {
+  orderType: EntryOrderType;
+  makerTimeoutMs: number;     // Cancel a maker bid that has not fully filled after this long
+  makerImproveTicks: number;  // Ticks above the best bid to post at (0 = join the best bid)
+  makerRepriceMs: number;     // Minimum time between reprices as the book moves
+}
+
+// Fee model shared by paper trading, backtests and PnL reporting
+// "flat": rate x notional, "polymarket": rate x min(price, 1 - price) x shares
+export type FeeCurve = "flat" | "polymarket";
+
+export interface FeeConfig {
+  takerRate: number;  // Fee on fills that take liquidity (market buys and exits)
+  makerRate: number;  // Fee on resting limit orders that get filled
+  curve: FeeCurve;
+}
+
+// BTC spot price feed (Binance-compatible kline stream)
+export interface SpotConfig {
+  enabled: boolean;
+  wsUrl: string;    // Stream base URL (point at the mock server for testing)
+  symbol: string;   // Stream symbol, e.g. "btcusdt"
+  maxAgeMs: number; // Spot prices older than this are treated as unavailable
+}
+
+// Shadow mode: sign into the real account read-only and paper-fill every signal,
+// comparing each paper fill with the live book over the following window
+export interface ShadowConfig {
+  enabled: boolean;         // Requires trading.paperTrading = false (and PRIVATE_KEY)
+  compareWindowMs: number;  // How long to watch the book after each paper fill
+}
+
+// Live tick recorder: persist every price update into backtest.db for backtests (--recorded)
+export interface RecorderConfig {
+  enabled: boolean;
+  flushIntervalMs: number;  // How often buffered ticks are written
+}
+
+// Feed watchdog: per-token freshness on the market WebSocket, REST polling for stale
+// position tokens and resubscribe/reconnect when the whole stream stalls
+export interface FeedHealthConfig {
+  enabled: boolean;
+  checkIntervalMs: number;  // How often freshness is checked (and stale position tokens polled)
+  tokenStaleMs: number;     // A subscribed token with no update for this long is stale
+  streamStallMs: number;    // No message on the whole stream for this long: resubscribe, then reconnect
+}
+
+// Market family: the recurring up/down series the bot trades and backtests fetch
+export interface MarketFamilyConfig {
+  name: string;                  // Label for logs, e.g. "BTC 1h"
+  slugTemplate: string;          // Event slug with {month} {day} {hour} {ampm} {hour24} {minute} {year} {unix} placeholders
+  timezone: string;              // IANA timezone the slug's date parts are written in
+  durationMs: number;            // Market length, also the spacing between markets
+  outcomes: [string, string];    // Up and down outcome labels, e.g. ["Up", "Down"]
+}
+
+// Polymarket API base URLs (point at the mock server for offline runs)
+export interface EndpointsConfig {
+  gammaUrl: string;  // Gamma REST API (market discovery and resolution)
+  clobUrl: string;   // CLOB REST API (orders, books, balances, price history)
+  wsUrl: string;     // CLOB WebSocket base (market and user channels)
 }
 
 // Full trading config file structure
@@ -28,6 +153,17 @@ export interface TradingConfigFile {
     compoundLimit: number;
     baseBalance: number;
   };
+  sizing: SizingConfig;
+  reentry: ReentryConfig;
+  riskGuards: RiskGuardConfig;
+  entry: EntryConfig;
+  fees: FeeConfig;
+  spot: SpotConfig;
+  shadow: ShadowConfig;
+  endpoints: EndpointsConfig;
+  market: MarketFamilyConfig;
+  recorder: RecorderConfig;
+  feedHealth: FeedHealthConfig;
   activeMode: string;
   modes: {
     [key: string]: ModeConfig;
@@ -41,7 +177,6 @@ export interface TradingConfigFile {
   advanced: {
     wsPriceMaxAgeMs: number;
     marketRefreshInterval: number;
-    paperFeeRate: number;
   };
 }
 
@@ -61,6 +196,69 @@ const DEFAULT_CONFIG: TradingConfigFile = {
     compoundLimit: 0,
     baseBalance: 10,
   },
+  sizing: {
+    policy: "all",
+    fixedUsdc: 10,
+    fraction: 0.25,
+    kellyMultiplier: 0.25,
+    winProbability: 0.97,
+    maxUsdc: 0,
+  },
+  reentry: {
+    maxEntriesPerMarket: 0,
+    stopLossCooldownMs: 0,
+    allowSameSideAfterLoss: true,
+    maxEntriesPerHour: 0,
+  },
+  riskGuards: {
+    maxDailyLossUsdc: 0,
+    maxConsecutiveLosses: 0,
+    maxDrawdown: 0,
+    coolOffMs: 60 * 60 * 1000,
+  },
+  entry: {
+    orderType: "taker",
+    makerTimeoutMs: 30000,
+    makerImproveTicks: 0,
+    makerRepriceMs: 1000,
+  },
+  fees: {
+    takerRate: 0.01,
+    makerRate: 0,
+    curve: "flat",
+  },
+  spot: {
+    enabled: false,
+    wsUrl: "wss://stream.binance.com:9443",
+    symbol: "btcusdt",
+    maxAgeMs: 5000,
+  },
+  shadow: {
+    enabled: false,
+    compareWindowMs: 5000,
+  },
+  endpoints: {
+    gammaUrl: "https://gamma-api.polymarket.com",
+    clobUrl: "https://clob.polymarket.com",
+    wsUrl: "wss://ws-subscriptions-clob.polymarket.com",
+  },
+  market: {
+    name: "BTC 1h",
+    slugTemplate: "bitcoin-up-or-down-{month}-{day}-{hour}{ampm}-et",
+    timezone: "America/New_York",
+    durationMs: 60 * 60 * 1000,
+    outcomes: ["Up", "Down"],
+  },
+  recorder: {
+    enabled: false,
+    flushIntervalMs: 5000,
+  },
+  feedHealth: {
+    enabled: true,
+    checkIntervalMs: 5000,
+    tokenStaleMs: 30000,
+    streamStallMs: 60000,
+  },
   activeMode: "normal",
   modes: {
     normal: {
@@ -81,7 +279,6 @@ const DEFAULT_CONFIG: TradingConfigFile = {
   advanced: {
     wsPriceMaxAgeMs: 5000,
     marketRefreshInterval: 30000,
-    paperFeeRate: 0.01,
   },
 };
 
@@ -117,6 +314,48 @@ function validateModeConfig(modeName: string, mode: ModeConfig): ValidationError
   if (mode.timeWindowMs <= 0) {
     errors.push({ path: `${prefix}.timeWindowMs`, message: "must be positive" });
   }
+  if (mode.trailingStop !== undefined && !validateRange(mode.trailingStop, 0, 0.5)) {
+    errors.push({ path: `${prefix}.trailingStop`, message: "must be between 0 and 0.5 (0 disables)" });
+  }
+  if (mode.stopLossDelayMs !== undefined && !validateRange(mode.stopLossDelayMs, 0, 300000)) {
+    errors.push({ path: `${prefix}.stopLossDelayMs`, message: "must be between 0 and 300000 (0 disables)" });
+  }
+  if (mode.stopLossConfirmTicks !== undefined && (!Number.isInteger(mode.stopLossConfirmTicks) || mode.stopLossConfirmTicks < 0)) {
+    errors.push({ path: `${prefix}.stopLossConfirmTicks`, message: "must be a non-negative integer (0 disables)" });
+  }
+  if (mode.trailingStopType !== undefined && mode.trailingStopType !== "absolute" && mode.trailingStopType !== "percent") {
+    errors.push({ path: `${prefix}.trailingStopType`, message: 'must be "absolute" or "percent"' });
+  }
+  if (mode.minSpotDistanceUsd !== undefined && mode.minSpotDistanceUsd < 0) {
+    errors.push({ path: `${prefix}.minSpotDistanceUsd`, message: "must be >= 0 (0 disables)" });
+  }
+  if (mode.minSpotDistanceSigma !== undefined && mode.minSpotDistanceSigma < 0) {
+    errors.push({ path: `${prefix}.minSpotDistanceSigma`, message: "must be >= 0 (0 disables)" });
+  }
+  if (mode.depthBand !== undefined && !validateRange(mode.depthBand, 0.001, 0.5)) {
+    errors.push({ path: `${prefix}.depthBand`, message: "must be between 0.001 and 0.5" });
+  }
+  if (mode.minBidDepth !== undefined && mode.minBidDepth < 0) {
+    errors.push({ path: `${prefix}.minBidDepth`, message: "must be >= 0 (0 disables)" });
+  }
+  if (mode.minAskDepthUsdc !== undefined && mode.minAskDepthUsdc < 0) {
+    errors.push({ path: `${prefix}.minAskDepthUsdc`, message: "must be >= 0 (0 disables)" });
+  }
+  if (mode.minBookImbalance !== undefined && !validateRange(mode.minBookImbalance, -1, 1)) {
+    errors.push({ path: `${prefix}.minBookImbalance`, message: "must be between -1 and 1 (-1 disables)" });
+  }
+  if (mode.tapeWindowMs !== undefined && !validateRange(mode.tapeWindowMs, 60000, 3600000)) {
+    errors.push({ path: `${prefix}.tapeWindowMs`, message: "must be between 60000 and 3600000" });
+  }
+  if (mode.minTradedUsdc !== undefined && mode.minTradedUsdc < 0) {
+    errors.push({ path: `${prefix}.minTradedUsdc`, message: "must be >= 0 (0 disables)" });
+  }
+  if (mode.minTrades !== undefined && (!Number.isInteger(mode.minTrades) || mode.minTrades < 0)) {
+    errors.push({ path: `${prefix}.minTrades`, message: "must be a non-negative integer (0 disables)" });
+  }
+  if (mode.minBuyRatio !== undefined && !validateRange(mode.minBuyRatio, 0, 1)) {
+    errors.push({ path: `${prefix}.minBuyRatio`, message: "must be between 0 and 1 (0 disables)" });
+  }
 
   // Logical validations
   if (mode.stopLoss >= mode.entryThreshold) {
@@ -166,18 +405,143 @@ function validateConfig(config: TradingConfigFile): ValidationError[] {
     errors.push({ path: "profitTaking.baseBalance", message: "must be positive" });
   }
 
-  // Active mode must exist and be normal
-  if (!config.modes[config.activeMode]) {
-    errors.push({ path: "activeMode", message: `mode "${config.activeMode}" not found in modes` });
+  // Sizing section
+  const validPolicies: SizingPolicy[] = ["all", "fixed", "fraction", "kelly"];
+  if (!validPolicies.includes(config.sizing.policy)) {
+    errors.push({ path: "sizing.policy", message: `must be one of: ${validPolicies.join(", ")}` });
+  }
+  if (config.sizing.fixedUsdc <= 0) {
+    errors.push({ path: "sizing.fixedUsdc", message: "must be positive" });
+  }
+  if (!validateRange(config.sizing.fraction, 0.01, 1)) {
+    errors.push({ path: "sizing.fraction", message: "must be between 0.01 and 1" });
+  }
+  if (!validateRange(config.sizing.kellyMultiplier, 0.01, 1)) {
+    errors.push({ path: "sizing.kellyMultiplier", message: "must be between 0.01 and 1" });
+  }
+  if (!validateRange(config.sizing.winProbability, 0.01, 0.99)) {
+    errors.push({ path: "sizing.winProbability", message: "must be between 0.01 and 0.99" });
+  }
+  if (config.sizing.maxUsdc < 0) {
+    errors.push({ path: "sizing.maxUsdc", message: "must be >= 0 (0 disables)" });
+  }
+
+  // Re-entry section
+  if (!Number.isInteger(config.reentry.maxEntriesPerMarket) || config.reentry.maxEntriesPerMarket < 0) {
+    errors.push({ path: "reentry.maxEntriesPerMarket", message: "must be a whole number >= 0 (0 = unlimited)" });
+  }
+  if (config.reentry.stopLossCooldownMs < 0) {
+    errors.push({ path: "reentry.stopLossCooldownMs", message: "must be >= 0 (0 disables)" });
   }
-  if (config.activeMode !== "normal") {
-    errors.push({ path: "activeMode", message: `only "normal" mode is supported (got "${config.activeMode}")` });
+  if (typeof config.reentry.allowSameSideAfterLoss !== "boolean") {
+    errors.push({ path: "reentry.allowSameSideAfterLoss", message: "must be true or false" });
+  }
+  if (!Number.isInteger(config.reentry.maxEntriesPerHour) || config.reentry.maxEntriesPerHour < 0) {
+    errors.push({ path: "reentry.maxEntriesPerHour", message: "must be a whole number >= 0 (0 = unlimited)" });
+  }
+
+  // Risk guards section
+  if (config.riskGuards.maxDailyLossUsdc < 0) {
+    errors.push({ path: "riskGuards.maxDailyLossUsdc", message: "must be >= 0 (0 disables)" });
+  }
+  if (!Number.isInteger(config.riskGuards.maxConsecutiveLosses) || config.riskGuards.maxConsecutiveLosses < 0) {
+    errors.push({ path: "riskGuards.maxConsecutiveLosses", message: "must be a whole number >= 0 (0 disables)" });
+  }
+  if (!validateRange(config.riskGuards.maxDrawdown, 0, 0.99)) {
+    errors.push({ path: "riskGuards.maxDrawdown", message: "must be between 0 and 0.99 (0 disables)" });
+  }
+  if (config.riskGuards.coolOffMs < 0) {
+    errors.push({ path: "riskGuards.coolOffMs", message: "must be >= 0 (0 = until the next UTC day)" });
+  }
+
+  // Entry section
+  const validOrderTypes: EntryOrderType[] = ["taker", "maker"];
+  if (!validOrderTypes.includes(config.entry.orderType)) {
+    errors.push({ path: "entry.orderType", message: `must be one of: ${validOrderTypes.join(", ")}` });
+  }
+  if (config.entry.makerTimeoutMs < 1000) {
+    errors.push({ path: "entry.makerTimeoutMs", message: "must be at least 1000ms" });
+  }
+  if (!Number.isInteger(config.entry.makerImproveTicks) || config.entry.makerImproveTicks < 0) {
+    errors.push({ path: "entry.makerImproveTicks", message: "must be a whole number >= 0" });
+  }
+  if (config.entry.makerRepriceMs < 0) {
+    errors.push({ path: "entry.makerRepriceMs", message: "must be >= 0" });
+  }
+
+  // Fees section (0.1 is the ORDER_FEE_RATE_BPS ceiling signed on real orders)
+  if (!validateRange(config.fees.takerRate, 0, 0.1)) {
+    errors.push({ path: "fees.takerRate", message: "must be between 0 and 0.1" });
+  }
+  if (!validateRange(config.fees.makerRate, 0, 0.1)) {
+    errors.push({ path: "fees.makerRate", message: "must be between 0 and 0.1" });
+  }
+  const validFeeCurves: FeeCurve[] = ["flat", "polymarket"];
+  if (!validFeeCurves.includes(config.fees.curve)) {
+    errors.push({ path: "fees.curve", message: `must be one of: ${validFeeCurves.join(", ")}` });
   }
 
-  const modeNames = Object.keys(config.modes);
-  const nonNormalModes = modeNames.filter((mode) => mode !== "normal");
-  if (nonNormalModes.length > 0) {
-    errors.push({ path: "modes", message: `unsupported modes: ${nonNormalModes.join(", ")}` });
+  // Spot section
+  if (!config.spot.wsUrl) {
+    errors.push({ path: "spot.wsUrl", message: "is required" });
+  }
+  if (!config.spot.symbol) {
+    errors.push({ path: "spot.symbol", message: "is required" });
+  }
+  if (config.spot.maxAgeMs <= 0) {
+    errors.push({ path: "spot.maxAgeMs", message: "must be positive" });
+  }
+  if (!config.spot.enabled) {
+    for (const [name, mode] of Object.entries(config.modes)) {
+      if ((mode.minSpotDistanceUsd ?? 0) > 0 || (mode.minSpotDistanceSigma ?? 0) > 0) {
+        errors.push({ path: `modes.${name}`, message: "spot distance filters require spot.enabled" });
+      }
+    }
+  }
+
+  // Shadow section
+  if (config.shadow.enabled && config.trading.paperTrading) {
+    errors.push({ path: "shadow.enabled", message: "requires trading.paperTrading = false (shadow mode reads a real account)" });
+  }
+  if (config.shadow.compareWindowMs < 500) {
+    errors.push({ path: "shadow.compareWindowMs", message: "must be at least 500ms" });
+  }
+
+  // Endpoints section
+  for (const key of ["gammaUrl", "clobUrl"] as const) {
+    if (!/^https?:\/\//.test(config.endpoints[key])) {
+      errors.push({ path: `endpoints.${key}`, message: "must be an http(s):// URL" });
+    }
+  }
+  if (!/^wss?:\/\//.test(config.endpoints.wsUrl)) {
+    errors.push({ path: "endpoints.wsUrl", message: "must be a ws(s):// URL" });
+  }
+
+  // Market family section
+  for (const problem of validateMarketFamily(config.market)) {
+    const [field, ...message] = problem.split(": ");
+    errors.push({ path: `market.${field}`, message: message.join(": ") });
+  }
+
+  // Recorder section
+  if (config.recorder.flushIntervalMs < 1000) {
+    errors.push({ path: "recorder.flushIntervalMs", message: "must be at least 1000ms" });
+  }
+
+  // Feed health section
+  if (config.feedHealth.checkIntervalMs < 1000) {
+    errors.push({ path: "feedHealth.checkIntervalMs", message: "must be at least 1000ms" });
+  }
+  if (config.feedHealth.tokenStaleMs < config.feedHealth.checkIntervalMs) {
+    errors.push({ path: "feedHealth.tokenStaleMs", message: "must be at least feedHealth.checkIntervalMs" });
+  }
+  if (config.feedHealth.streamStallMs < config.feedHealth.checkIntervalMs) {
+    errors.push({ path: "feedHealth.streamStallMs", message: "must be at least feedHealth.checkIntervalMs" });
+  }
+
+  // Active mode must exist
+  if (!config.modes[config.activeMode]) {
+    errors.push({ path: "activeMode", message: `mode "${config.activeMode}" not found in modes` });
   }
 
   // Validate all modes
@@ -189,9 +553,6 @@ function validateConfig(config: TradingConfigFile): ValidationError[] {
   if (!config.modes[config.backtest.mode]) {
     errors.push({ path: "backtest.mode", message: `mode "${config.backtest.mode}" not found in modes` });
   }
-  if (config.backtest.mode !== "normal") {
-    errors.push({ path: "backtest.mode", message: `only "normal" mode is supported (got "${config.backtest.mode}")` });
-  }
   if (config.backtest.startingBalance <= 0) {
     errors.push({ path: "backtest.startingBalance", message: "must be positive" });
   }
@@ -209,9 +570,6 @@ function validateConfig(config: TradingConfigFile): ValidationError[] {
   if (config.advanced.marketRefreshInterval < 5000) {
     errors.push({ path: "advanced.marketRefreshInterval", message: "must be at least 5000ms" });
   }
-  if (!validateRange(config.advanced.paperFeeRate, 0, 0.1)) {
-    errors.push({ path: "advanced.paperFeeRate", message: "must be between 0 and 0.1" });
-  }
 
   return errors;
 }
@@ -238,19 +596,29 @@ function deepMerge<T extends object>(target: T, source: Partial<T>): T {
   return result;
 }
 
+// Sections to override in memory (each section is merged, not replaced)
+export type ConfigOverrides = { [K in keyof TradingConfigFile]?: Partial<TradingConfigFile[K]> };
+
 export type ConfigChangeEvent = {
   previous: TradingConfigFile;
   current: TradingConfigFile;
   changedPaths: string[];
 };
 
-export type RiskMode = "normal";
+// Name of a mode defined under `modes` (e.g. "normal", "conservative", "late-entry")
+export type RiskMode = string;
 
 // Legacy BotConfig interface for compatibility
 export interface BotConfig {
   entryThreshold: number;
   maxEntryPrice: number;
   stopLoss: number;
+  trailingStop: number;
+  trailingStopType: TrailingStopType;
+  stopLossDelayMs: number;
+  stopLossConfirmTicks: number;
+  minSpotDistanceUsd: number;
+  minSpotDistanceSigma: number;
   maxSpread: number;
   timeWindowMs: number;
   pollIntervalMs: number;
@@ -434,6 +802,20 @@ export class ConfigManager extends EventEmitter {
     return this.config.modes[modeName];
   }
 
+  /**
+   * Get the names of all configured modes
+   */
+  getModeNames(): string[] {
+    return Object.keys(this.config.modes);
+  }
+
+  /**
+   * Get the mode used for backtests (backtest.mode)
+   */
+  getBacktestMode(): ModeConfig {
+    return this.config.modes[this.config.backtest.mode];
+  }
+
   /**
    * Convert to legacy BotConfig interface for compatibility
    */
@@ -444,12 +826,18 @@ export class ConfigManager extends EventEmitter {
       entryThreshold: mode.entryThreshold,
       maxEntryPrice: mode.maxEntryPrice,
       stopLoss: mode.stopLoss,
+      trailingStop: mode.trailingStop ?? 0,
+      trailingStopType: mode.trailingStopType ?? "absolute",
+      stopLossDelayMs: mode.stopLossDelayMs ?? 0,
+      stopLossConfirmTicks: mode.stopLossConfirmTicks ?? 0,
+      minSpotDistanceUsd: mode.minSpotDistanceUsd ?? 0,
+      minSpotDistanceSigma: mode.minSpotDistanceSigma ?? 0,
       maxSpread: mode.maxSpread,
       timeWindowMs: mode.timeWindowMs,
       pollIntervalMs: this.config.trading.pollIntervalMs,
       paperTrading: this.config.trading.paperTrading,
       paperBalance: this.config.trading.paperBalance,
-      riskMode: this.config.activeMode as RiskMode,
+      riskMode: this.config.activeMode,
       compoundLimit: this.config.profitTaking.compoundLimit,
       baseBalance: this.config.profitTaking.baseBalance,
       signatureType: this.config.wallet.signatureType,
@@ -479,6 +867,83 @@ export class ConfigManager extends EventEmitter {
     return this.config.advanced;
   }
 
+  /**
+   * Get position sizing configuration
+   */
+  getSizing(): SizingConfig {
+    return this.config.sizing;
+  }
+
+  /**
+   * Get re-entry policy configuration
+   */
+  getReentry(): ReentryConfig {
+    return this.config.reentry;
+  }
+
+  /**
+   * Get risk guard (circuit breaker) configuration
+   */
+  getRiskGuards(): RiskGuardConfig {
+    return this.config.riskGuards;
+  }
+
+  /**
+   * Get entry order configuration
+   */
+  getEntry(): EntryConfig {
+    return this.config.entry;
+  }
+
+  /**
+   * Get fee model configuration
+   */
+  getFees(): FeeConfig {
+    return this.config.fees;
+  }
+
+  /**
+   * Get BTC spot feed configuration
+   */
+  getSpot(): SpotConfig {
+    return this.config.spot;
+  }
+
+  /**
+   * Get shadow mode configuration
+   */
+  getShadow(): ShadowConfig {
+    return this.config.shadow;
+  }
+
+  /**
+   * Get Polymarket API base URLs
+   */
+  getEndpoints(): EndpointsConfig {
+    return this.config.endpoints;
+  }
+
+  /**
+   * Get the market family the bot trades
+   */
+  getMarketFamily(): MarketFamilyConfig {
+    return this.config.market;
+  }
+
+  /**
+   * Get live tick recorder configuration
+   */
+  getRecorder(): RecorderConfig {
+    return this.config.recorder;
+  }
+
+  /**
+   * Get feed watchdog configuration
+   */
+  getFeedHealth(): FeedHealthConfig {
+    return this.config.feedHealth;
+  }
+
   /**
    * Get backtest configuration
    */
@@ -486,6 +951,19 @@ export class ConfigManager extends EventEmitter {
     return this.config.backtest;
   }
 
+  /**
+   * Override settings in memory without touching the file (replays force paper trading)
+   * Throws if the result is invalid; no change event is emitted
+   */
+  applyOverrides(overrides: ConfigOverrides): void {
+    const merged = deepMerge(structuredClone(this.config), overrides as Partial<TradingConfigFile>);
+    const errors = validateConfig(merged);
+    if (errors.length > 0) {
+      throw new Error(`Invalid config override: ${errors.map(e => `${e.path}: ${e.message}`).join(", ")}`);
+    }
+    this.config = merged;
+  }
+
   /**
    * Register a callback for config changes
    */
@@ -1,15 +1,26 @@
 import { Database } from "bun:sqlite";
+import { systemClock, type Clock } from "./clock";
 
 let db: Database | null = null;
 let currentDbPath: string | null = null;
+let dbClock: Clock = systemClock; // Source of created/closed/updated timestamps
+
+/**
+ * Time source for the timestamps the database stamps on rows (replays use their simulated clock)
+ */
+export function setDatabaseClock(clock: Clock): void {
+  dbClock = clock;
+}
 
 /**
  * Initialize the database based on trading mode
  * - Real trading: trades_real.db
  * - Paper trading: trades_paper.db
+ * - Shadow mode (paper fills alongside a real account): trades_shadow.db
+ * - `path` overrides the file (replays write to their own database)
  */
-export function initDatabase(paperTrading: boolean): void {
-  const dbPath = paperTrading ? "trades_paper.db" : "trades_real.db";
+export function initDatabase(paperTrading: boolean, shadowMode = false, path?: string): void {
+  const dbPath = path ?? (paperTrading ? "trades_paper.db" : shadowMode ? "trades_shadow.db" : "trades_real.db");
 
   // Skip if already using this database
   if (currentDbPath === dbPath && db) {
@@ -42,17 +53,63 @@ export function initDatabase(paperTrading: boolean): void {
     )
   `);
 
-  // Add market_end_date column if it doesn't exist (for existing DBs)
-  try {
-    db.run("ALTER TABLE trades ADD COLUMN market_end_date TEXT");
-  } catch (err) {
-    // Column already exists - this is expected for existing databases
-    // Only log if it's an unexpected error
-    const errMsg = err instanceof Error ? err.message : String(err);
-    if (!errMsg.includes("duplicate column")) {
-      console.warn(`[DB] ALTER TABLE warning: ${errMsg}`);
-    }
-  }
+  // Add columns that older databases don't have yet
+  addColumnIfMissing(db, "trades", "market_end_date TEXT");
+  addColumnIfMissing(db, "trades", "fees REAL NOT NULL DEFAULT 0");
+  addColumnIfMissing(db, "trades", "gross_pnl REAL");
+
+  // Order lifecycle (every order placed on the exchange, for auditing how trades executed)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS orders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id TEXT NOT NULL UNIQUE,
+      trade_id INTEGER,
+      token_id TEXT NOT NULL,
+      side TEXT NOT NULL,
+      price REAL NOT NULL,
+      size REAL NOT NULL,
+      filled_size REAL NOT NULL DEFAULT 0,
+      avg_price REAL,
+      status TEXT NOT NULL DEFAULT 'PLACED',
+      placed_at TEXT NOT NULL,
+      partial_at TEXT,
+      filled_at TEXT,
+      cancelled_at TEXT
+    )
+  `);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_trade ON orders(trade_id)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_orders_token ON orders(token_id, placed_at)`);
+
+  // Risk guard state (single row) so a circuit breaker halt survives restarts
+  db.run(`
+    CREATE TABLE IF NOT EXISTS risk_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      halt_reason TEXT,
+      halted_at TEXT,
+      halted_until TEXT,
+      peak_equity REAL NOT NULL DEFAULT 0,
+      reset_at TEXT NOT NULL
+    )
+  `);
+
+  // Shadow mode: paper fills compared with the live book over the following seconds
+  db.run(`
+    CREATE TABLE IF NOT EXISTS shadow_fills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id TEXT NOT NULL,
+      token_id TEXT NOT NULL,
+      side TEXT NOT NULL,
+      shares REAL NOT NULL,
+      paper_price REAL NOT NULL,
+      window_ms INTEGER NOT NULL,
+      samples INTEGER NOT NULL,
+      book_end_price REAL,
+      book_best_price REAL,
+      book_worst_price REAL,
+      fillable INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
 
   // Activity logs table for persistent logging
   db.run(`
@@ -77,6 +134,22 @@ export function initDatabase(paperTrading: boolean): void {
   console.log(`Database initialized: ${dbPath}`);
 }
 
+/**
+ * Add a column to an existing table (no-op when it already exists)
+ */
+function addColumnIfMissing(database: Database, table: string, columnDef: string): void {
+  try {
+    database.run(`ALTER TABLE ${table} ADD COLUMN ${columnDef}`);
+  } catch (err) {
+    // Column already exists - this is expected for existing databases
+    // Only log if it's an unexpected error
+    const errMsg = err instanceof Error ? err.message : String(err);
+    if (!errMsg.includes("duplicate column")) {
+      console.warn(`[DB] ALTER TABLE warning: ${errMsg}`);
+    }
+  }
+}
+
 export function getDbPath(): string {
   return currentDbPath || "not initialized";
 }
@@ -98,18 +171,22 @@ export interface Trade {
   shares: number;
   cost_basis: number;
   status: "OPEN" | "STOPPED" | "RESOLVED";
-  pnl: number | null;
+  pnl: number | null;        // Net of fees
+  gross_pnl: number | null;  // Before fees
+  fees: number;              // Entry fee, plus the exit fee once closed (USDC)
   created_at: string;
   closed_at: string | null;
   market_end_date: string | null;
 }
 
-export function insertTrade(trade: Omit<Trade, "id" | "exit_price" | "pnl" | "closed_at" | "status">): number {
+export function insertTrade(
+  trade: Omit<Trade, "id" | "exit_price" | "pnl" | "gross_pnl" | "fees" | "closed_at" | "status"> & { fees?: number }
+): number {
   try {
     const database = ensureDb();
     const stmt = database.prepare(`
-      INSERT INTO trades (market_slug, token_id, side, entry_price, shares, cost_basis, status, created_at, market_end_date)
-      VALUES (?, ?, ?, ?, ?, ?, 'OPEN', ?, ?)
+      INSERT INTO trades (market_slug, token_id, side, entry_price, shares, cost_basis, fees, status, created_at, market_end_date)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'OPEN', ?, ?)
     `);
     const result = stmt.run(
       trade.market_slug,
@@ -118,6 +195,7 @@ export function insertTrade(trade: Omit<Trade, "id" | "exit_price" | "pnl" | "cl
       trade.entry_price,
       trade.shares,
       trade.cost_basis,
+      trade.fees ?? 0,
       trade.created_at,
       trade.market_end_date
     );
@@ -128,7 +206,10 @@ export function insertTrade(trade: Omit<Trade, "id" | "exit_price" | "pnl" | "cl
   }
 }
 
-export function closeTrade(id: number, exitPrice: number, status: "STOPPED" | "RESOLVED"): void {
+/**
+ * Close a trade at an exit price (before fees); PnL is stored gross and net of entry + exit fees
+ */
+export function closeTrade(id: number, exitPrice: number, status: "STOPPED" | "RESOLVED", exitFee = 0): void {
   try {
     const trade = getTradeById(id);
     if (!trade) {
@@ -137,18 +218,28 @@ export function closeTrade(id: number, exitPrice: number, status: "STOPPED" | "R
     }
 
     const database = ensureDb();
-    const pnl = (exitPrice - trade.entry_price) * trade.shares;
+    const grossPnl = (exitPrice - trade.entry_price) * trade.shares;
+    const fees = (trade.fees ?? 0) + exitFee;
     const stmt = database.prepare(`
-      UPDATE trades SET exit_price = ?, status = ?, pnl = ?, closed_at = ?
+      UPDATE trades SET exit_price = ?, status = ?, pnl = ?, gross_pnl = ?, fees = ?, closed_at = ?
       WHERE id = ?
     `);
-    stmt.run(exitPrice, status, pnl, new Date().toISOString(), id);
+    stmt.run(exitPrice, status, grossPnl - fees, grossPnl, fees, new Date(dbClock.now()).toISOString(), id);
   } catch (err) {
     console.error(`[DB] CRITICAL: Failed to close trade ${id}: ${err instanceof Error ? err.message : err}`);
     throw err; // Re-throw to ensure caller knows trade wasn't closed
   }
 }
 
+/**
+ * Correct the share count of an open trade (e.g. to the exchange balance after reconciliation)
+ */
+export function updateTradeShares(id: number, shares: number): void {
+  const database = ensureDb();
+  const stmt = database.prepare("UPDATE trades SET shares = ? WHERE id = ? AND status = 'OPEN'");
+  stmt.run(shares, id);
+}
+
 export function getTradeById(id: number): Trade | null {
   const database = ensureDb();
   const stmt = database.prepare("SELECT * FROM trades WHERE id = ?");
@@ -215,6 +306,302 @@ export function getLastWinningTradeInMarket(marketSlug: string, side: "UP" | "DO
   return stmt.get(marketSlug, side) as Trade | null;
 }
 
+/**
+ * Get the last losing trade for a specific side in a specific market
+ * Used by the re-entry policy (allowSameSideAfterLoss)
+ */
+export function getLastLosingTradeInMarket(marketSlug: string, side: "UP" | "DOWN"): Trade | null {
+  const database = ensureDb();
+  const stmt = database.prepare(`
+    SELECT * FROM trades
+    WHERE market_slug = ? AND side = ? AND status != 'OPEN' AND pnl < 0
+    ORDER BY closed_at DESC LIMIT 1
+  `);
+  return stmt.get(marketSlug, side) as Trade | null;
+}
+
+/**
+ * Get the last stop-loss exit in a specific market
+ * Used by the re-entry policy (stopLossCooldownMs)
+ */
+export function getLastStoppedTradeInMarket(marketSlug: string): Trade | null {
+  const database = ensureDb();
+  const stmt = database.prepare(`
+    SELECT * FROM trades
+    WHERE market_slug = ? AND status = 'STOPPED'
+    ORDER BY closed_at DESC LIMIT 1
+  `);
+  return stmt.get(marketSlug) as Trade | null;
+}
+
+/**
+ * Count trades (open or closed) entered in a specific market
+ */
+export function countTradesInMarket(marketSlug: string): number {
+  const database = ensureDb();
+  const stmt = database.prepare("SELECT COUNT(*) as count FROM trades WHERE market_slug = ?");
+  return (stmt.get(marketSlug) as { count: number }).count;
+}
+
+/**
+ * Count trades (open or closed) entered at or after a given time
+ */
+export function countTradesSince(since: Date): number {
+  const database = ensureDb();
+  const stmt = database.prepare("SELECT COUNT(*) as count FROM trades WHERE created_at >= ?");
+  return (stmt.get(since.toISOString()) as { count: number }).count;
+}
+
+/**
+ * Sum of realized PnL for trades closed at or after a given time
+ * Used by the risk guards (maxDailyLossUsdc)
+ */
+export function getRealizedPnlSince(since: Date): number {
+  const database = ensureDb();
+  const stmt = database.prepare(`
+    SELECT COALESCE(SUM(pnl), 0) as total FROM trades
+    WHERE status != 'OPEN' AND pnl IS NOT NULL AND closed_at >= ?
+  `);
+  return (stmt.get(since.toISOString()) as { total: number }).total;
+}
+
+/**
+ * Count consecutive losing trades (most recent first) closed at or after a given time
+ * Used by the risk guards (maxConsecutiveLosses)
+ */
+export function countLosingStreakSince(since: Date): number {
+  const database = ensureDb();
+  const stmt = database.prepare(`
+    SELECT pnl FROM trades
+    WHERE status != 'OPEN' AND pnl IS NOT NULL AND closed_at >= ?
+    ORDER BY closed_at DESC
+  `);
+  let streak = 0;
+  for (const row of stmt.all(since.toISOString()) as { pnl: number }[]) {
+    if (row.pnl >= 0) break;
+    streak++;
+  }
+  return streak;
+}
+
+// ============================================================================
+// RISK STATE
+// ============================================================================
+
+export interface RiskStateRow {
+  id: number;
+  halt_reason: string | null;
+  halted_at: string | null;
+  halted_until: string | null;
+  peak_equity: number;
+  reset_at: string;
+}
+
+export function getRiskState(): RiskStateRow | null {
+  const database = ensureDb();
+  return database.prepare("SELECT * FROM risk_state WHERE id = 1").get() as RiskStateRow | null;
+}
+
+export function saveRiskState(state: {
+  haltReason: string | null;
+  haltedAt: Date | null;
+  haltedUntil: Date | null;
+  peakEquity: number;
+  resetAt: Date;
+}): void {
+  const database = ensureDb();
+  database.prepare(`
+    INSERT INTO risk_state (id, halt_reason, halted_at, halted_until, peak_equity, reset_at)
+    VALUES (1, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      halt_reason = excluded.halt_reason,
+      halted_at = excluded.halted_at,
+      halted_until = excluded.halted_until,
+      peak_equity = excluded.peak_equity,
+      reset_at = excluded.reset_at
+  `).run(
+    state.haltReason,
+    state.haltedAt?.toISOString() ?? null,
+    state.haltedUntil?.toISOString() ?? null,
+    state.peakEquity,
+    state.resetAt.toISOString()
+  );
+}
+
+// ============================================================================
+// SHADOW FILLS
+// ============================================================================
+
+export interface ShadowFillRow {
+  id: number;
+  order_id: string;
+  token_id: string;
+  side: OrderSide;
+  shares: number;
+  paper_price: number;
+  window_ms: number;
+  samples: number;
+  book_end_price: number | null;
+  book_best_price: number | null;
+  book_worst_price: number | null;
+  fillable: number;  // 1 if the full size was available at the paper price or better
+  created_at: string;
+}
+
+/**
+ * Store a shadow mode comparison (never throws - comparisons are diagnostic only)
+ */
+export function insertShadowFill(fill: {
+  orderId: string;
+  tokenId: string;
+  side: OrderSide;
+  shares: number;
+  paperPrice: number;
+  windowMs: number;
+  samples: number;
+  bookEndPrice: number | null;
+  bookBestPrice: number | null;
+  bookWorstPrice: number | null;
+  fillable: boolean;
+}): void {
+  try {
+    const database = ensureDb();
+    database.prepare(`
+      INSERT INTO shadow_fills (order_id, token_id, side, shares, paper_price, window_ms, samples,
+        book_end_price, book_best_price, book_worst_price, fillable, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      fill.orderId,
+      fill.tokenId,
+      fill.side,
+      fill.shares,
+      fill.paperPrice,
+      fill.windowMs,
+      fill.samples,
+      fill.bookEndPrice,
+      fill.bookBestPrice,
+      fill.bookWorstPrice,
+      fill.fillable ? 1 : 0,
+      new Date(dbClock.now()).toISOString()
+    );
+  } catch (err) {
+    console.error(`[DB] Failed to record shadow fill: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+export type OrderSide = "BUY" | "SELL";
+export type OrderStatus = "PLACED" | "PARTIAL" | "FILLED" | "CANCELLED";
+
+export interface OrderRow {
+  id: number;
+  order_id: string;
+  trade_id: number | null;
+  token_id: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  filled_size: number;
+  avg_price: number | null;
+  status: OrderStatus;
+  placed_at: string;
+  partial_at: string | null;
+  filled_at: string | null;
+  cancelled_at: string | null;
+}
+
+/**
+ * Record a newly placed order (ignored if the order is already recorded)
+ * Order bookkeeping never throws - a failed audit write must not break trading
+ */
+export function recordOrderPlaced(order: { orderId: string; tokenId: string; side: OrderSide; price: number; size: number }): void {
+  if (!order.orderId) return;
+  try {
+    const database = ensureDb();
+    database.prepare(`
+      INSERT OR IGNORE INTO orders (order_id, token_id, side, price, size, placed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(order.orderId, order.tokenId, order.side, order.price, order.size, new Date(dbClock.now()).toISOString());
+  } catch (err) {
+    console.warn(`[DB] Failed to record order: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Record an order's cumulative filled size (only ever increases; sets the partial/filled timestamps)
+ */
+export function recordOrderFill(orderId: string, filledSize: number, avgPrice?: number): void {
+  if (!orderId || !Number.isFinite(filledSize) || filledSize <= 0) return;
+  try {
+    const database = ensureDb();
+    const order = database.prepare("SELECT * FROM orders WHERE order_id = ?").get(orderId) as OrderRow | null;
+    if (!order || filledSize <= order.filled_size) return;
+
+    const now = new Date(dbClock.now()).toISOString();
+    const filled = filledSize >= order.size * 0.99;
+    // A full fill wins over a cancel that raced it; a partial fill keeps an earlier cancel
+    const status: OrderStatus = filled ? "FILLED" : order.status === "CANCELLED" ? "CANCELLED" : "PARTIAL";
+    database.prepare(`
+      UPDATE orders SET filled_size = ?, avg_price = ?, status = ?, partial_at = ?, filled_at = ?
+      WHERE order_id = ?
+    `).run(
+      filledSize,
+      avgPrice && avgPrice > 0 ? avgPrice : order.avg_price,
+      status,
+      order.partial_at ?? (filled ? null : now),
+      order.filled_at ?? (filled ? now : null),
+      orderId
+    );
+  } catch (err) {
+    console.warn(`[DB] Failed to record order fill: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Mark an order cancelled (a fully filled order stays FILLED)
+ */
+export function recordOrderCancelled(orderId: string): void {
+  if (!orderId) return;
+  try {
+    const database = ensureDb();
+    database.prepare(`
+      UPDATE orders SET status = CASE WHEN status = 'FILLED' THEN status ELSE 'CANCELLED' END,
+        cancelled_at = COALESCE(cancelled_at, ?)
+      WHERE order_id = ?
+    `).run(new Date(dbClock.now()).toISOString(), orderId);
+  } catch (err) {
+    console.warn(`[DB] Failed to record order cancel: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Attach a trade to the unlinked orders placed for its token and side since `since` (ISO time)
+ * Entries and exits can take several orders (retries, maker reprices)
+ */
+export function linkOrdersToTrade(tokenId: string, side: OrderSide, tradeId: number, since: string): void {
+  try {
+    const database = ensureDb();
+    database.prepare(`
+      UPDATE orders SET trade_id = ?
+      WHERE token_id = ? AND side = ? AND trade_id IS NULL AND placed_at >= ?
+    `).run(tradeId, tokenId, side, since);
+  } catch (err) {
+    console.warn(`[DB] Failed to link orders to trade ${tradeId}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * All orders behind a trade, oldest first
+ */
+export function getOrdersForTrade(tradeId: number): OrderRow[] {
+  const database = ensureDb();
+  const stmt = database.prepare("SELECT * FROM orders WHERE trade_id = ? ORDER BY placed_at ASC, id ASC");
+  return stmt.all(tradeId) as OrderRow[];
+}
+
 // ============================================================================
 // ACTIVITY LOGS
 // ============================================================================
@@ -248,7 +635,7 @@ export interface LogEntry {
 export function insertLog(entry: LogEntry): number {
   try {
     const database = ensureDb();
-    const now = new Date();
+    const now = new Date(dbClock.now());
     const stmt = database.prepare(`
       INSERT INTO activity_logs (timestamp, timestamp_unix, message, level, market_slug, token_id, trade_id, metadata)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
@@ -345,7 +732,7 @@ export function getLogStats(): { level: string; count: number }[] {
  */
 export function clearOldLogs(daysToKeep = 30): number {
   const database = ensureDb();
-  const cutoff = Date.now() - (daysToKeep * 24 * 60 * 60 * 1000);
+  const cutoff = dbClock.now() - (daysToKeep * 24 * 60 * 60 * 1000);
   const stmt = database.prepare(`
     DELETE FROM activity_logs
     WHERE timestamp_unix < ?
@@ -370,6 +757,40 @@ export function clearAllLogs(): void {
 let backtestDb: Database | null = null;
 const BACKTEST_DB_PATH = "backtest.db";
 
+const PRICE_HISTORY_COLUMNS = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token_id TEXT NOT NULL,
+  market_slug TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  best_bid REAL NOT NULL,
+  best_ask REAL NOT NULL,
+  mid_price REAL NOT NULL,
+  source TEXT NOT NULL DEFAULT 'prices-history',
+  recorded INTEGER NOT NULL DEFAULT 0,
+  seq INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(token_id, timestamp, seq)
+`;
+
+/**
+ * Rebuild a price_history table keyed on (token_id, timestamp), which kept only one recorded
+ * tick per millisecond, with the (token_id, timestamp, seq) key
+ */
+function migratePriceHistoryKey(database: Database): void {
+  const table = database.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'price_history'").get() as { sql: string } | null;
+  if (!table || table.sql.includes("seq")) return;
+
+  database.transaction(() => {
+    database.run(`CREATE TABLE price_history_new (${PRICE_HISTORY_COLUMNS})`);
+    database.run(`
+      INSERT INTO price_history_new (id, token_id, market_slug, timestamp, best_bid, best_ask, mid_price, source, recorded, seq)
+      SELECT id, token_id, market_slug, timestamp, best_bid, best_ask, mid_price, source, recorded, recorded FROM price_history
+    `);
+    database.run("DROP TABLE price_history");
+    database.run("ALTER TABLE price_history_new RENAME TO price_history");
+  })();
+  console.log("[DB] Migrated price_history to allow several recorded ticks per millisecond");
+}
+
 /**
  * Initialize the backtest database with all required tables
  */
@@ -378,23 +799,31 @@ export function initBacktestDatabase(): void {
 
   backtestDb = new Database(BACKTEST_DB_PATH);
 
-  // Historical price data for replay
+  // Historical price data for replay: synthetic ticks from /prices-history mids, or ticks
+  // recorded live by the bot (real best bid/ask; `source` is the PriceUpdate source)
+  // `seq` numbers recorded ticks sharing a millisecond (1, 2, ...); synthetic ticks are seq 0
+  backtestDb.run(`CREATE TABLE IF NOT EXISTS price_history (${PRICE_HISTORY_COLUMNS})`);
+  addColumnIfMissing(backtestDb, "price_history", "source TEXT NOT NULL DEFAULT 'prices-history'");
+  addColumnIfMissing(backtestDb, "price_history", "recorded INTEGER NOT NULL DEFAULT 0");
+  migratePriceHistoryKey(backtestDb);
+
+  // Create indexes for fast queries
+  backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_price_history_token_ts ON price_history(token_id, timestamp)`);
+  backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_price_history_slug ON price_history(market_slug)`);
+
+  // Trades from the live trade tape (recorded by the bot; side is the aggressor, NULL if unknown)
   backtestDb.run(`
-    CREATE TABLE IF NOT EXISTS price_history (
+    CREATE TABLE IF NOT EXISTS trade_tape (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       token_id TEXT NOT NULL,
       market_slug TEXT NOT NULL,
       timestamp INTEGER NOT NULL,
-      best_bid REAL NOT NULL,
-      best_ask REAL NOT NULL,
-      mid_price REAL NOT NULL,
-      UNIQUE(token_id, timestamp)
+      price REAL NOT NULL,
+      size REAL NOT NULL,
+      side TEXT
     )
   `);
-
-  // Create indexes for fast queries
-  backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_price_history_token_ts ON price_history(token_id, timestamp)`);
-  backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_price_history_slug ON price_history(market_slug)`);
+  backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_trade_tape_ts ON trade_tape(timestamp)`);
 
   // Historical market metadata
   backtestDb.run(`
@@ -439,9 +868,13 @@ export function initBacktestDatabase(): void {
       exit_timestamp INTEGER,
       exit_reason TEXT,
       pnl REAL,
+      gross_pnl REAL,
+      fees REAL NOT NULL DEFAULT 0,
       FOREIGN KEY (run_id) REFERENCES backtest_runs(id)
     )
   `);
+  addColumnIfMissing(backtestDb, "backtest_trades", "gross_pnl REAL");
+  addColumnIfMissing(backtestDb, "backtest_trades", "fees REAL NOT NULL DEFAULT 0");
 
   backtestDb.run(`CREATE INDEX IF NOT EXISTS idx_backtest_trades_run ON backtest_trades(run_id)`);
 
@@ -467,8 +900,14 @@ export interface PriceHistoryRow {
   best_bid: number;
   best_ask: number;
   mid_price: number;
+  source: string;    // "prices-history" (synthetic) or the recorded PriceUpdate source
+  recorded: number;  // 1 = recorded live by the bot
+  seq: number;       // Order among recorded ticks in the same millisecond (0 = synthetic)
 }
 
+/**
+ * Store synthetic ticks (never added at a timestamp that has recorded ticks)
+ */
 export function storePriceTicks(
   marketSlug: string,
   tokenId: string,
@@ -476,8 +915,14 @@ export function storePriceTicks(
 ): void {
   const database = ensureBacktestDb();
   const stmt = database.prepare(`
-    INSERT OR REPLACE INTO price_history (token_id, market_slug, timestamp, best_bid, best_ask, mid_price)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO price_history (token_id, market_slug, timestamp, best_bid, best_ask, mid_price)
+    SELECT ?1, ?2, ?3, ?4, ?5, ?6
+    WHERE NOT EXISTS (SELECT 1 FROM price_history WHERE token_id = ?1 AND timestamp = ?3 AND recorded = 1)
+    ON CONFLICT(token_id, timestamp, seq) DO UPDATE SET
+      market_slug = excluded.market_slug,
+      best_bid = excluded.best_bid,
+      best_ask = excluded.best_ask,
+      mid_price = excluded.mid_price
   `);
 
   const insertMany = database.transaction(() => {
@@ -489,6 +934,92 @@ export function storePriceTicks(
   insertMany();
 }
 
+export interface RecordedTick {
+  tokenId: string;
+  marketSlug: string;
+  timestamp: number;
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  source: string;
+}
+
+/**
+ * Store ticks recorded live by the bot, in arrival order: every tick is kept, even several in
+ * the same millisecond, and replaces any synthetic tick at its timestamp
+ */
+export function storeRecordedTicks(ticks: RecordedTick[]): void {
+  const database = ensureBacktestDb();
+  const dropSynthetic = database.prepare(`
+    DELETE FROM price_history WHERE token_id = ? AND timestamp = ? AND recorded = 0
+  `);
+  const stmt = database.prepare(`
+    INSERT INTO price_history (token_id, market_slug, timestamp, best_bid, best_ask, mid_price, source, recorded, seq)
+    SELECT ?1, ?2, ?3, ?4, ?5, ?6, ?7, 1,
+      COALESCE((SELECT MAX(seq) FROM price_history WHERE token_id = ?1 AND timestamp = ?3), 0) + 1
+  `);
+
+  const insertMany = database.transaction(() => {
+    for (const tick of ticks) {
+      dropSynthetic.run(tick.tokenId, tick.timestamp);
+      stmt.run(tick.tokenId, tick.marketSlug, tick.timestamp, tick.bestBid, tick.bestAsk, tick.midPrice, tick.source);
+    }
+  });
+
+  insertMany();
+}
+
+export interface RecordedTrade {
+  tokenId: string;
+  marketSlug: string;
+  timestamp: number;
+  price: number;
+  size: number;
+  side: string | null;
+}
+
+export interface TradeTapeRow {
+  id: number;
+  token_id: string;
+  market_slug: string;
+  timestamp: number;
+  price: number;
+  size: number;
+  side: string | null;
+}
+
+/**
+ * Store trades recorded live from the trade tape
+ */
+export function storeRecordedTrades(trades: RecordedTrade[]): void {
+  const database = ensureBacktestDb();
+  const stmt = database.prepare(`
+    INSERT INTO trade_tape (token_id, market_slug, timestamp, price, size, side)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertMany = database.transaction(() => {
+    for (const trade of trades) {
+      stmt.run(trade.tokenId, trade.marketSlug, trade.timestamp, trade.price, trade.size, trade.side);
+    }
+  });
+
+  insertMany();
+}
+
+/**
+ * Recorded trades of every market in time order, streamed
+ */
+export function iterateRecordedTrades(startTs: number, endTs: number): IterableIterator<TradeTapeRow> {
+  const database = ensureBacktestDb();
+  const stmt = database.prepare(`
+    SELECT * FROM trade_tape
+    WHERE timestamp >= ? AND timestamp <= ?
+    ORDER BY timestamp ASC, id ASC
+  `);
+  return stmt.iterate(startTs, endTs) as IterableIterator<TradeTapeRow>;
+}
+
 export function loadPriceTicks(
   tokenId: string,
   startTs?: number,
@@ -508,16 +1039,34 @@ export function loadPriceTicks(
     params.push(endTs);
   }
 
-  query += " ORDER BY timestamp ASC";
+  query += " ORDER BY timestamp ASC, seq ASC";
 
   const stmt = database.prepare(query);
   return stmt.all(...params) as PriceHistoryRow[];
 }
 
-export function getPriceTickCount(marketSlug: string): number {
+/**
+ * Recorded ticks of every market in time order, streamed (replays can span days of ticks)
+ */
+export function iterateRecordedTicks(startTs: number, endTs: number): IterableIterator<PriceHistoryRow> {
+  const database = ensureBacktestDb();
+  const stmt = database.prepare(`
+    SELECT * FROM price_history
+    WHERE recorded = 1 AND timestamp >= ? AND timestamp <= ?
+    ORDER BY timestamp ASC, id ASC
+  `);
+  return stmt.iterate(startTs, endTs) as IterableIterator<PriceHistoryRow>;
+}
+
+/**
+ * Tick count for a market (all ticks, or only recorded / only synthetic ones)
+ */
+export function getPriceTickCount(marketSlug: string, recorded?: boolean): number {
   const database = ensureBacktestDb();
-  const stmt = database.prepare("SELECT COUNT(*) as count FROM price_history WHERE market_slug = ?");
-  const result = stmt.get(marketSlug) as { count: number };
+  const stmt = recorded === undefined
+    ? database.prepare("SELECT COUNT(*) as count FROM price_history WHERE market_slug = ?")
+    : database.prepare("SELECT COUNT(*) as count FROM price_history WHERE market_slug = ? AND recorded = ?");
+  const result = (recorded === undefined ? stmt.get(marketSlug) : stmt.get(marketSlug, recorded ? 1 : 0)) as { count: number };
   return result.count;
 }
 
@@ -550,8 +1099,9 @@ export function storeHistoricalMarket(market: {
   const stmt = database.prepare(`
     INSERT OR REPLACE INTO historical_markets
     (market_slug, question, start_date, end_date, up_token_id, down_token_id, outcome, fetched_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT outcome FROM historical_markets WHERE market_slug = ?)), ?)
   `);
+  // An outcome already known (e.g. recorded by the bot) survives a refetch that can't determine one
   stmt.run(
     market.slug,
     market.question || null,
@@ -560,10 +1110,47 @@ export function storeHistoricalMarket(market: {
     market.upTokenId,
     market.downTokenId,
     market.outcome || null,
-    new Date().toISOString()
+    market.slug,
+    new Date(dbClock.now()).toISOString()
   );
 }
 
+/**
+ * Add market metadata unless the market is already known (the recorder never overwrites fetched data)
+ */
+export function ensureHistoricalMarket(market: {
+  slug: string;
+  question?: string;
+  startDate: Date;
+  endDate: Date;
+  upTokenId: string;
+  downTokenId: string;
+}): void {
+  const database = ensureBacktestDb();
+  const stmt = database.prepare(`
+    INSERT OR IGNORE INTO historical_markets
+    (market_slug, question, start_date, end_date, up_token_id, down_token_id, outcome, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, NULL, ?)
+  `);
+  stmt.run(
+    market.slug,
+    market.question || null,
+    market.startDate.toISOString(),
+    market.endDate.toISOString(),
+    market.upTokenId,
+    market.downTokenId,
+    new Date(dbClock.now()).toISOString()
+  );
+}
+
+/**
+ * Record a market's winner if not already known
+ */
+export function setHistoricalMarketOutcome(slug: string, outcome: "UP" | "DOWN"): void {
+  const database = ensureBacktestDb();
+  database.prepare("UPDATE historical_markets SET outcome = ? WHERE market_slug = ? AND outcome IS NULL").run(outcome, slug);
+}
+
 export function getHistoricalMarket(slug: string): HistoricalMarketRow | null {
   const database = ensureBacktestDb();
   const stmt = database.prepare("SELECT * FROM historical_markets WHERE market_slug = ?");
@@ -619,7 +1206,7 @@ export function insertBacktestRun(
     name || null,
     JSON.stringify(config),
     marketsCount,
-    new Date().toISOString()
+    new Date(dbClock.now()).toISOString()
   );
   return Number(result.lastInsertRowid);
 }
@@ -632,7 +1219,7 @@ export function updateBacktestRunStatus(
   const stmt = database.prepare(`
     UPDATE backtest_runs SET status = ?, completed_at = ? WHERE id = ?
   `);
-  stmt.run(status, new Date().toISOString(), runId);
+  stmt.run(status, new Date(dbClock.now()).toISOString(), runId);
 }
 
 export function getBacktestRun(runId: number): BacktestRunRow | null {
@@ -663,7 +1250,9 @@ export interface BacktestTradeRow {
   entry_timestamp: number;
   exit_timestamp: number | null;
   exit_reason: string | null;
-  pnl: number | null;
+  pnl: number | null;        // Net of fees
+  gross_pnl: number | null;  // Before fees
+  fees: number;
 }
 
 export function insertBacktestTrade(
@@ -679,13 +1268,15 @@ export function insertBacktestTrade(
     exitTimestamp: number;
     exitReason: string;
     pnl: number;
+    grossPnl: number;
+    fees: number;
   }
 ): number {
   const database = ensureBacktestDb();
   const stmt = database.prepare(`
     INSERT INTO backtest_trades
-    (run_id, market_slug, token_id, side, entry_price, exit_price, shares, entry_timestamp, exit_timestamp, exit_reason, pnl)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (run_id, market_slug, token_id, side, entry_price, exit_price, shares, entry_timestamp, exit_timestamp, exit_reason, pnl, gross_pnl, fees)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   const result = stmt.run(
     runId,
@@ -698,7 +1289,9 @@ export function insertBacktestTrade(
     trade.entryTimestamp,
     trade.exitTimestamp,
     trade.exitReason,
-    trade.pnl
+    trade.pnl,
+    trade.grossPnl,
+    trade.fees
   );
   return Number(result.lastInsertRowid);
 }
@@ -735,6 +1328,7 @@ export function clearBacktestData(): void {
 export function clearHistoricalData(): void {
   const database = ensureBacktestDb();
   database.run("DELETE FROM price_history");
+  database.run("DELETE FROM trade_tape");
   database.run("DELETE FROM historical_markets");
   console.log("Historical market data cleared");
 }
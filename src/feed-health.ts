@@ -0,0 +1,193 @@
+/**
+ * Feed health watchdog
+ * The market WebSocket can stay connected while a token (or the whole stream) goes quiet, and
+ * prices older than advanced.wsPriceMaxAgeMs are then silently ignored. This tracks the last
+ * update of every subscribed token, polls the REST book for stale tokens with open positions so
+ * their exits are still checked, and resubscribes (then reconnects) a stalled stream
+ */
+
+import type { Clock, Scheduler, TimerHandle } from "./clock";
+import type { FeedHealthConfig } from "./config";
+import type { PriceStream } from "./websocket";
+
+// Freshness of one subscribed token
+export interface TokenFreshness {
+  tokenId: string;
+  updatedAt: number;     // Last WebSocket update (0 = none since subscribing)
+  ageMs: number;         // Since the last update, or since subscribing if none yet
+  stale: boolean;
+  hasPosition: boolean;
+  restPolledAt: number;  // Last REST fallback quote (0 = never)
+}
+
+export interface FeedHealthStats {
+  resubscribes: number;  // Stream stalls answered with a resubscribe
+  reconnects: number;    // Stream stalls answered with a reconnect
+  restPolls: number;     // REST quotes fetched for stale position tokens
+}
+
+export interface FeedHealthOptions {
+  stream: PriceStream;
+  clock: Clock;
+  scheduler: Scheduler;
+  positionTokens: () => string[];
+  fetchQuote: (tokenId: string) => Promise<{ bid: number; ask: number } | null>;  // REST fallback
+  onQuote: (tokenId: string, bid: number, ask: number) => Promise<void>;           // Polled quote for the exit checks
+  log: (message: string) => void;
+}
+
+export class FeedHealthMonitor {
+  private options: FeedHealthOptions;
+  private config: FeedHealthConfig | null = null;
+  private timer: TimerHandle | null = null;
+  private checking = false;
+  private startedAt = 0;
+  private connectedAt = 0;
+  private stall: { action: "resubscribe" | "reconnect"; at: number } | null = null; // Last stall action, until messages resume
+  private staleTokens: Set<string> = new Set(); // Position tokens logged as stale
+  private restPolledAt: Map<string, number> = new Map();
+  private stats: FeedHealthStats = { resubscribes: 0, reconnects: 0, restPolls: 0 };
+
+  constructor(options: FeedHealthOptions) {
+    this.options = options;
+    options.stream.onConnectionChange((connected) => {
+      if (connected) this.connectedAt = options.clock.now();
+    });
+  }
+
+  /**
+   * Check the feed every `config.checkIntervalMs`
+   */
+  start(config: FeedHealthConfig): void {
+    this.stop();
+    this.config = config;
+    this.startedAt = this.options.clock.now();
+    this.timer = this.options.scheduler.setInterval(() => this.check(), config.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.options.scheduler.clear(this.timer);
+      this.timer = null;
+    }
+    this.stall = null;
+    this.staleTokens.clear();
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * One watchdog pass: stream stall first, then per-token staleness
+   */
+  async check(): Promise<void> {
+    if (!this.config || this.checking) return;
+    this.checking = true;
+    try {
+      this.checkStream(this.config);
+      await this.checkTokens(this.config);
+    } catch (err) {
+      this.options.log(`[FEED] Health check failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Freshness of every subscribed token, stalest first
+   */
+  getFreshness(tokenStaleMs: number): TokenFreshness[] {
+    const now = this.options.clock.now();
+    const positions = new Set(this.options.positionTokens());
+    return this.options.stream.getTokenActivity()
+      .map(activity => {
+        const ageMs = Math.max(0, now - (activity.updatedAt || activity.subscribedAt));
+        return {
+          tokenId: activity.tokenId,
+          updatedAt: activity.updatedAt,
+          ageMs,
+          stale: ageMs >= tokenStaleMs,
+          hasPosition: positions.has(activity.tokenId),
+          restPolledAt: this.restPolledAt.get(activity.tokenId) ?? 0,
+        };
+      })
+      .sort((a, b) => b.ageMs - a.ageMs);
+  }
+
+  getStats(): FeedHealthStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * No message on a connected stream for streamStallMs: resubscribe everything, and if it is
+   * still silent another streamStallMs later, reconnect (repeated until messages resume)
+   */
+  private checkStream(config: FeedHealthConfig): void {
+    const { stream, clock, log } = this.options;
+    const lastMessageAt = stream.getLastMessageAt();
+    if (this.stall && lastMessageAt > this.stall.at) {
+      log(`[FEED] Market stream recovered after ${this.stall.action}`);
+      this.stall = null;
+    }
+    // A disconnected stream reconnects with its own backoff
+    if (!stream.isConnected() || stream.getSubscriptionCount() === 0) return;
+
+    const now = clock.now();
+    const quietSince = Math.max(lastMessageAt, this.connectedAt, this.startedAt, this.stall?.at ?? 0);
+    if (now - quietSince < config.streamStallMs) return;
+
+    const silentSec = Math.round((now - Math.max(lastMessageAt, this.connectedAt)) / 1000);
+    const tokenIds = stream.getTokenActivity().map(activity => activity.tokenId);
+    if (!this.stall && stream.resubscribe(tokenIds)) {
+      this.stall = { action: "resubscribe", at: now };
+      this.stats.resubscribes++;
+      log(`[FEED] No market messages for ${silentSec}s - resubscribing ${tokenIds.length} tokens`);
+    } else {
+      this.stall = { action: "reconnect", at: now };
+      this.stats.reconnects++;
+      log(`[FEED] No market messages for ${silentSec}s - reconnecting`);
+      stream.reconnect();
+    }
+  }
+
+  /**
+   * Poll the REST book for every stale token with an open position
+   */
+  private async checkTokens(config: FeedHealthConfig): Promise<void> {
+    const { clock, log } = this.options;
+    const freshness = this.getFreshness(config.tokenStaleMs);
+    const stale = freshness.filter(token => token.hasPosition && token.stale);
+
+    for (const tokenId of this.staleTokens) {
+      const token = freshness.find(t => t.tokenId === tokenId);
+      if (token?.hasPosition && token.stale) continue;
+      this.staleTokens.delete(tokenId);
+      if (token?.hasPosition) {
+        log(`[FEED] Position token ${tokenId.slice(0, 10)}... updating again`);
+      }
+    }
+
+    for (const token of stale) {
+      if (!this.staleTokens.has(token.tokenId)) {
+        this.staleTokens.add(token.tokenId);
+        log(`[FEED] No update for position token ${token.tokenId.slice(0, 10)}... in ${Math.round(token.ageMs / 1000)}s - polling REST`);
+      }
+      try {
+        const quote = await this.options.fetchQuote(token.tokenId);
+        if (!quote) continue;
+        this.restPolledAt.set(token.tokenId, clock.now());
+        this.stats.restPolls++;
+        await this.options.onQuote(token.tokenId, quote.bid, quote.ask);
+      } catch (err) {
+        log(`[FEED] REST poll failed for ${token.tokenId.slice(0, 10)}...: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    // Forget polls of closed positions
+    const positions = new Set(this.options.positionTokens());
+    for (const tokenId of this.restPolledAt.keys()) {
+      if (!positions.has(tokenId)) this.restPolledAt.delete(tokenId);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Fee model
+ * Maker/taker fee rates with an optional price curve; shared by paper trading,
+ * the backtest engine and PnL reporting
+ */
+
+import type { FeeConfig } from "./config";
+
+// Whether a fill added liquidity (resting limit order) or took it
+export type Liquidity = "maker" | "taker";
+
+/**
+ * Fee as a fraction of notional for a fill at `price`
+ * "flat": the rate itself; "polymarket": rate x min(price, 1 - price) per share, so fees
+ * shrink towards $0 and $1
+ */
+export function feeRate(config: FeeConfig, liquidity: Liquidity, price: number): number {
+  const rate = liquidity === "maker" ? config.makerRate : config.takerRate;
+  if (rate <= 0 || price <= 0 || price >= 1) return 0;
+  if (config.curve === "polymarket") {
+    return (rate * Math.min(price, 1 - price)) / price;
+  }
+  return rate;
+}
+
+/**
+ * Buy `usdc` worth at `price`; the fee is taken from the shares received
+ */
+export function applyBuyFee(config: FeeConfig, liquidity: Liquidity, price: number, usdc: number): { shares: number; fee: number } {
+  const rate = feeRate(config, liquidity, price);
+  return { shares: (usdc / price) * (1 - rate), fee: usdc * rate };
+}
+
+/**
+ * Sell `shares` at `price`; the fee is taken from the USDC received
+ */
+export function applySellFee(config: FeeConfig, liquidity: Liquidity, price: number, shares: number): { proceeds: number; fee: number } {
+  const fee = feeRate(config, liquidity, price) * price * shares;
+  return { proceeds: price * shares - fee, fee };
+}
+
+/**
+ * Short description of a fee model for logs and reports
+ */
+export function describeFees(config: FeeConfig): string {
+  if (config.takerRate <= 0 && config.makerRate <= 0) return "none";
+  const rates = `taker ${(config.takerRate * 100).toFixed(2)}%, maker ${(config.makerRate * 100).toFixed(2)}%`;
+  return config.curve === "polymarket" ? `${rates} x min(p, 1-p)` : rates;
+}
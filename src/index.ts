@@ -48,7 +48,7 @@ async function main() {
 
     if (bot) {
       try {
-        bot.stop();
+        bot.shutdown();
         console.log("Bot stopped");
 
         const state = bot.getState();
@@ -77,7 +77,7 @@ async function main() {
   console.log(`Mode: ${config.riskMode}`);
 
   // Initialize database based on mode
-  initDatabase(config.paperTrading);
+  initDatabase(config.paperTrading, configManager.getShadow().enabled);
 
   // In paper trading mode, use a placeholder key (no real transactions)
   // For real trading, PRIVATE_KEY is validated at startup
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { ManualClock, ManualScheduler, settle } from "./clock";
+import type { EntryConfig } from "./config";
+import { makerBidPrice, runMakerEntry, type MakerEntryResult } from "./maker";
+import type { BookSnapshot } from "./orderbook";
+import { PaperVenue } from "./venue";
+
+const TOKEN = "token-up";
+const START = Date.parse("2026-01-01T15:40:00Z");
+const CONFIG: EntryConfig = { orderType: "maker", makerTimeoutMs: 30000, makerImproveTicks: 0, makerRepriceMs: 1000 };
+
+let clock: ManualClock;
+let scheduler: ManualScheduler;
+let book: BookSnapshot;
+let venue: PaperVenue;
+let wanted: boolean;
+let logs: { at: number; message: string }[];
+
+function setBook(bid: number, ask: number): void {
+  book = { tokenId: TOKEN, bids: [{ price: bid, size: 100 }], asks: [{ price: ask, size: 100 }], timestamp: clock.now() };
+}
+
+/**
+ * Start a maker entry for $10 and let it post its first bid; `done()` has the result once it
+ * returns and `finishedAt()` the simulated ms it took
+ */
+async function startEntry(config: EntryConfig = CONFIG) {
+  let result: MakerEntryResult | null = null;
+  let finishedAt: number | null = null;
+  const run = runMakerEntry(venue, { tokenId: TOKEN, usdc: 10, maxPrice: 0.98 }, config, {
+    getQuote: async () => ({ bid: book.bids[0].price, ask: book.asks[0].price }),
+    getTickSize: () => 0.01,
+    stillWanted: () => wanted,
+    log: (message) => logs.push({ at: clock.now() - START, message }),
+    clock,
+    scheduler,
+  }).then(r => {
+    result = r;
+    finishedAt = clock.now() - START;
+  });
+  await settle();
+  return { run, done: () => result, finishedAt: () => finishedAt };
+}
+
+beforeEach(() => {
+  clock = new ManualClock(START);
+  scheduler = new ManualScheduler(clock);
+  setBook(0.94, 0.96);
+  venue = new PaperVenue({
+    balance: 100,
+    fees: () => ({ takerRate: 0.01, makerRate: 0, curve: "flat" }),
+    resolveWinner: async () => null,
+    getBook: () => book,
+    log: () => {},
+  });
+  wanted = true;
+  logs = [];
+});
+
+describe("makerBidPrice", () => {
+  test("joins or improves the bid but stays a tick under the ask", () => {
+    expect(makerBidPrice(0.94, 0.96, 0.01, 0)).toBe(0.94);
+    expect(makerBidPrice(0.94, 0.96, 0.01, 1)).toBe(0.95);
+    expect(makerBidPrice(0.94, 0.96, 0.01, 5)).toBe(0.95);
+    expect(makerBidPrice(0, 0.96, 0.01, 0)).toBeNull();
+  });
+});
+
+describe("runMakerEntry on a simulated clock", () => {
+  test("cancels an unfilled bid once makerTimeoutMs has passed", async () => {
+    const entry = await startEntry();
+    expect(logs.map(l => l.message)).toEqual(["[MAKER] Bid 10.63 shares @ $0.94 (ask $0.96)"]);
+
+    await scheduler.advance(29500);
+    expect(entry.done()).toBeNull();
+
+    await scheduler.advance(500);
+    await entry.run;
+    expect(entry.done()).toEqual({ fill: null, reason: "timed out after 30s" });
+    expect(entry.finishedAt()).toBe(30000);
+    expect(scheduler.pending()).toBe(0);
+  });
+
+  test("reprices no more often than makerRepriceMs", async () => {
+    await startEntry();
+    await scheduler.advance(300);
+    setBook(0.95, 0.97);
+    await scheduler.advance(2000);
+
+    expect(logs.filter(l => l.message.startsWith("[MAKER] Repricing"))).toEqual([
+      { at: 1000, message: "[MAKER] Repricing bid $0.94 -> $0.95" },
+    ]);
+  });
+
+  test("returns the fill at the next poll once the ask comes down to the bid", async () => {
+    const entry = await startEntry();
+    await scheduler.advance(1200);
+    setBook(0.93, 0.94);
+    await scheduler.advance(1000);
+    await entry.run;
+
+    expect(entry.done()?.reason).toBe("filled");
+    expect(entry.done()?.fill).toMatchObject({ shares: 10.63, price: 0.94, fee: 0 });
+    expect(entry.finishedAt()).toBe(1500);
+  });
+
+  test("stops at the next poll when the entry signal goes away", async () => {
+    const entry = await startEntry();
+    await scheduler.advance(2100);
+    wanted = false;
+    await scheduler.advance(1000);
+    await entry.run;
+
+    expect(entry.done()).toEqual({ fill: null, reason: "entry signal gone" });
+    expect(entry.finishedAt()).toBe(2500);
+  });
+});
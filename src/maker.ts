@@ -0,0 +1,153 @@
+/**
+ * Maker entries
+ * Rest a limit bid at (or a few ticks above) the best bid instead of buying at the ask,
+ * repricing as the book moves, until it fills, times out or the entry signal goes away
+ */
+
+import { sleep, systemClock, systemScheduler, type Clock, type Scheduler } from "./clock";
+import type { EntryConfig } from "./config";
+import { MIN_ORDER_SIZE } from "./trader";
+import type { EntryFill, ExecutionVenue, VenueLog } from "./venue";
+
+const DEFAULT_TICK_SIZE = 0.01;
+const POLL_INTERVAL_MS = 500;
+
+export interface MakerEntryOrder {
+  tokenId: string;
+  usdc: number;      // USDC to spend in total (across reprices)
+  maxPrice: number;  // Never bid above this (the mode's max entry price)
+}
+
+export interface MakerEntryDeps {
+  /** Current best bid/ask, or null if unknown */
+  getQuote(): Promise<{ bid: number; ask: number } | null>;
+  /** Tick size for the token, or null to use the default 0.01 */
+  getTickSize(): number | null;
+  /** Whether the entry signal still holds (re-checked every poll) */
+  stillWanted(): boolean;
+  log: VenueLog;
+  clock?: Clock;          // Timeout and reprice timing (system clock by default)
+  scheduler?: Scheduler;  // Poll delay (system timers by default)
+}
+
+export interface MakerEntryResult {
+  fill: EntryFill | null;  // Combined fill across all reprices (null if nothing filled)
+  reason: string;          // Why the order stopped working
+}
+
+/**
+ * Passive bid price: best bid plus `improveTicks`, kept at least one tick under the ask
+ * so the order rests instead of taking. Null if there is no bid to join.
+ */
+export function makerBidPrice(bestBid: number, bestAsk: number, tickSize: number, improveTicks: number): number | null {
+  if (bestBid <= 0) return null;
+  const tick = tickSize > 0 ? tickSize : DEFAULT_TICK_SIZE;
+  const price = Math.min(bestBid + improveTicks * tick, bestAsk - tick);
+  // Snap down to the tick grid (rounded to avoid float noise like 0.9400000001)
+  const snapped = Number((Math.floor(price / tick + 1e-9) * tick).toFixed(4));
+  if (snapped < tick || snapped > 1 - tick) return null;
+  return snapped;
+}
+
+/**
+ * Work a maker entry until it fills, times out or the signal goes away
+ * Partial fills are kept; the remaining USDC is re-bid at each new price
+ */
+export async function runMakerEntry(
+  venue: ExecutionVenue,
+  order: MakerEntryOrder,
+  config: EntryConfig,
+  deps: MakerEntryDeps
+): Promise<MakerEntryResult> {
+  const clock = deps.clock ?? systemClock;
+  const scheduler = deps.scheduler ?? systemScheduler;
+  const startedAt = clock.now();
+  let filledShares = 0;
+  let filledCost = 0;
+  let filledFee = 0; // USDC value of shares taken as maker fees
+  let lastOrderId = "";
+  let active: { orderId: string; price: number; shares: number } | null = null;
+  let lastPostAt = 0;
+  let reason = "";
+
+  // Cancel the working bid and bank whatever filled
+  const settleActive = async () => {
+    if (!active) return;
+    const { orderId } = active;
+    active = null;
+    await venue.cancel(orderId);
+    const fill = await venue.getFill(orderId);
+    if (fill && fill.filledShares > 0) {
+      filledShares += fill.filledShares;
+      filledCost += fill.filledShares * fill.avgPrice;
+      filledFee += fill.fee ?? 0;
+    }
+  };
+
+  try {
+    while (true) {
+      if (active) {
+        const fill = await venue.getFill(active.orderId);
+        if (fill && fill.filledShares >= active.shares - 0.01) {
+          filledShares += fill.filledShares;
+          filledCost += fill.filledShares * fill.avgPrice;
+          filledFee += fill.fee ?? 0;
+          active = null;
+          reason = "filled";
+          break;
+        }
+      }
+
+      if (clock.now() - startedAt >= config.makerTimeoutMs) {
+        reason = `timed out after ${Math.round(config.makerTimeoutMs / 1000)}s`;
+        break;
+      }
+      if (!deps.stillWanted()) {
+        reason = "entry signal gone";
+        break;
+      }
+
+      const quote = await deps.getQuote();
+      const tickSize = deps.getTickSize() ?? DEFAULT_TICK_SIZE;
+      const target = quote ? makerBidPrice(quote.bid, quote.ask, tickSize, config.makerImproveTicks) : null;
+      const price = target !== null ? Math.min(target, order.maxPrice) : null;
+
+      const repriceDue = clock.now() - lastPostAt >= config.makerRepriceMs;
+      if (price !== null && (!active || (price !== active.price && repriceDue))) {
+        if (active) {
+          deps.log(`[MAKER] Repricing bid $${active.price.toFixed(2)} -> $${price.toFixed(2)}`, { tokenId: order.tokenId });
+          await settleActive();
+        }
+
+        const shares: number = Math.floor(((order.usdc - filledCost) / price) * 100) / 100;
+        if (shares < MIN_ORDER_SIZE) {
+          reason = filledShares > 0 ? "filled" : `remaining size below ${MIN_ORDER_SIZE} shares`;
+          break;
+        }
+
+        const orderId = await venue.placeLimitBuy({ tokenId: order.tokenId, price, shares });
+        if (!orderId) {
+          reason = venue.getLastError() ?? "order failed";
+          break;
+        }
+        active = { orderId, price, shares };
+        lastOrderId = orderId;
+        lastPostAt = clock.now();
+        deps.log(`[MAKER] Bid ${shares.toFixed(2)} shares @ $${price.toFixed(2)} (ask $${quote!.ask.toFixed(2)})`, { tokenId: order.tokenId });
+      }
+
+      await sleep(scheduler, POLL_INTERVAL_MS);
+    }
+  } finally {
+    await settleActive();
+  }
+
+  if (filledShares <= 0) {
+    return { fill: null, reason };
+  }
+  const price = filledCost / filledShares;
+  return {
+    fill: { orderId: lastOrderId, shares: filledShares - filledFee / price, price, cost: filledCost, fee: filledFee },
+    reason,
+  };
+}
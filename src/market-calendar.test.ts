@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import { MarketCalendar, type MarketPeriod } from "./market-calendar";
+import { BTC_HOURLY_FAMILY, type MarketFamily } from "./market-family";
+
+const HOUR_MS = 60 * 60 * 1000;
+const calendar = new MarketCalendar(BTC_HOURLY_FAMILY);
+const slug = (label: string) => `bitcoin-up-or-down-${label}-et`;
+const at = (iso: string) => Date.parse(iso);
+
+// Slug, start and end of a period as ISO strings, for readable comparisons
+function describePeriod(period: MarketPeriod | null): [string, string, string] | null {
+  return period ? [period.slug, period.start.toISOString(), period.end.toISOString()] : null;
+}
+
+describe("slugFor", () => {
+  test("formats the start in Eastern Time", () => {
+    expect(calendar.slugFor(at("2026-01-24T22:00:00Z"))).toBe(slug("january-24-5pm"));
+    expect(calendar.slugFor(new Date("2026-07-04T16:00:00Z"))).toBe(slug("july-4-12pm"));
+    expect(calendar.slugFor(at("2026-07-04T04:00:00Z"))).toBe(slug("july-4-12am"));
+  });
+});
+
+describe("spring forward (2026-03-08, 2am ET skipped)", () => {
+  test("schedule skips the missing hour without a gap", () => {
+    expect(calendar.schedule(at("2026-03-08T05:30:00Z"), 4).map(describePeriod)).toEqual([
+      [slug("march-8-12am"), "2026-03-08T05:00:00.000Z", "2026-03-08T06:00:00.000Z"],
+      [slug("march-8-1am"), "2026-03-08T06:00:00.000Z", "2026-03-08T07:00:00.000Z"],
+      [slug("march-8-3am"), "2026-03-08T07:00:00.000Z", "2026-03-08T08:00:00.000Z"],
+      [slug("march-8-4am"), "2026-03-08T08:00:00.000Z", "2026-03-08T09:00:00.000Z"],
+    ]);
+  });
+
+  test("the skipped hour has no market", () => {
+    expect(calendar.parse(slug("march-8-2am"), at("2026-03-08T00:00:00Z"))).toBeNull();
+  });
+
+  test("hours either side parse to their exact instants", () => {
+    const now = at("2026-03-08T00:00:00Z");
+    expect(calendar.parse(slug("march-8-1am"), now)?.start.toISOString()).toBe("2026-03-08T06:00:00.000Z");
+    expect(calendar.parse(slug("march-8-3am"), now)?.start.toISOString()).toBe("2026-03-08T07:00:00.000Z");
+  });
+});
+
+describe("fall back (2026-11-01, 1am ET repeated)", () => {
+  const oneAm: [string, string, string] = [slug("november-1-1am"), "2026-11-01T05:00:00.000Z", "2026-11-01T07:00:00.000Z"];
+
+  test("the repeated hour belongs to the 1am market, which runs two hours", () => {
+    expect(calendar.schedule(at("2026-11-01T04:30:00Z"), 4).map(describePeriod)).toEqual([
+      [slug("november-1-12am"), "2026-11-01T04:00:00.000Z", "2026-11-01T05:00:00.000Z"],
+      oneAm,
+      [slug("november-1-2am"), "2026-11-01T07:00:00.000Z", "2026-11-01T08:00:00.000Z"],
+      [slug("november-1-3am"), "2026-11-01T08:00:00.000Z", "2026-11-01T09:00:00.000Z"],
+    ]);
+  });
+
+  test("periodAt, parse and schedule agree in both passes", () => {
+    for (const iso of ["2026-11-01T05:30:00Z", "2026-11-01T06:00:00Z", "2026-11-01T06:30:00Z", "2026-11-01T06:59:59Z"]) {
+      expect(describePeriod(calendar.periodAt(at(iso)))).toEqual(oneAm);
+      expect(describePeriod(calendar.parse(oneAm[0], at(iso)))).toEqual(oneAm);
+      expect(describePeriod(calendar.schedule(at(iso), 1)[0])).toEqual(oneAm);
+    }
+    expect(calendar.periodStart(at("2026-11-01T06:30:00Z"))).toBe(at("2026-11-01T05:00:00Z"));
+  });
+
+  test("between lists every market once", () => {
+    const periods = calendar.between(new Date("2026-11-01T04:00:00Z"), new Date("2026-11-01T08:00:00Z"));
+    expect(periods.map(p => p.slug)).toEqual([
+      slug("november-1-12am"),
+      slug("november-1-1am"),
+      slug("november-1-2am"),
+      slug("november-1-3am"),
+    ]);
+  });
+
+  test("a market starting in the second pass is not listed by between", () => {
+    const periods = calendar.between(new Date("2026-11-01T06:00:00Z"), new Date("2026-11-01T07:00:00Z"));
+    expect(periods.map(p => p.slug)).toEqual([slug("november-1-2am")]);
+  });
+});
+
+describe("year boundary", () => {
+  test("schedule runs from December 31 into January 1", () => {
+    expect(calendar.schedule(at("2027-01-01T04:30:00Z"), 2).map(describePeriod)).toEqual([
+      [slug("december-31-11pm"), "2027-01-01T04:00:00.000Z", "2027-01-01T05:00:00.000Z"],
+      [slug("january-1-12am"), "2027-01-01T05:00:00.000Z", "2027-01-01T06:00:00.000Z"],
+    ]);
+  });
+
+  test("yearless slugs resolve to the next year late in December", () => {
+    // 23:30 UTC on Dec 31 is still 6:30pm on Dec 31 in New York
+    const period = calendar.parse(slug("january-1-12am"), at("2026-12-31T23:30:00Z"));
+    expect(period?.start.toISOString()).toBe("2027-01-01T05:00:00.000Z");
+  });
+
+  test("yearless slugs resolve to the previous year early in January", () => {
+    const period = calendar.parse(slug("december-31-11pm"), at("2027-01-01T05:30:00Z"));
+    expect(period?.start.toISOString()).toBe("2027-01-01T04:00:00.000Z");
+  });
+
+  test("yearless slugs pick the occurrence closest to now, within half a year", () => {
+    const now = at("2027-01-02T12:00:00Z");
+    expect(calendar.parse(slug("august-1-1pm"), now)?.start.toISOString()).toBe("2026-08-01T17:00:00.000Z");
+    expect(calendar.parse(slug("june-30-1pm"), now)?.start.toISOString()).toBe("2027-06-30T17:00:00.000Z");
+  });
+
+  test("dates that do not exist do not parse", () => {
+    expect(calendar.parse(slug("february-30-1am"), at("2026-02-20T00:00:00Z"))).toBeNull();
+    expect(calendar.parse(slug("smarch-3-1am"), at("2026-02-20T00:00:00Z"))).toBeNull();
+    expect(calendar.parse("ethereum-up-or-down-march-3-1am-et", at("2026-02-20T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("round trips", () => {
+  test("every hour of a year: periodAt, slugFor, parse and schedule agree", () => {
+    const from = at("2026-01-01T00:00:00Z");
+    const to = at("2027-01-02T00:00:00Z");
+    const schedule = calendar.schedule(from, 8800);
+    let next = 0;
+    for (let t = from; t < to; t += HOUR_MS) {
+      const period = calendar.periodAt(t);
+      expect(period.start.getTime()).toBeLessThanOrEqual(t);
+      expect(period.end.getTime()).toBeGreaterThan(t);
+      expect(calendar.slugFor(period.start)).toBe(period.slug);
+      expect(describePeriod(calendar.parse(period.slug, t))).toEqual(describePeriod(period));
+
+      while (schedule[next].end.getTime() <= t) next++;
+      expect(describePeriod(schedule[next])).toEqual(describePeriod(period));
+    }
+  });
+
+  test("schedule is contiguous with unique slugs within a year", () => {
+    // Yearless slugs recur after a year, so stop short of the next January 1
+    const schedule = calendar.schedule(at("2026-01-01T05:00:00Z"), 8759);
+    for (let i = 1; i < schedule.length; i++) {
+      expect(schedule[i].start.getTime()).toBe(schedule[i - 1].end.getTime());
+    }
+    expect(new Set(schedule.map(p => p.slug)).size).toBe(schedule.length);
+  });
+
+  test("epoch-second slugs ignore DST and reject unaligned starts", () => {
+    const family: MarketFamily = { ...BTC_HOURLY_FAMILY, slugTemplate: "eth-updown-15m-{unix}", durationMs: 15 * 60 * 1000 };
+    const quarter = new MarketCalendar(family);
+    const periods = quarter.schedule(at("2026-11-01T05:50:00Z"), 3);
+    expect(periods.map(p => p.slug)).toEqual([
+      "eth-updown-15m-1793511900",
+      "eth-updown-15m-1793512800",
+      "eth-updown-15m-1793513700",
+    ]);
+    for (const period of periods) {
+      expect(describePeriod(quarter.parse(period.slug))).toEqual(describePeriod(period));
+    }
+    expect(quarter.parse("eth-updown-15m-1793512860")).toBeNull();
+  });
+
+  test("half-hour timezones align to their own wall clock", () => {
+    const family: MarketFamily = { ...BTC_HOURLY_FAMILY, timezone: "Asia/Kolkata", slugTemplate: "x-{month}-{day}-{hour24}{minute}" };
+    const kolkata = new MarketCalendar(family);
+    const period = kolkata.periodAt(at("2026-05-01T10:10:00Z"));
+    expect(describePeriod(period)).toEqual(["x-may-1-1500", "2026-05-01T09:30:00.000Z", "2026-05-01T10:30:00.000Z"]);
+    expect(describePeriod(kolkata.parse("x-may-1-1500", at("2026-05-01T10:10:00Z")))).toEqual(describePeriod(period));
+    expect(kolkata.parse("x-may-1-1530", at("2026-05-01T10:10:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Market calendar
+ * Maps a market family's slugs to the exact start/end instants of their markets and back, in the
+ * family's timezone, across DST changes and year boundaries, and generates the schedule of
+ * upcoming markets from the same rules. Discovery, the bot and the backtest fetcher all go through it
+ *
+ * Markets start on the local wall clock. A wall-clock time skipped in spring has no market; one
+ * repeated in autumn does not start a new market, so the market before it runs on until the next
+ * new slug (with hourly ET markets, "1am" on the fall-back day runs 1am EDT to 2am EST, two hours).
+ * Families whose slugs carry epoch seconds start on UTC multiples of the duration instead
+ */
+
+import { marketSlugPattern, slugPlaceholders, type MarketFamily } from "./market-family";
+
+const MONTHS = ["january", "february", "march", "april", "may", "june",
+                "july", "august", "september", "october", "november", "december"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_YEARLESS_DISTANCE_MS = 183 * DAY_MS; // Slugs without a year name a market within half a year of now
+
+export interface MarketPeriod {
+  slug: string;
+  start: Date;
+  end: Date;
+}
+
+interface LocalParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;    // 0-23
+  minute: number;
+}
+
+export class MarketCalendar {
+  readonly family: MarketFamily;
+  private pattern: RegExp;
+  private placeholders: string[];
+  private formatter: Intl.DateTimeFormat;
+  private wallClock: boolean; // Boundaries follow the local wall clock (false for {unix} slugs)
+
+  constructor(family: MarketFamily) {
+    this.family = family;
+    this.pattern = marketSlugPattern(family);
+    this.placeholders = slugPlaceholders(family);
+    this.wallClock = !this.placeholders.includes("unix");
+    this.formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: family.timezone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    });
+  }
+
+  /**
+   * Slug of the market starting at `start`
+   */
+  slugFor(start: Date | number): string {
+    const timestamp = typeof start === "number" ? start : start.getTime();
+    const local = this.localParts(timestamp);
+    const values: Record<string, string> = {
+      month: MONTHS[local.month - 1],
+      day: String(local.day),
+      hour: String(local.hour % 12 || 12),
+      ampm: local.hour >= 12 ? "pm" : "am",
+      hour24: String(local.hour).padStart(2, "0"),
+      minute: String(local.minute).padStart(2, "0"),
+      year: String(local.year),
+      unix: String(Math.floor(timestamp / 1000)),
+    };
+    return this.family.slugTemplate.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  }
+
+  /**
+   * Start of the market running at `timestamp`
+   */
+  periodStart(timestamp: number): number {
+    let start = this.boundaryAtOrBefore(timestamp);
+    while (this.isRepeatedBoundary(start)) {
+      start = this.boundaryAtOrBefore(start - 1);
+    }
+    return start;
+  }
+
+  /**
+   * End of the market starting at `start` (the next boundary that starts a new market)
+   */
+  periodEnd(start: number): number {
+    let end = start + this.family.durationMs;
+    while (this.isRepeatedBoundary(end)) {
+      end += this.family.durationMs;
+    }
+    return end;
+  }
+
+  /**
+   * The market running at `timestamp`
+   */
+  periodAt(timestamp: number): MarketPeriod {
+    return this.period(this.periodStart(timestamp));
+  }
+
+  /**
+   * Market a slug names, or null if it is not one of the family's slugs (or names a wall-clock
+   * time the timezone skips). Slugs without a year resolve to the occurrence closest to `now`,
+   * which may fall in the previous or next year but not more than half a year away
+   */
+  parse(slug: string, now: number = Date.now()): MarketPeriod | null {
+    const match = slug.match(this.pattern);
+    if (!match) return null;
+    const values: Record<string, string> = {};
+    this.placeholders.forEach((key, i) => {
+      values[key] = match[i + 1];
+    });
+
+    if (values.unix !== undefined) {
+      const start = parseInt(values.unix, 10) * 1000;
+      return this.periodStart(start) === start ? this.period(start) : null;
+    }
+
+    const month = values.month !== undefined ? MONTHS.indexOf(values.month) + 1 : 1;
+    if (month === 0) return null;
+    let hour = values.hour24 !== undefined ? parseInt(values.hour24, 10) : parseInt(values.hour ?? "0", 10);
+    if (values.ampm === "pm" && hour !== 12) hour += 12;
+    if (values.ampm === "am" && hour === 12) hour = 0;
+    const day = parseInt(values.day ?? "1", 10);
+    const minute = parseInt(values.minute ?? "0", 10);
+
+    const nowYear = this.localParts(now).year;
+    const years = values.year !== undefined ? [parseInt(values.year, 10)] : [nowYear - 1, nowYear, nowYear + 1];
+    let best: number | null = null;
+    for (const year of years) {
+      const start = this.resolveWallClock(slug, Date.UTC(year, month - 1, day, hour, minute));
+      if (start === null || (values.year === undefined && Math.abs(start - now) > MAX_YEARLESS_DISTANCE_MS)) continue;
+      if (best === null || Math.abs(start - now) < Math.abs(best - now)) {
+        best = start;
+      }
+    }
+    return best === null ? null : this.period(best);
+  }
+
+  /**
+   * `count` consecutive markets starting with the one running at `from`
+   */
+  schedule(from: number, count: number): MarketPeriod[] {
+    const periods: MarketPeriod[] = [];
+    let start = this.periodStart(from);
+    while (periods.length < count) {
+      const period = this.period(start);
+      periods.push(period);
+      start = period.end.getTime();
+    }
+    return periods;
+  }
+
+  /**
+   * Markets starting between startDate and endDate (inclusive)
+   */
+  between(startDate: Date, endDate: Date): MarketPeriod[] {
+    const periods: MarketPeriod[] = [];
+    let start = this.periodStart(startDate.getTime());
+    if (start < startDate.getTime()) start = this.periodEnd(start);
+    while (start <= endDate.getTime()) {
+      const period = this.period(start);
+      periods.push(period);
+      start = period.end.getTime();
+    }
+    return periods;
+  }
+
+  private period(start: number): MarketPeriod {
+    return { slug: this.slugFor(start), start: new Date(start), end: new Date(this.periodEnd(start)) };
+  }
+
+  /**
+   * Latest instant at or before `timestamp` whose wall-clock time is a multiple of the duration
+   * (half-hour timezones get half-hour boundaries)
+   */
+  private boundaryAtOrBefore(timestamp: number): number {
+    const offset = this.wallClock ? this.offsetAt(timestamp) : 0;
+    const local = timestamp + offset;
+    return Math.floor(local / this.family.durationMs) * this.family.durationMs - offset;
+  }
+
+  /**
+   * Whether a boundary's wall-clock time already occurred earlier (the second pass through the
+   * times repeated when DST ends), so it does not start a market
+   */
+  private isRepeatedBoundary(boundary: number): boolean {
+    if (!this.wallClock) return false;
+    const offset = this.offsetAt(boundary);
+    const local = boundary + offset;
+    const earlierOffsets = new Set([boundary - DAY_MS, boundary - 1].map(ts => this.offsetAt(ts)));
+    for (const earlier of earlierOffsets) {
+      if (earlier === offset) continue;
+      const first = local - earlier;
+      if (first < boundary && this.offsetAt(first) === earlier) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Instant a market whose slug is `slug` starts at, for a wall-clock time read as UTC
+   * The offsets in force a day either side cover both sides of a DST change on that day
+   */
+  private resolveWallClock(slug: string, wallClock: number): number | null {
+    const offsets = new Set([wallClock - DAY_MS, wallClock, wallClock + DAY_MS].map(ts => this.offsetAt(ts)));
+    const candidates = [...offsets]
+      .map(offset => wallClock - offset)
+      .filter(start => this.periodStart(start) === start && this.slugFor(start) === slug)
+      .sort((a, b) => a - b);
+    return candidates[0] ?? null;
+  }
+
+  /**
+   * Wall-clock date parts of an instant in the family's timezone
+   */
+  private localParts(timestamp: number): LocalParts {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(new Date(timestamp))) {
+      parts[part.type] = part.value;
+    }
+    return {
+      year: parseInt(parts.year, 10),
+      month: parseInt(parts.month, 10),
+      day: parseInt(parts.day, 10),
+      hour: parseInt(parts.hour, 10) % 24,
+      minute: parseInt(parts.minute, 10),
+    };
+  }
+
+  /**
+   * Offset of the family's timezone from UTC at an instant, in ms
+   */
+  private offsetAt(timestamp: number): number {
+    const local = this.localParts(timestamp);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - Math.floor(timestamp / 60000) * 60000;
+  }
+}
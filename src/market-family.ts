@@ -0,0 +1,88 @@
+/**
+ * Market families
+ * A recurring up/down market series (BTC hourly, ETH hourly, ...) described declaratively:
+ * slug template, timezone, duration and outcome labels. MarketCalendar turns it into slugs
+ * and market times
+ */
+
+import type { MarketFamilyConfig } from "./config";
+
+export type MarketFamily = MarketFamilyConfig;
+
+// Slug template placeholders and the pattern each one matches in a slug
+const PLACEHOLDERS: Record<string, string> = {
+  month: "([a-z]+)",      // Full month name, lowercase
+  day: "(\\d{1,2})",      // Day of month
+  hour: "(\\d{1,2})",     // 12-hour clock hour
+  ampm: "(am|pm)",
+  hour24: "(\\d{2})",     // 24-hour clock hour, two digits
+  minute: "(\\d{2})",     // Two digits
+  year: "(\\d{4})",
+  unix: "(\\d+)",         // Start time in epoch seconds (timezone-independent)
+};
+
+// Built-in BTC hourly series (the default `market` section)
+export const BTC_HOURLY_FAMILY: MarketFamily = {
+  name: "BTC 1h",
+  slugTemplate: "bitcoin-up-or-down-{month}-{day}-{hour}{ampm}-et",
+  timezone: "America/New_York",
+  durationMs: 60 * 60 * 1000,
+  outcomes: ["Up", "Down"],
+};
+
+/**
+ * Known placeholders of the slug template, in order (one capture group each in the slug pattern)
+ */
+export function slugPlaceholders(family: MarketFamily): string[] {
+  return [...family.slugTemplate.matchAll(/\{(\w+)\}/g)].map(m => m[1]).filter(key => PLACEHOLDERS[key]);
+}
+
+/**
+ * Regex for the family's slugs; `anchored` = the whole string must be a slug
+ */
+export function marketSlugPattern(family: MarketFamily, anchored = true): RegExp {
+  const source = family.slugTemplate
+    .split(/(\{\w+\})/)
+    .map(piece => {
+      const key = piece.match(/^\{(\w+)\}$/)?.[1];
+      return key && PLACEHOLDERS[key] ? PLACEHOLDERS[key] : piece.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(anchored ? `^${source}$` : source);
+}
+
+/**
+ * Indexes of the family's up and down outcomes in a market's outcome list (-1 if missing)
+ */
+export function outcomeIndexes(family: MarketFamily, outcomes: string[]): { up: number; down: number } {
+  const find = (label: string) => outcomes.findIndex(o => o.toLowerCase() === label.toLowerCase());
+  return { up: find(family.outcomes[0]), down: find(family.outcomes[1]) };
+}
+
+/**
+ * Problems with a family definition (empty if it is usable)
+ */
+export function validateMarketFamily(family: MarketFamily): string[] {
+  const problems: string[] = [];
+  const keys = [...family.slugTemplate.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+  const unknown = keys.filter(key => !PLACEHOLDERS[key]);
+  if (unknown.length > 0) {
+    problems.push(`slugTemplate: unknown placeholder(s) ${unknown.map(k => `{${k}}`).join(", ")}`);
+  }
+  if (!keys.includes("unix") && !(keys.includes("day") && (keys.includes("hour24") || (keys.includes("hour") && keys.includes("ampm"))))) {
+    problems.push("slugTemplate: needs {unix}, or {day} with {hour}{ampm} or {hour24}");
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: family.timezone });
+  } catch {
+    problems.push(`timezone: unknown timezone "${family.timezone}"`);
+  }
+  if (!Number.isInteger(family.durationMs) || family.durationMs < 60000 || (60 * 60 * 1000) % family.durationMs !== 0) {
+    problems.push("durationMs: must be whole minutes dividing an hour (e.g. 900000 or 3600000)");
+  }
+  if (!Array.isArray(family.outcomes) || family.outcomes.length !== 2 || !family.outcomes[0] || !family.outcomes[1] ||
+      family.outcomes[0].toLowerCase() === family.outcomes[1].toLowerCase()) {
+    problems.push("outcomes: must be two different labels, up first (e.g. [\"Up\", \"Down\"])");
+  }
+  return problems;
+}
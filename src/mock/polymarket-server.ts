@@ -0,0 +1,663 @@
+#!/usr/bin/env bun
+/**
+ * Mock Polymarket server
+ * Serves the Gamma `/events` API, the CLOB REST endpoints the bot uses (API keys, book, orders,
+ * balances, prices-history) and the market/user WebSocket channels from one port, driven by a
+ * scripted scenario, so full bot runs can be exercised offline (or from `bun test`).
+ *
+ * Usage: bun run src/mock/polymarket-server.ts [--port 8080] [--scenario scenario.json] [--balance 1000]
+ * Then set endpoints.gammaUrl and endpoints.clobUrl to http://localhost:<port> and
+ * endpoints.wsUrl to ws://localhost:<port> in trading.config.json
+ */
+
+import { parseArgs } from "util";
+import { readFileSync } from "fs";
+import type { ServerWebSocket } from "bun";
+import { MarketCalendar } from "../market-calendar";
+import { BTC_HOURLY_FAMILY } from "../market-family";
+
+const HOUR_MS = 60 * 60 * 1000;
+const END_CURSOR = "LTE="; // CLOB pagination: no more pages
+
+export type MockOutcome = "UP" | "DOWN";
+
+export interface MockLevel {
+  price: number;
+  size: number;
+}
+
+export interface MockBook {
+  bids: MockLevel[];
+  asks: MockLevel[];
+}
+
+// A market in a scenario; its slug is generated like the scanner's so the bot finds it
+export interface MockMarketSpec {
+  hourOffset?: number;  // 0 = the current hour's market (default), 1 = the next hour's
+  endsInMs?: number;    // End this long after the server starts instead of at the end of the hour
+  up?: MockBook;        // Initial books (empty if omitted)
+  down?: MockBook;
+}
+
+// One scripted step, applied `atMs` after the server starts
+export interface MockScenarioStep {
+  atMs: number;
+  market?: number;                              // Index into `markets` (default 0)
+  book?: MockBook & { outcome: MockOutcome };   // Replace a book; resting orders it crosses fill
+  resolve?: MockOutcome;                        // Close the market with this winner
+}
+
+export interface MockScenario {
+  markets: MockMarketSpec[];
+  steps: MockScenarioStep[];
+}
+
+export interface MockPolymarketServerOptions {
+  port?: number;            // 0 = pick a free port
+  scenario?: MockScenario;  // Default: DEFAULT_SCENARIO
+  balanceUsdc?: number;     // Starting USDC collateral of the mock account
+}
+
+export interface MockMarketInfo {
+  slug: string;
+  conditionId: string;
+  upTokenId: string;
+  downTokenId: string;
+  endDate: Date;
+}
+
+export interface MockOrder {
+  id: string;
+  tokenId: string;
+  conditionId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: "LIVE" | "MATCHED" | "CANCELLED";
+  orderType: string;
+  createdAt: number;
+}
+
+export interface MockPolymarketServer {
+  gammaUrl: string;
+  clobUrl: string;
+  wsUrl: string;
+  markets: MockMarketInfo[];
+  /** Replace a token's book (resting orders it crosses fill) */
+  setBook(tokenId: string, book: MockBook): void;
+  /** Close a market with a winner; winning shares are redeemed for $1 each */
+  resolve(slug: string, winner: MockOutcome): void;
+  /** USDC collateral of the mock account */
+  getBalance(): number;
+  /** Shares of a token held by the mock account */
+  getPosition(tokenId: string): number;
+  getOrders(): MockOrder[];
+  stop(): void;
+}
+
+// Current hour's market ending in 10 minutes: Up drifts into the default entry range,
+// reaches the profit target, then the market resolves Up
+export const DEFAULT_SCENARIO: MockScenario = {
+  markets: [
+    {
+      endsInMs: 10 * 60 * 1000,
+      up: { bids: [{ price: 0.92, size: 500 }], asks: [{ price: 0.93, size: 500 }] },
+      down: { bids: [{ price: 0.07, size: 500 }], asks: [{ price: 0.08, size: 500 }] },
+    },
+  ],
+  steps: [
+    { atMs: 5000, book: { outcome: "UP", bids: [{ price: 0.95, size: 500 }], asks: [{ price: 0.96, size: 500 }, { price: 0.97, size: 1000 }] } },
+    { atMs: 5000, book: { outcome: "DOWN", bids: [{ price: 0.04, size: 500 }], asks: [{ price: 0.05, size: 500 }] } },
+    { atMs: 30000, book: { outcome: "UP", bids: [{ price: 0.99, size: 1000 }, { price: 0.98, size: 1000 }], asks: [] } },
+    { atMs: 30000, book: { outcome: "DOWN", bids: [{ price: 0.01, size: 500 }], asks: [{ price: 0.02, size: 500 }] } },
+    { atMs: 60000, resolve: "UP" },
+  ],
+};
+
+interface MarketState extends MockMarketInfo {
+  id: string;
+  closed: boolean;
+  winner: MockOutcome | null;
+}
+
+type SocketData = { channel: "market" | "user"; assets: Set<string>; authed: boolean };
+
+// Round away float noise before numbers go out as strings
+const fmt = (n: number): string => String(Math.round(n * 1e6) / 1e6);
+const hexId = (n: number): string => `0x${n.toString(16).padStart(64, "0")}`;
+
+const sortBook = (book: MockBook): MockBook => ({
+  bids: book.bids.filter(l => l.size > 0).sort((a, b) => b.price - a.price),
+  asks: book.asks.filter(l => l.size > 0).sort((a, b) => a.price - b.price),
+});
+
+/**
+ * Start a mock Polymarket server; scenario steps run on timers until stopped
+ */
+export function startMockPolymarketServer(options: MockPolymarketServerOptions = {}): MockPolymarketServer {
+  const scenario = options.scenario ?? DEFAULT_SCENARIO;
+  const startedAt = Date.now();
+  const hourStart = Math.floor(startedAt / HOUR_MS) * HOUR_MS;
+
+  let collateral = options.balanceUsdc ?? 1000;
+  let nextId = 1;
+  const positions = new Map<string, number>();
+  const books = new Map<string, MockBook>();
+  const history = new Map<string, Array<{ t: number; p: number }>>();
+  const orders = new Map<string, MockOrder>();
+  const trades: any[] = []; // Account trades, as /data/trades lists them (no fees are charged)
+  const sockets = new Set<ServerWebSocket<SocketData>>();
+  const timers: Timer[] = [];
+
+  const calendar = new MarketCalendar(BTC_HOURLY_FAMILY);
+  const markets: MarketState[] = scenario.markets.map((spec, i) => {
+    const start = hourStart + (spec.hourOffset ?? 0) * HOUR_MS;
+    const endDate = new Date(spec.endsInMs !== undefined ? startedAt + spec.endsInMs : start + HOUR_MS);
+    const tokenBase = 1_000_000 + i * 10;
+    return {
+      id: String(500000 + i),
+      slug: calendar.slugFor(start),
+      conditionId: hexId(0xc0000 + i),
+      upTokenId: String(tokenBase + 1),
+      downTokenId: String(tokenBase + 2),
+      endDate,
+      closed: false,
+      winner: null,
+    };
+  });
+  const marketByToken = (tokenId: string) => markets.find(m => m.upTokenId === tokenId || m.downTokenId === tokenId);
+
+  // ---- WebSocket broadcasts ----
+
+  const send = (channel: SocketData["channel"], message: object, tokenId?: string) => {
+    const payload = JSON.stringify(message);
+    for (const ws of sockets) {
+      if (ws.data.channel !== channel) continue;
+      if (channel === "market" && tokenId && !ws.data.assets.has(tokenId)) continue;
+      if (channel === "user" && !ws.data.authed) continue;
+      ws.send(payload);
+    }
+  };
+
+  const bookMessage = (tokenId: string) => {
+    const book = books.get(tokenId) ?? { bids: [], asks: [] };
+    return {
+      event_type: "book",
+      asset_id: tokenId,
+      market: marketByToken(tokenId)?.conditionId ?? "",
+      bids: book.bids.map(l => ({ price: fmt(l.price), size: fmt(l.size) })),
+      asks: book.asks.map(l => ({ price: fmt(l.price), size: fmt(l.size) })),
+      timestamp: String(Date.now()),
+      hash: hexId(nextId++).slice(0, 42),
+    };
+  };
+
+  const orderJson = (order: MockOrder) => ({
+    id: order.id,
+    status: order.status,
+    market: order.conditionId,
+    asset_id: order.tokenId,
+    side: order.side,
+    original_size: fmt(order.originalSize),
+    size_matched: fmt(order.sizeMatched),
+    price: fmt(order.price),
+    outcome: marketByToken(order.tokenId)?.upTokenId === order.tokenId ? "Up" : "Down",
+    order_type: order.orderType,
+    expiration: "0",
+    associate_trades: [],
+    created_at: Math.floor(order.createdAt / 1000),
+  });
+
+  const sendOrderEvent = (order: MockOrder, type: "PLACEMENT" | "UPDATE" | "CANCELLATION") => {
+    send("user", { event_type: "order", type, ...orderJson(order), timestamp: String(Date.now()) });
+  };
+
+  // ---- Books and fills ----
+
+  const publishBook = (tokenId: string) => {
+    const book = books.get(tokenId) ?? { bids: [], asks: [] };
+    const bid = book.bids[0]?.price ?? 0;
+    const ask = book.asks[0]?.price ?? 1;
+    if (bid > 0 || ask < 1) {
+      const points = history.get(tokenId) ?? [];
+      points.push({ t: Math.floor(Date.now() / 1000), p: bid > 0 && ask < 1 ? (bid + ask) / 2 : bid > 0 ? bid : ask });
+      history.set(tokenId, points);
+    }
+    send("market", bookMessage(tokenId), tokenId);
+  };
+
+  const applyFill = (order: MockOrder, shares: number, price: number) => {
+    order.sizeMatched += shares;
+    if (order.sizeMatched >= order.originalSize - 1e-9) order.status = "MATCHED";
+    const held = positions.get(order.tokenId) ?? 0;
+    if (order.side === "BUY") {
+      collateral -= shares * price;
+      positions.set(order.tokenId, held + shares);
+    } else {
+      collateral += shares * price;
+      positions.set(order.tokenId, held - shares);
+    }
+  };
+
+  const sendTrade = (order: MockOrder, shares: number, price: number, role: "TAKER" | "MAKER") => {
+    const trade = {
+      id: hexId(nextId++),
+      market: order.conditionId,
+      asset_id: order.tokenId,
+      side: order.side,
+      size: fmt(shares),
+      price: fmt(price),
+      fee_rate_bps: "0",
+      status: "MATCHED",
+      taker_order_id: role === "TAKER" ? order.id : hexId(nextId++),
+      maker_orders: role === "MAKER"
+        ? [{ order_id: order.id, asset_id: order.tokenId, matched_amount: fmt(shares), price: fmt(order.price), fee_rate_bps: "0" }]
+        : [],
+      match_time: String(Math.floor(Date.now() / 1000)),
+    };
+    trades.push(trade);
+    send("user", { event_type: "trade", type: "TRADE", ...trade, timestamp: String(Date.now()) });
+    sendOrderEvent(order, "UPDATE");
+  };
+
+  /**
+   * Take liquidity for an incoming order at its limit price or better
+   */
+  const matchTaker = (order: MockOrder): void => {
+    const book = books.get(order.tokenId);
+    if (!book) return;
+    const levels = order.side === "BUY" ? book.asks : book.bids;
+    for (const level of levels) {
+      const remaining = order.originalSize - order.sizeMatched;
+      if (remaining <= 1e-9) break;
+      const crosses = order.side === "BUY" ? level.price <= order.price : level.price >= order.price;
+      if (!crosses) break;
+      const shares = Math.min(remaining, level.size);
+      level.size -= shares;
+      applyFill(order, shares, level.price);
+      sendTrade(order, shares, level.price, "TAKER");
+    }
+    books.set(order.tokenId, sortBook(book));
+    publishBook(order.tokenId);
+  };
+
+  /**
+   * Fill resting orders that a new book crosses, at their own price
+   */
+  const matchResting = (tokenId: string): void => {
+    const book = books.get(tokenId);
+    if (!book) return;
+    let changed = false;
+    for (const order of orders.values()) {
+      if (order.tokenId !== tokenId || order.status !== "LIVE") continue;
+      const levels = order.side === "BUY" ? book.asks : book.bids;
+      for (const level of levels) {
+        const remaining = order.originalSize - order.sizeMatched;
+        if (remaining <= 1e-9) break;
+        const crosses = order.side === "BUY" ? level.price <= order.price : level.price >= order.price;
+        if (!crosses) break;
+        const shares = Math.min(remaining, level.size);
+        level.size -= shares;
+        applyFill(order, shares, order.price);
+        sendTrade(order, shares, order.price, "MAKER");
+        changed = true;
+      }
+    }
+    if (changed) books.set(tokenId, sortBook(book));
+  };
+
+  const setBook = (tokenId: string, book: MockBook): void => {
+    books.set(tokenId, sortBook(structuredClone(book)));
+    matchResting(tokenId);
+    publishBook(tokenId);
+  };
+
+  const resolve = (slug: string, winner: MockOutcome): void => {
+    const market = markets.find(m => m.slug === slug);
+    if (!market || market.closed) return;
+    market.closed = true;
+    market.winner = winner;
+    const winningToken = winner === "UP" ? market.upTokenId : market.downTokenId;
+
+    for (const order of orders.values()) {
+      if (order.conditionId === market.conditionId && order.status === "LIVE") {
+        order.status = "CANCELLED";
+        sendOrderEvent(order, "CANCELLATION");
+      }
+    }
+    for (const tokenId of [market.upTokenId, market.downTokenId]) {
+      const held = positions.get(tokenId) ?? 0;
+      if (tokenId === winningToken) collateral += held;
+      positions.set(tokenId, 0);
+      books.set(tokenId, { bids: [], asks: [] });
+      publishBook(tokenId);
+    }
+
+    const event = {
+      event_type: "market_resolved",
+      id: market.id,
+      market: market.conditionId,
+      slug: market.slug,
+      assets_ids: [market.upTokenId, market.downTokenId],
+      winning_asset_id: winningToken,
+      winning_outcome: winner === "UP" ? "Up" : "Down",
+      timestamp: String(Date.now()),
+    };
+    for (const tokenId of event.assets_ids) send("market", event, tokenId);
+  };
+
+  // ---- Orders ----
+
+  /**
+   * Accept a signed order from the CLOB client (amounts are in 6-decimal base units)
+   */
+  const placeOrder = (body: any): object => {
+    const signed = body?.order;
+    const tokenId = String(signed?.tokenId ?? "");
+    const market = marketByToken(tokenId);
+    if (!market) return { success: false, errorMsg: "market not found", orderID: "" };
+    if (market.closed) return { success: false, errorMsg: "market is closed", orderID: "" };
+
+    const side = signed.side === "SELL" ? "SELL" : "BUY";
+    const makerAmount = parseFloat(signed.makerAmount) / 1e6;
+    const takerAmount = parseFloat(signed.takerAmount) / 1e6;
+    const size = side === "BUY" ? takerAmount : makerAmount;
+    const price = Math.round((side === "BUY" ? makerAmount / takerAmount : takerAmount / makerAmount) * 1e4) / 1e4;
+    if (!(size > 0) || !(price > 0) || price >= 1) {
+      return { success: false, errorMsg: "invalid order amounts", orderID: "" };
+    }
+
+    // Balance check against what live orders already reserve
+    const live = [...orders.values()].filter(o => o.status === "LIVE");
+    if (side === "BUY") {
+      const reserved = live.filter(o => o.side === "BUY").reduce((sum, o) => sum + (o.originalSize - o.sizeMatched) * o.price, 0);
+      if (size * price > collateral - reserved + 1e-9) {
+        return { success: false, errorMsg: "not enough balance / allowance", orderID: "" };
+      }
+    } else {
+      const reserved = live.filter(o => o.side === "SELL" && o.tokenId === tokenId).reduce((sum, o) => sum + o.originalSize - o.sizeMatched, 0);
+      if (size > (positions.get(tokenId) ?? 0) - reserved + 1e-9) {
+        return { success: false, errorMsg: "not enough balance / allowance", orderID: "" };
+      }
+    }
+
+    const orderType = String(body.orderType ?? "GTC");
+    const order: MockOrder = {
+      id: hexId(nextId++),
+      tokenId,
+      conditionId: market.conditionId,
+      side,
+      price,
+      originalSize: size,
+      sizeMatched: 0,
+      status: "LIVE",
+      orderType,
+      createdAt: Date.now(),
+    };
+
+    if (orderType === "FOK") {
+      const levels = (books.get(tokenId) ?? { bids: [], asks: [] })[side === "BUY" ? "asks" : "bids"];
+      const available = levels
+        .filter(l => side === "BUY" ? l.price <= price : l.price >= price)
+        .reduce((sum, l) => sum + l.size, 0);
+      if (available < size - 1e-9) {
+        return { success: false, errorMsg: "order couldn't be fully filled. FOK orders are fully filled or killed.", orderID: "" };
+      }
+    }
+
+    orders.set(order.id, order);
+    sendOrderEvent(order, "PLACEMENT");
+    matchTaker(order);
+    if (order.status === "LIVE" && orderType !== "GTC" && orderType !== "GTD") {
+      order.status = "CANCELLED";
+      sendOrderEvent(order, "CANCELLATION");
+    }
+
+    const filledUsdc = order.sizeMatched * price;
+    return {
+      success: true,
+      errorMsg: "",
+      orderID: order.id,
+      status: order.status === "MATCHED" ? "matched" : "live",
+      makingAmount: fmt(side === "BUY" ? filledUsdc : order.sizeMatched),
+      takingAmount: fmt(side === "BUY" ? order.sizeMatched : filledUsdc),
+      transactionsHashes: [],
+    };
+  };
+
+  const cancelOrder = (orderId: string): object => {
+    const order = orders.get(orderId);
+    if (!order) return { canceled: [], not_canceled: { [orderId]: "order not found" } };
+    if (order.status !== "LIVE") {
+      return { canceled: [], not_canceled: { [orderId]: `order already ${order.status.toLowerCase()}` } };
+    }
+    order.status = "CANCELLED";
+    sendOrderEvent(order, "CANCELLATION");
+    return { canceled: [orderId], not_canceled: {} };
+  };
+
+  // ---- HTTP ----
+
+  const gammaEvent = (market: MarketState) => {
+    const outcomePrices = market.winner
+      ? market.winner === "UP" ? ["1", "0"] : ["0", "1"]
+      : [market.upTokenId, market.downTokenId].map(t => {
+        const book = books.get(t);
+        const bid = book?.bids[0]?.price ?? 0;
+        const ask = book?.asks[0]?.price ?? 1;
+        return fmt((bid + ask) / 2);
+      });
+    return {
+      id: market.id,
+      slug: market.slug,
+      title: `Bitcoin Up or Down (mock ${market.slug})`,
+      endDate: market.endDate.toISOString(),
+      closed: market.closed,
+      markets: [{
+        id: market.id,
+        question: `Bitcoin Up or Down (mock ${market.slug})`,
+        conditionId: market.conditionId,
+        endDate: market.endDate.toISOString(),
+        outcomes: JSON.stringify(["Up", "Down"]),
+        outcomePrices: JSON.stringify(outcomePrices),
+        clobTokenIds: JSON.stringify([market.upTokenId, market.downTokenId]),
+        active: !market.closed,
+        closed: market.closed,
+      }],
+    };
+  };
+
+  const handleRequest = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const param = (name: string) => url.searchParams.get(name) ?? "";
+    const json = (data: unknown, status = 200) => Response.json(data, { status });
+
+    // Gamma
+    if (req.method === "GET" && path === "/events") {
+      return json(markets.filter(m => !param("slug") || m.slug === param("slug")).map(gammaEvent));
+    }
+
+    // CLOB: auth and market metadata
+    if (path === "/auth/api-key" || path === "/auth/derive-api-key") {
+      return json({ apiKey: "mock-api-key", secret: Buffer.from("mock-secret").toString("base64"), passphrase: "mock-passphrase" });
+    }
+    if (path === "/time") return json(Math.floor(Date.now() / 1000));
+    if (path === "/tick-size") return json({ minimum_tick_size: 0.01 });
+    if (path === "/neg-risk") return json({ neg_risk: false });
+    if (path === "/fee-rate") return json({ base_fee: 0 });
+
+    // CLOB: books and prices
+    if (path === "/book") {
+      const { event_type: _, ...book } = bookMessage(param("token_id"));
+      return json(book);
+    }
+    if (path === "/prices-history") {
+      const startTs = parseInt(param("startTs") || "0", 10);
+      const endTs = parseInt(param("endTs") || String(Number.MAX_SAFE_INTEGER), 10);
+      const points = (history.get(param("market")) ?? []).filter(p => p.t >= startTs && p.t <= endTs);
+      return json({ history: points });
+    }
+
+    // CLOB: account
+    if (path === "/balance-allowance") {
+      const balance = param("asset_type") === "CONDITIONAL" ? positions.get(param("token_id")) ?? 0 : collateral;
+      return json({ balance: String(Math.round(balance * 1e6)), allowance: "1000000000000" });
+    }
+    if (path === "/balance-allowance/update") return json({});
+    if (req.method === "POST" && path === "/order") {
+      return json(placeOrder(await req.json()));
+    }
+    if (req.method === "DELETE" && path === "/order") {
+      const body = await req.json() as { orderID?: string };
+      return json(cancelOrder(body.orderID ?? ""));
+    }
+    if (path === "/data/orders") {
+      const open = [...orders.values()].filter(o =>
+        o.status === "LIVE" &&
+        (!param("asset_id") || o.tokenId === param("asset_id")) &&
+        (!param("market") || o.conditionId === param("market"))
+      );
+      return json({ data: open.map(orderJson), next_cursor: END_CURSOR, limit: 500, count: open.length });
+    }
+    if (path.startsWith("/data/order/")) {
+      const order = orders.get(path.slice("/data/order/".length));
+      return json(order ? orderJson(order) : null);
+    }
+    if (path === "/data/trades") {
+      const matching = trades.filter(t =>
+        (!param("asset_id") || t.asset_id === param("asset_id")) &&
+        (!param("market") || t.market === param("market"))
+      );
+      return json({ data: matching, next_cursor: END_CURSOR, limit: 500, count: matching.length });
+    }
+
+    return json({ error: `mock: no route for ${req.method} ${path}` }, 404);
+  };
+
+  // ---- WebSocket messages ----
+
+  const handleSocketMessage = (ws: ServerWebSocket<SocketData>, raw: string) => {
+    if (raw === "PING") {
+      ws.send("PONG");
+      return;
+    }
+    let msg: any;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (ws.data.channel === "user") {
+      // Any auth is accepted; every account event goes to every authenticated socket
+      if (msg.auth) ws.data.authed = true;
+      return;
+    }
+
+    const assets: string[] = Array.isArray(msg.assets_ids) ? msg.assets_ids.map(String) : [];
+    if (msg.operation === "unsubscribe") {
+      for (const id of assets) ws.data.assets.delete(id);
+      return;
+    }
+    const added = assets.filter(id => !ws.data.assets.has(id));
+    for (const id of added) ws.data.assets.add(id);
+    // New subscriptions get a snapshot of each book, as the real channel does
+    if (added.length > 0) {
+      ws.send(JSON.stringify(added.map(bookMessage)));
+    }
+  };
+
+  const server = Bun.serve<SocketData>({
+    port: options.port ?? 0,
+    fetch(req, srv) {
+      const path = new URL(req.url).pathname;
+      if (path === "/ws/market" || path === "/ws/user") {
+        const channel = path === "/ws/market" ? "market" : "user";
+        if (srv.upgrade(req, { data: { channel, assets: new Set<string>(), authed: false } })) return;
+        return new Response("WebSocket upgrade failed", { status: 400 });
+      }
+      return handleRequest(req);
+    },
+    websocket: {
+      open(ws) {
+        sockets.add(ws);
+      },
+      close(ws) {
+        sockets.delete(ws);
+      },
+      message(ws, message) {
+        handleSocketMessage(ws, message.toString());
+      },
+    },
+  });
+
+  // ---- Scenario ----
+
+  scenario.markets.forEach((spec, i) => {
+    const market = markets[i];
+    setBook(market.upTokenId, spec.up ?? { bids: [], asks: [] });
+    setBook(market.downTokenId, spec.down ?? { bids: [], asks: [] });
+  });
+  for (const step of scenario.steps) {
+    timers.push(setTimeout(() => {
+      const market = markets[step.market ?? 0];
+      if (!market) return;
+      if (step.book) {
+        setBook(step.book.outcome === "UP" ? market.upTokenId : market.downTokenId, step.book);
+      }
+      if (step.resolve) {
+        resolve(market.slug, step.resolve);
+      }
+    }, step.atMs));
+  }
+
+  const httpUrl = `http://localhost:${server.port}`;
+  return {
+    gammaUrl: httpUrl,
+    clobUrl: httpUrl,
+    wsUrl: `ws://localhost:${server.port}`,
+    markets: markets.map(({ slug, conditionId, upTokenId, downTokenId, endDate }) => ({ slug, conditionId, upTokenId, downTokenId, endDate })),
+    setBook,
+    resolve,
+    getBalance: () => collateral,
+    getPosition: (tokenId: string) => positions.get(tokenId) ?? 0,
+    getOrders: () => [...orders.values()].map(order => ({ ...order })),
+    stop: () => {
+      for (const timer of timers) clearTimeout(timer);
+      server.stop(true);
+      sockets.clear();
+    },
+  };
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: "string", default: "8080" },
+      scenario: { type: "string" },
+      balance: { type: "string", default: "1000" },
+    },
+  });
+
+  const scenario = values.scenario
+    ? JSON.parse(readFileSync(values.scenario, "utf-8")) as MockScenario
+    : DEFAULT_SCENARIO;
+  const server = startMockPolymarketServer({
+    port: parseInt(values.port!, 10),
+    scenario,
+    balanceUsdc: parseFloat(values.balance!),
+  });
+
+  console.log(`[MOCK-POLY] Gamma + CLOB REST at ${server.clobUrl}, WebSocket at ${server.wsUrl}`);
+  for (const market of server.markets) {
+    console.log(`[MOCK-POLY] ${market.slug} ends ${market.endDate.toISOString()} (Up ${market.upTokenId}, Down ${market.downTokenId})`);
+  }
+
+  process.on("SIGINT", () => {
+    server.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,177 @@
+#!/usr/bin/env bun
+/**
+ * Mock BTC spot price server
+ * Serves a Binance-compatible combined kline stream (1m + 1h) from a random walk,
+ * so the spot feed and spot entry filters can be exercised without Binance.
+ *
+ * Usage: bun run src/mock/spot-server.ts [--port 9443] [--price 100000] [--interval 1000] [--volatility 0.0005]
+ * Then set spot.wsUrl to ws://localhost:<port> in trading.config.json
+ */
+
+import { parseArgs } from "util";
+import type { ServerWebSocket } from "bun";
+import { systemClock, type Clock } from "../clock";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export interface MockSpotServerOptions {
+  port?: number;        // 0 = pick a free port
+  symbol?: string;
+  startPrice?: number;
+  intervalMs?: number;  // How often to move the price and broadcast klines (0 = only on step())
+  volatility?: number;  // Std dev of each step's log return
+  clock?: Clock;        // Time source for candles and event times (tests drive a ManualClock)
+}
+
+export interface MockSpotServer {
+  url: string;
+  /** Current mock price */
+  getPrice(): number;
+  /** Jump the price (e.g. to cross the hour's open); the random walk continues from there */
+  setPrice(price: number): void;
+  /** Move the price and broadcast klines now (rolling candles at the clock's time) */
+  step(): void;
+  stop(): void;
+}
+
+interface Candle {
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+}
+
+/**
+ * Start a mock spot server; prices follow a random walk until stopped
+ */
+export function startMockSpotServer(options: MockSpotServerOptions = {}): MockSpotServer {
+  const symbol = (options.symbol ?? "btcusdt").toUpperCase();
+  const intervalMs = options.intervalMs ?? 1000;
+  const volatility = options.volatility ?? 0.0005;
+  const clock = options.clock ?? systemClock;
+  const clients = new Set<ServerWebSocket<unknown>>();
+
+  let price = options.startPrice ?? 100000;
+  let minute: Candle | null = null;
+  let hour: Candle | null = null;
+
+  const klineMessage = (interval: "1m" | "1h", candle: Candle, close: number, closed: boolean, now: number) =>
+    JSON.stringify({
+      stream: `${symbol.toLowerCase()}@kline_${interval}`,
+      data: {
+        e: "kline",
+        E: now,
+        s: symbol,
+        k: {
+          t: candle.start,
+          T: candle.start + (interval === "1m" ? MINUTE_MS : HOUR_MS) - 1,
+          s: symbol,
+          i: interval,
+          o: candle.open.toFixed(2),
+          c: close.toFixed(2),
+          h: candle.high.toFixed(2),
+          l: candle.low.toFixed(2),
+          x: closed,
+        },
+      },
+    });
+
+  const broadcast = (message: string) => {
+    for (const ws of clients) {
+      ws.send(message);
+    }
+  };
+
+  const rollCandle = (candle: Candle | null, periodMs: number, interval: "1m" | "1h", now: number): Candle => {
+    const start = Math.floor(now / periodMs) * periodMs;
+    if (candle && candle.start === start) {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      return candle;
+    }
+    // Close out the previous candle at the last price before opening the new one
+    if (candle) {
+      broadcast(klineMessage(interval, candle, price, true, now));
+    }
+    return { start, open: price, high: price, low: price };
+  };
+
+  const step = () => {
+    const now = clock.now();
+    minute = rollCandle(minute, MINUTE_MS, "1m", now);
+    hour = rollCandle(hour, HOUR_MS, "1h", now);
+
+    // Random walk (Box-Muller normal step)
+    const z = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+    price = price * Math.exp(volatility * z);
+    minute.high = Math.max(minute.high, price);
+    minute.low = Math.min(minute.low, price);
+    hour.high = Math.max(hour.high, price);
+    hour.low = Math.min(hour.low, price);
+
+    broadcast(klineMessage("1m", minute, price, false, now));
+    broadcast(klineMessage("1h", hour, price, false, now));
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    fetch(req, srv) {
+      if (srv.upgrade(req)) return;
+      return new Response("Mock spot server: connect via WebSocket at /stream", { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        clients.add(ws);
+      },
+      close(ws) {
+        clients.delete(ws);
+      },
+      message() {
+        // Streams are selected by URL; client messages are ignored
+      },
+    },
+  });
+
+  const timer = intervalMs > 0 ? setInterval(step, intervalMs) : null;
+  step();
+
+  return {
+    url: `ws://localhost:${server.port}`,
+    getPrice: () => price,
+    setPrice: (next: number) => {
+      price = next;
+    },
+    step,
+    stop: () => {
+      if (timer) clearInterval(timer);
+      server.stop(true);
+      clients.clear();
+    },
+  };
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: "string", default: "9443" },
+      price: { type: "string", default: "100000" },
+      interval: { type: "string", default: "1000" },
+      volatility: { type: "string", default: "0.0005" },
+    },
+  });
+
+  const server = startMockSpotServer({
+    port: parseInt(values.port!, 10),
+    startPrice: parseFloat(values.price!),
+    intervalMs: parseInt(values.interval!, 10),
+    volatility: parseFloat(values.volatility!),
+  });
+  console.log(`[MOCK-SPOT] Serving BTCUSDT klines at ${server.url}`);
+
+  process.on("SIGINT", () => {
+    server.stop();
+    process.exit(0);
+  });
+}
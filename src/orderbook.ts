@@ -0,0 +1,194 @@
+/**
+ * L2 order book
+ * Per-token price levels kept up to date from WebSocket `book` snapshots and
+ * `price_change` deltas, plus helpers to simulate fills by walking the book
+ */
+
+export type BookSide = "BUY" | "SELL"; // BUY = bids, SELL = asks
+
+export interface BookLevel {
+  price: number;
+  size: number; // Shares resting at this price
+}
+
+export interface BookSnapshot {
+  tokenId: string;
+  bids: BookLevel[]; // Best (highest) first
+  asks: BookLevel[]; // Best (lowest) first
+  timestamp: number;
+}
+
+export interface BookFill {
+  shares: number;     // Shares filled
+  notional: number;   // USDC paid (buy) or received (sell)
+  avgPrice: number;   // VWAP of the fill (0 if nothing filled)
+  levels: number;     // Price levels touched
+  complete: boolean;  // False if the book (or the price limit) ran out first
+}
+
+// Book shape near the top, for the entry depth filters
+export interface DepthMetrics {
+  bidDepth: number;         // Shares bid within the band of the best bid
+  askDepth: number;         // Shares offered within the band of the best ask
+  imbalance: number;        // (bidDepth - askDepth) / (bidDepth + askDepth): 1 = all bids, -1 = all asks
+  askDepthToLimit: number;  // USDC offered at or below the max entry price
+}
+
+export interface DepthFilterParams {
+  depthBand: number;         // Price distance from the best bid/ask counted as depth
+  minBidDepth: number;       // Shares (0 = disabled)
+  minAskDepthUsdc: number;   // USDC up to maxEntryPrice (0 = disabled)
+  minBookImbalance: number;  // -1 = disabled
+}
+
+export type DepthFilterDecision =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+export class L2Book {
+  readonly tokenId: string;
+  private bids: Map<number, number> = new Map(); // price -> size
+  private asks: Map<number, number> = new Map();
+  private updatedAt = 0;
+
+  constructor(tokenId: string) {
+    this.tokenId = tokenId;
+  }
+
+  /**
+   * Replace all levels from a full `book` message
+   */
+  applySnapshot(bids: BookLevel[], asks: BookLevel[], timestamp: number): void {
+    this.bids.clear();
+    this.asks.clear();
+    for (const level of bids) this.setLevel(this.bids, level.price, level.size);
+    for (const level of asks) this.setLevel(this.asks, level.price, level.size);
+    this.updatedAt = timestamp;
+  }
+
+  /**
+   * Apply a `price_change` delta (size is the new total at that price; 0 removes the level)
+   */
+  applyDelta(side: BookSide, price: number, size: number, timestamp: number): void {
+    this.setLevel(side === "BUY" ? this.bids : this.asks, price, size);
+    this.updatedAt = Math.max(this.updatedAt, timestamp);
+  }
+
+  getUpdatedAt(): number {
+    return this.updatedAt;
+  }
+
+  snapshot(): BookSnapshot {
+    return {
+      tokenId: this.tokenId,
+      bids: [...this.bids].map(([price, size]) => ({ price, size })).sort((a, b) => b.price - a.price),
+      asks: [...this.asks].map(([price, size]) => ({ price, size })).sort((a, b) => a.price - b.price),
+      timestamp: this.updatedAt,
+    };
+  }
+
+  private setLevel(levels: Map<number, number>, price: number, size: number): void {
+    if (!Number.isFinite(price) || price <= 0 || price >= 1) return;
+    if (!Number.isFinite(size) || size <= 0) {
+      levels.delete(price);
+    } else {
+      levels.set(price, size);
+    }
+  }
+}
+
+/**
+ * Depth within `band` of each side's best price, imbalance, and asks priced up to `maxPrice`
+ */
+export function depthMetrics(book: BookSnapshot, band: number, maxPrice: number): DepthMetrics {
+  const bestBid = book.bids[0]?.price ?? 0;
+  const bestAsk = book.asks[0]?.price ?? 1;
+  const bidDepth = book.bids
+    .filter((level) => level.price >= bestBid - band - 1e-9)
+    .reduce((sum, level) => sum + level.size, 0);
+  const askDepth = book.asks
+    .filter((level) => level.price <= bestAsk + band + 1e-9)
+    .reduce((sum, level) => sum + level.size, 0);
+  const askDepthToLimit = book.asks
+    .filter((level) => level.price <= maxPrice + 1e-9)
+    .reduce((sum, level) => sum + level.size * level.price, 0);
+  const total = bidDepth + askDepth;
+  return { bidDepth, askDepth, imbalance: total > 0 ? (bidDepth - askDepth) / total : 0, askDepthToLimit };
+}
+
+/**
+ * Whether the filters with a threshold set are off (no book needed)
+ */
+export function depthFiltersDisabled(params: DepthFilterParams): boolean {
+  return params.minBidDepth <= 0 && params.minAskDepthUsdc <= 0 && params.minBookImbalance <= -1;
+}
+
+/**
+ * Check a token's book against the depth filters
+ * Entries are blocked while an enabled filter has no book to check
+ */
+export function checkDepth(depth: DepthMetrics | null, params: DepthFilterParams): DepthFilterDecision {
+  if (depthFiltersDisabled(params)) {
+    return { ok: true };
+  }
+  if (!depth) {
+    return { ok: false, reason: "no fresh order book" };
+  }
+  if (params.minBidDepth > 0 && depth.bidDepth < params.minBidDepth) {
+    return { ok: false, reason: `${depth.bidDepth.toFixed(0)} shares bid near the top (need ${params.minBidDepth})` };
+  }
+  if (params.minAskDepthUsdc > 0 && depth.askDepthToLimit < params.minAskDepthUsdc) {
+    return { ok: false, reason: `$${depth.askDepthToLimit.toFixed(2)} offered up to max entry (need $${params.minAskDepthUsdc})` };
+  }
+  if (params.minBookImbalance > -1 && depth.imbalance < params.minBookImbalance) {
+    return { ok: false, reason: `book imbalance ${depth.imbalance.toFixed(2)} (need ${params.minBookImbalance})` };
+  }
+  return { ok: true };
+}
+
+/**
+ * Shares resting at exactly `price` (0 if there is no such level)
+ */
+export function sizeAtPrice(levels: BookLevel[], price: number): number {
+  return levels.find((level) => Math.abs(level.price - price) < 1e-9)?.size ?? 0;
+}
+
+/**
+ * Spend up to `usdc` buying from the asks, never paying more than `maxPrice`
+ */
+export function walkAsks(asks: BookLevel[], usdc: number, maxPrice = 1): BookFill {
+  let remaining = usdc;
+  let shares = 0;
+  let levels = 0;
+
+  for (const level of asks) {
+    if (remaining <= 1e-9 || level.price > maxPrice) break;
+    const take = Math.min(level.size, remaining / level.price);
+    shares += take;
+    remaining -= take * level.price;
+    levels++;
+  }
+
+  const notional = usdc - remaining;
+  return { shares, notional, avgPrice: shares > 0 ? notional / shares : 0, levels, complete: remaining <= 1e-9 };
+}
+
+/**
+ * Sell up to `shares` into the bids, never selling below `minPrice`
+ */
+export function walkBids(bids: BookLevel[], shares: number, minPrice = 0): BookFill {
+  let remaining = shares;
+  let notional = 0;
+  let levels = 0;
+
+  for (const level of bids) {
+    if (remaining <= 1e-9 || level.price < minPrice) break;
+    const take = Math.min(level.size, remaining);
+    notional += take * level.price;
+    remaining -= take;
+    levels++;
+  }
+
+  const filled = shares - remaining;
+  return { shares: filled, notional, avgPrice: filled > 0 ? notional / filled : 0, levels, complete: remaining <= 1e-9 };
+}
@@ -1,3 +1,5 @@
+import { systemClock, type Clock } from "./clock";
+
 /**
  * Simple rate limiter to prevent API throttling
  * Uses token bucket algorithm with configurable rate
@@ -7,12 +9,14 @@ export class RateLimiter {
   private lastRefill: number;
   private readonly maxTokens: number;
   private readonly refillRate: number; // tokens per second
+  private readonly clock: Clock;
 
-  constructor(maxRequestsPerSecond: number = 5) {
+  constructor(maxRequestsPerSecond: number = 5, clock: Clock = systemClock) {
     this.maxTokens = maxRequestsPerSecond;
     this.tokens = maxRequestsPerSecond;
     this.refillRate = maxRequestsPerSecond;
-    this.lastRefill = Date.now();
+    this.clock = clock;
+    this.lastRefill = clock.now();
   }
 
   /**
@@ -36,7 +40,7 @@ export class RateLimiter {
   }
 
   private refillTokens(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const elapsed = (now - this.lastRefill) / 1000;
     this.tokens = Math.min(this.maxTokens, this.tokens + elapsed * this.refillRate);
     this.lastRefill = now;
@@ -0,0 +1,141 @@
+/**
+ * Startup reconciliation
+ * Compares OPEN trades in the database with share balances and open orders on the exchange,
+ * and proposes a fix for every mismatch (applied automatically when safe, otherwise by the operator)
+ */
+
+import type { Trade } from "./db";
+import type { Side } from "./strategy";
+
+const SHARE_TOLERANCE = 0.01;
+
+// A market outcome token the bot could hold (from the current market list)
+export interface KnownToken {
+  tokenId: string;
+  marketSlug: string;
+  side: Side;
+  marketEndDate: string;
+}
+
+export interface OpenOrderSummary {
+  orderId: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  remainingShares: number;
+}
+
+export interface ExchangeSnapshot {
+  balances: Map<string, number | null>;  // tokenId -> shares held (null = balance API error)
+  openOrders: OpenOrderSummary[];
+}
+
+export type ReconcileFix =
+  | { type: "KEEP" }                                               // Nothing can be verified; leave the DB as is
+  | { type: "SET_SHARES"; shares: number }                         // Trust the exchange balance
+  | { type: "CLOSE_TRADE" }                                        // DB trade has no shares on the exchange
+  | { type: "IMPORT_POSITION"; shares: number; token: KnownToken } // Exchange position with no DB trade
+  | { type: "CANCEL_ORDER"; orderId: string };                     // Order the bot did not leave behind
+
+export interface ReconcileIssue {
+  id: string;              // Stable key ("trade:<id>", "orphan:<tokenId>", "order:<orderId>")
+  tokenId: string;
+  marketSlug: string | null;
+  tradeId: number | null;
+  description: string;
+  fix: ReconcileFix;
+  needsOperator: boolean;  // False = safe to apply automatically
+}
+
+/**
+ * Normalize an order from the CLOB open orders endpoint
+ */
+export function parseOpenOrder(raw: any): OpenOrderSummary | null {
+  const orderId = raw?.id ?? raw?.orderID;
+  const tokenId = raw?.asset_id ?? raw?.tokenID;
+  if (!orderId || !tokenId) return null;
+  const originalSize = parseFloat(raw.original_size ?? raw.size ?? "0");
+  const matched = parseFloat(raw.size_matched ?? "0");
+  return {
+    orderId,
+    tokenId,
+    side: String(raw.side).toUpperCase() === "SELL" ? "SELL" : "BUY",
+    price: parseFloat(raw.price ?? "0"),
+    remainingShares: Math.max(0, originalSize - matched),
+  };
+}
+
+/**
+ * Compare OPEN trades with the exchange and list every mismatch with its proposed fix
+ */
+export function reconcile(openTrades: Trade[], knownTokens: KnownToken[], exchange: ExchangeSnapshot): ReconcileIssue[] {
+  const issues: ReconcileIssue[] = [];
+  const tradedTokens = new Set(openTrades.map(t => t.token_id));
+
+  for (const trade of openTrades) {
+    const base = { tokenId: trade.token_id, marketSlug: trade.market_slug, tradeId: trade.id };
+    const balance = exchange.balances.get(trade.token_id) ?? null;
+
+    if (balance === null) {
+      issues.push({
+        ...base,
+        id: `trade:${trade.id}`,
+        description: `Trade #${trade.id} ${trade.side}: cannot verify shares (API error) - keeping DB value ${trade.shares.toFixed(2)}`,
+        fix: { type: "KEEP" },
+        needsOperator: false,
+      });
+    } else if (balance < SHARE_TOLERANCE) {
+      // Sold outside the bot, or resolved and redeemed - the exit price is unknown
+      issues.push({
+        ...base,
+        id: `trade:${trade.id}`,
+        description: `Trade #${trade.id} ${trade.side}: DB has ${trade.shares.toFixed(2)} shares, exchange has none - close the trade`,
+        fix: { type: "CLOSE_TRADE" },
+        needsOperator: true,
+      });
+    } else if (Math.abs(balance - trade.shares) > SHARE_TOLERANCE) {
+      issues.push({
+        ...base,
+        id: `trade:${trade.id}`,
+        description: `Trade #${trade.id} ${trade.side}: DB has ${trade.shares.toFixed(2)} shares, exchange has ${balance.toFixed(2)} - using exchange balance`,
+        fix: { type: "SET_SHARES", shares: balance },
+        needsOperator: false,
+      });
+    }
+  }
+
+  // Positions held on the exchange that the database does not know about
+  for (const token of knownTokens) {
+    if (tradedTokens.has(token.tokenId)) continue;
+    const balance = exchange.balances.get(token.tokenId) ?? null;
+    if (balance === null || balance < SHARE_TOLERANCE) continue;
+    issues.push({
+      id: `orphan:${token.tokenId}`,
+      tokenId: token.tokenId,
+      marketSlug: token.marketSlug,
+      tradeId: null,
+      description: `${token.side} in ${token.marketSlug}: ${balance.toFixed(2)} shares on exchange with no DB trade - import and manage it`,
+      fix: { type: "IMPORT_POSITION", shares: balance, token },
+      needsOperator: true,
+    });
+  }
+
+  // The bot never leaves orders resting across restarts (exits are market sells, maker bids are
+  // cancelled), so every open order is stray. Sells on a tracked position lock the shares the
+  // stop-loss needs and are cancelled automatically; anything else may be the operator's own.
+  for (const order of exchange.openOrders) {
+    const trade = openTrades.find(t => t.token_id === order.tokenId);
+    const locksPosition = order.side === "SELL" && trade !== undefined;
+    issues.push({
+      id: `order:${order.orderId}`,
+      tokenId: order.tokenId,
+      marketSlug: trade?.market_slug ?? knownTokens.find(t => t.tokenId === order.tokenId)?.marketSlug ?? null,
+      tradeId: trade?.id ?? null,
+      description: `Open ${order.side} order ${order.orderId.slice(0, 10)}... for ${order.remainingShares.toFixed(2)} @ $${order.price.toFixed(2)}${locksPosition ? " locks position shares" : ""} - cancel it`,
+      fix: { type: "CANCEL_ORDER", orderId: order.orderId },
+      needsOperator: !locksPosition,
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,183 @@
+/**
+ * Live tick recorder
+ * Buffers every PriceUpdate from the price stream and writes it to backtest.db `price_history`
+ * tagged as recorded, so backtests can replay the real best bid/ask instead of synthetic spreads.
+ * Trade tape trades go to `trade_tape` (replays rebuild the tape from them)
+ */
+
+import { systemScheduler, type Scheduler, type TimerHandle } from "./clock";
+import {
+  ensureHistoricalMarket,
+  setHistoricalMarketOutcome,
+  storeRecordedTicks,
+  storeRecordedTrades,
+  type RecordedTick,
+  type RecordedTrade,
+} from "./db";
+import type { MarketCalendar } from "./market-calendar";
+import type { Market } from "./scanner";
+import type { TapeTrade } from "./trade-tape";
+import type { PriceUpdate } from "./websocket";
+
+const MAX_BUFFERED_TICKS = 50000; // Drop the oldest ticks (and trades) if writes keep failing
+
+export type RecorderLog = (message: string) => void;
+
+export class TickRecorder {
+  private buffer: RecordedTick[] = [];
+  private trades: RecordedTrade[] = [];
+  private tokenSlugs: Map<string, string> = new Map(); // tokenId -> market slug
+  private knownMarkets: Set<string> = new Set();
+  private timer: TimerHandle | null = null;
+  private recorded = 0;
+  private recordedTrades = 0;
+  private log: RecorderLog;
+  private scheduler: Scheduler;
+
+  constructor(log: RecorderLog, scheduler: Scheduler = systemScheduler) {
+    this.log = log;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Flush buffered ticks every `flushIntervalMs`
+   */
+  start(flushIntervalMs: number): void {
+    this.stop();
+    this.timer = this.scheduler.setInterval(() => this.flush(), flushIntervalMs);
+  }
+
+  /**
+   * Stop the flush timer and write what is buffered
+   */
+  stop(): void {
+    if (this.timer) {
+      this.scheduler.clear(this.timer);
+      this.timer = null;
+    }
+    this.flush();
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Map tokens to their market and store the market's metadata the first time it is seen
+   * Markets come from the scanner in [up, down] outcome order; their start comes from the family's calendar
+   */
+  trackMarkets(markets: Market[], calendar: MarketCalendar): void {
+    for (const market of markets) {
+      if (market.clobTokenIds.length < 2) continue;
+      const [upTokenId, downTokenId] = market.clobTokenIds;
+      this.tokenSlugs.set(upTokenId, market.slug);
+      this.tokenSlugs.set(downTokenId, market.slug);
+
+      if (this.knownMarkets.has(market.slug)) continue;
+      try {
+        const endDate = new Date(market.endDate);
+        ensureHistoricalMarket({
+          slug: market.slug,
+          question: market.question,
+          startDate: calendar.parse(market.slug, endDate.getTime())?.start ?? new Date(endDate.getTime() - calendar.family.durationMs),
+          endDate,
+          upTokenId,
+          downTokenId,
+        });
+        this.knownMarkets.add(market.slug);
+      } catch (err) {
+        this.log(`[RECORDER] Failed to store market ${market.slug}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  /**
+   * Buffer a price update (tokens of untracked markets are skipped)
+   */
+  record(update: PriceUpdate): void {
+    const marketSlug = this.tokenSlugs.get(update.tokenId);
+    if (!marketSlug) return;
+    this.buffer.push({
+      tokenId: update.tokenId,
+      marketSlug,
+      timestamp: update.timestamp,
+      bestBid: update.bestBid,
+      bestAsk: update.bestAsk,
+      midPrice: update.price,
+      source: update.source,
+    });
+    if (this.buffer.length > MAX_BUFFERED_TICKS) {
+      this.buffer.splice(0, this.buffer.length - MAX_BUFFERED_TICKS);
+    }
+  }
+
+  /**
+   * Buffer a trade from the trade tape (tokens of untracked markets are skipped)
+   */
+  recordTrade(trade: TapeTrade): void {
+    const marketSlug = this.tokenSlugs.get(trade.tokenId);
+    if (!marketSlug) return;
+    this.trades.push({
+      tokenId: trade.tokenId,
+      marketSlug,
+      timestamp: trade.timestamp,
+      price: trade.price,
+      size: trade.size,
+      side: trade.side,
+    });
+    if (this.trades.length > MAX_BUFFERED_TICKS) {
+      this.trades.splice(0, this.trades.length - MAX_BUFFERED_TICKS);
+    }
+  }
+
+  /**
+   * Store a resolved market's winner alongside its recorded ticks
+   */
+  setOutcome(marketSlug: string, winner: "UP" | "DOWN"): void {
+    if (!this.knownMarkets.has(marketSlug)) return;
+    try {
+      setHistoricalMarketOutcome(marketSlug, winner);
+    } catch (err) {
+      this.log(`[RECORDER] Failed to store outcome for ${marketSlug}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Write buffered ticks and trades (one transaction each); on failure they stay buffered for the next flush
+   */
+  flush(): void {
+    if (this.buffer.length > 0) {
+      const ticks = this.buffer;
+      this.buffer = [];
+      try {
+        storeRecordedTicks(ticks);
+        this.recorded += ticks.length;
+      } catch (err) {
+        this.buffer = ticks.concat(this.buffer);
+        this.log(`[RECORDER] Failed to write ${ticks.length} ticks (will retry): ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    if (this.trades.length > 0) {
+      const trades = this.trades;
+      this.trades = [];
+      try {
+        storeRecordedTrades(trades);
+        this.recordedTrades += trades.length;
+      } catch (err) {
+        this.trades = trades.concat(this.trades);
+        this.log(`[RECORDER] Failed to write ${trades.length} trades (will retry): ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  /** Ticks written since startup */
+  getRecordedCount(): number {
+    return this.recorded;
+  }
+
+  /** Trades written since startup */
+  getRecordedTradeCount(): number {
+    return this.recordedTrades;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Re-entry policy
+ * Limits how often the bot may enter a market; shared by the bot and the backtest engine
+ */
+
+import type { ReentryConfig } from "./config";
+import type { ClosedTradeSummary, MarketSnapshot, Side } from "./strategy";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Trade history lookups needed by the re-entry policy (SQLite in the bot, in-memory in the backtest)
+export interface ReentryHistory {
+  /** Number of entries (open or closed) in a market */
+  entriesInMarket(marketSlug: string): number;
+  /** Time (ms) of the most recent stop-loss exit in a market, or null */
+  lastStopLossAt(marketSlug: string): number | null;
+  /** Most recent losing closed trade for a side in a market, or null */
+  lastLosingTrade(marketSlug: string, side: Side): ClosedTradeSummary | null;
+  /** Number of entries across all markets at or after `timestamp` */
+  entriesSince(timestamp: number): number;
+}
+
+export type ReentryDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/**
+ * Check whether the re-entry policy allows entering the snapshot's token
+ */
+export function checkReentry(config: ReentryConfig, history: ReentryHistory, snapshot: MarketSnapshot): ReentryDecision {
+  const { marketSlug, side, timestamp } = snapshot;
+
+  if (config.maxEntriesPerMarket > 0) {
+    const entries = history.entriesInMarket(marketSlug);
+    if (entries >= config.maxEntriesPerMarket) {
+      return { allowed: false, reason: `${entries}/${config.maxEntriesPerMarket} entries in this market` };
+    }
+  }
+
+  if (config.stopLossCooldownMs > 0) {
+    const stoppedAt = history.lastStopLossAt(marketSlug);
+    if (stoppedAt !== null && timestamp < stoppedAt + config.stopLossCooldownMs) {
+      const until = new Date(stoppedAt + config.stopLossCooldownMs).toISOString().slice(11, 19);
+      return { allowed: false, reason: `stop-loss cooldown until ${until} UTC` };
+    }
+  }
+
+  if (!config.allowSameSideAfterLoss && history.lastLosingTrade(marketSlug, side)) {
+    return { allowed: false, reason: `${side} already lost in this market` };
+  }
+
+  if (config.maxEntriesPerHour > 0) {
+    const entries = history.entriesSince(timestamp - HOUR_MS);
+    if (entries >= config.maxEntriesPerHour) {
+      return { allowed: false, reason: `${entries}/${config.maxEntriesPerHour} entries in the last hour` };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Short description of a re-entry policy for logs and reports
+ */
+export function describeReentry(config: ReentryConfig): string {
+  const rules: string[] = [];
+  if (config.maxEntriesPerMarket > 0) rules.push(`max ${config.maxEntriesPerMarket}/market`);
+  if (config.stopLossCooldownMs > 0) rules.push(`${Math.round(config.stopLossCooldownMs / 1000)}s cooldown after stop`);
+  if (!config.allowSameSideAfterLoss) rules.push("no same side after loss");
+  if (config.maxEntriesPerHour > 0) rules.push(`max ${config.maxEntriesPerHour}/hour`);
+  return rules.length > 0 ? rules.join(", ") : "unrestricted";
+}
@@ -0,0 +1,92 @@
+/**
+ * Risk guards (circuit breakers)
+ * Halt new entries after too much realized loss in a UTC day, a losing streak or a drawdown
+ * from peak equity; shared by the bot and the backtest engine
+ */
+
+import type { RiskGuardConfig } from "./config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Closed trade lookups needed by the risk guards (SQLite in the bot, in-memory in the backtest)
+export interface RiskHistory {
+  /** Realized PnL of trades closed at or after `timestamp` */
+  realizedPnlSince(timestamp: number): number;
+  /** Consecutive losing trades, counted back from the most recent, closed at or after `timestamp` */
+  losingStreakSince(timestamp: number): number;
+}
+
+export interface RiskSnapshot {
+  equity: number;      // Balance plus open positions at cost (includes saved profit)
+  peakEquity: number;  // Highest equity since the guards were last reset
+  resetAt: number;     // When the guards were last reset (losing streaks count from here)
+  timestamp: number;
+}
+
+export interface RiskHalt {
+  reason: string;
+  trippedAt: number;
+  until: number;  // Entries resume at this time (ms)
+}
+
+/**
+ * Start (ms) of the UTC day containing `timestamp`
+ */
+export function startOfUtcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Check every guard and return the first one that trips, or null
+ * A halt lasts `coolOffMs` (or until the next UTC day when 0); a daily loss halt always
+ * lasts at least until the next UTC day
+ */
+export function checkRiskGuards(config: RiskGuardConfig, history: RiskHistory, snapshot: RiskSnapshot): RiskHalt | null {
+  const { timestamp } = snapshot;
+  const nextDay = startOfUtcDay(timestamp) + DAY_MS;
+  const until = config.coolOffMs > 0 ? timestamp + config.coolOffMs : nextDay;
+
+  if (config.maxDailyLossUsdc > 0) {
+    const loss = -history.realizedPnlSince(startOfUtcDay(timestamp));
+    if (loss >= config.maxDailyLossUsdc) {
+      return {
+        reason: `daily loss $${loss.toFixed(2)} reached limit $${config.maxDailyLossUsdc.toFixed(2)}`,
+        trippedAt: timestamp,
+        until: Math.max(until, nextDay),
+      };
+    }
+  }
+
+  if (config.maxConsecutiveLosses > 0) {
+    const streak = history.losingStreakSince(snapshot.resetAt);
+    if (streak >= config.maxConsecutiveLosses) {
+      return { reason: `${streak} consecutive losses`, trippedAt: timestamp, until };
+    }
+  }
+
+  if (config.maxDrawdown > 0 && snapshot.peakEquity > 0) {
+    const drawdown = (snapshot.peakEquity - snapshot.equity) / snapshot.peakEquity;
+    if (drawdown >= config.maxDrawdown) {
+      return {
+        reason: `drawdown ${(drawdown * 100).toFixed(1)}% from peak $${snapshot.peakEquity.toFixed(2)}`,
+        trippedAt: timestamp,
+        until,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short description of the risk guards for logs and reports
+ */
+export function describeRiskGuards(config: RiskGuardConfig): string {
+  const rules: string[] = [];
+  if (config.maxDailyLossUsdc > 0) rules.push(`max $${config.maxDailyLossUsdc.toFixed(2)} loss/day`);
+  if (config.maxConsecutiveLosses > 0) rules.push(`max ${config.maxConsecutiveLosses} losses in a row`);
+  if (config.maxDrawdown > 0) rules.push(`max ${(config.maxDrawdown * 100).toFixed(0)}% drawdown`);
+  if (rules.length === 0) return "off";
+  const coolOff = config.coolOffMs > 0 ? `${Math.round(config.coolOffMs / 60000)}m cool-off` : "halt until next UTC day";
+  return `${rules.join(", ")} (${coolOff})`;
+}
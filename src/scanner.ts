@@ -1,6 +1,10 @@
 import { gammaLimiter } from "./rate-limiter";
+import { systemClock, type Clock } from "./clock";
+import { checkDepth, type DepthFilterParams, type DepthMetrics } from "./orderbook";
+import { MarketCalendar } from "./market-calendar";
+import { BTC_HOURLY_FAMILY, outcomeIndexes, type MarketFamily } from "./market-family";
 
-const GAMMA_API = "https://gamma-api.polymarket.com";
+const GAMMA_API = "https://gamma-api.polymarket.com"; // Default, overridden by endpoints.gammaUrl
 
 function parseJsonField<T>(value: unknown): T[] {
   if (typeof value === "string") {
@@ -12,6 +16,7 @@ function parseJsonField<T>(value: unknown): T[] {
   return [];
 }
 
+// Outcomes, prices and token IDs are in [up, down] order (see parseMarket)
 export interface Market {
   id: string;
   slug: string;
@@ -39,60 +44,23 @@ export interface EligibleMarket {
 }
 
 /**
- * Generate the slug for a BTC 1-hour market based on a date
- * Format: bitcoin-up-or-down-{month}-{day}-{hour}{am/pm}-et
- * Example: bitcoin-up-or-down-january-24-5pm-et
+ * Open markets of the family for the current and next period, soonest first
  */
-function generateBtcHourlySlug(date: Date): string {
-  // Convert to Eastern Time using Intl.DateTimeFormat for reliable timezone handling
-  // This approach preserves timezone context correctly
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "numeric",
-    day: "numeric",
-    hour: "numeric",
-    hour12: true
-  });
-
-  const parts = formatter.formatToParts(date);
-  const partMap: Record<string, string> = {};
-  for (const part of parts) {
-    partMap[part.type] = part.value;
-  }
-
-  const months = ["january", "february", "march", "april", "may", "june",
-                  "july", "august", "september", "october", "november", "december"];
-  const monthIndex = parseInt(partMap.month || "1", 10) - 1;
-  const month = months[monthIndex];
-  const day = parseInt(partMap.day || "1", 10);
-  const hour = parseInt(partMap.hour || "12", 10);
-  const ampm = (partMap.dayPeriod || "AM").toLowerCase();
-
-  return `bitcoin-up-or-down-${month}-${day}-${hour}${ampm}-et`;
-}
-
-export async function fetchBtc1HourMarkets(): Promise<Market[]> {
+export async function fetchFamilyMarkets(
+  family: MarketFamily = BTC_HOURLY_FAMILY,
+  gammaUrl: string = GAMMA_API,
+  clock: Clock = systemClock
+): Promise<Market[]> {
   const markets: Market[] = [];
-  const now = new Date();
-
-  // Generate slugs for current and next hour
-  const slugsToTry: string[] = [];
-  for (let i = 0; i < 2; i++) {
-    const targetTime = new Date(now.getTime() + i * 60 * 60 * 1000);
-    // Round to hour start
-    targetTime.setMinutes(0, 0, 0);
-    slugsToTry.push(generateBtcHourlySlug(targetTime));
-  }
 
-  // Remove duplicates
-  const uniqueSlugs = [...new Set(slugsToTry)];
+  // Slugs of the current and next period
+  const slugsToTry = new MarketCalendar(family).schedule(clock.now(), 2).map(period => period.slug);
 
-  for (const slug of uniqueSlugs) {
+  for (const slug of slugsToTry) {
     try {
       // Rate limit API calls
       await gammaLimiter.acquire();
-      const res = await fetch(`${GAMMA_API}/events?slug=${slug}`);
+      const res = await fetch(`${gammaUrl}/events?slug=${slug}`);
       if (!res.ok) continue;
 
       const events = await res.json();
@@ -104,7 +72,7 @@ export async function fetchBtc1HourMarkets(): Promise<Market[]> {
         for (const market of event.markets) {
           if (market.closed) continue;
 
-          const parsed = parseMarket(event, market);
+          const parsed = parseMarket(event, market, family);
           if (parsed && !markets.find(m => m.id === parsed.id)) {
             markets.push(parsed);
           }
@@ -119,7 +87,11 @@ export async function fetchBtc1HourMarkets(): Promise<Market[]> {
   return markets;
 }
 
-function parseMarket(event: any, market: any): Market | null {
+/**
+ * Market from a Gamma event, with outcomes reordered to the family's [up, down]
+ * (null if it lacks either outcome label)
+ */
+function parseMarket(event: any, market: any, family: MarketFamily): Market | null {
   try {
     const outcomes = parseJsonField<string>(market.outcomes);
     const outcomePrices = parseJsonField<string>(market.outcomePrices);
@@ -128,15 +100,19 @@ function parseMarket(event: any, market: any): Market | null {
     if (outcomes.length < 2 || clobTokenIds.length < 2) {
       return null;
     }
+    const { up, down } = outcomeIndexes(family, outcomes);
+    if (up < 0 || down < 0) {
+      return null;
+    }
 
     return {
       id: market.id,
       slug: event.slug,
       question: market.question || event.title,
       endDate: market.endDate || event.endDate,
-      outcomes,
-      outcomePrices,
-      clobTokenIds,
+      outcomes: [outcomes[up], outcomes[down]],
+      outcomePrices: outcomePrices.length >= 2 ? [outcomePrices[up], outcomePrices[down]] : outcomePrices,
+      clobTokenIds: [clobTokenIds[up], clobTokenIds[down]],
       active: market.active !== false,
       closed: market.closed === true
     };
@@ -149,6 +125,7 @@ function parseMarket(event: any, market: any): Market | null {
 export interface PriceData {
   bestBid: number;
   bestAsk: number;
+  depth?: DepthMetrics | null;  // Book depth (WebSocket books, when a depth filter is set)
 }
 
 export interface PriceOverride {
@@ -164,15 +141,17 @@ export interface MarketFilterConfig {
 
 export function analyzeMarket(
   market: Market,
-  config: { entryThreshold: number; timeWindowMs: number; maxEntryPrice?: number; maxSpread?: number },
-  priceOverrides?: PriceOverride
+  config: { entryThreshold: number; timeWindowMs: number; maxEntryPrice?: number; maxSpread?: number; depthFilter?: DepthFilterParams },
+  priceOverrides?: PriceOverride,
+  clock: Clock = systemClock
 ): EligibleMarket {
   const endDate = new Date(market.endDate);
-  const now = new Date();
+  const now = new Date(clock.now());
   const timeRemaining = endDate.getTime() - now.getTime();
 
-  const upIndex = market.outcomes.findIndex(o => o.toLowerCase() === "up");
-  const downIndex = market.outcomes.findIndex(o => o.toLowerCase() === "down");
+  // Market sources return outcomes in [up, down] order
+  const upIndex = market.outcomes.length >= 2 ? 0 : -1;
+  const downIndex = market.outcomes.length >= 2 ? 1 : -1;
 
   const upTokenId = upIndex >= 0 ? market.clobTokenIds[upIndex] : "";
   const downTokenId = downIndex >= 0 ? market.clobTokenIds[downIndex] : "";
@@ -215,16 +194,20 @@ export function analyzeMarket(
   const maxEntry = config.maxEntryPrice ?? 0.99;
   const maxSpread = config.maxSpread ?? 1.0;  // Default: no spread filter
 
+  // Book depth filters (no-op unless a threshold is set; Gamma prices have no book)
+  const depthOk = (tokenId: string): boolean =>
+    !config.depthFilter || checkDepth(priceOverrides?.[tokenId]?.depth ?? null, config.depthFilter).ok;
+
   if (timeRemaining > 0 && timeRemaining <= config.timeWindowMs) {
     const upSpread = upAsk - upBid;
     const downSpread = downAsk - downBid;
 
-    // Check UP side: within entry range AND spread OK
-    if (upAsk >= config.entryThreshold && upAsk <= maxEntry && upSpread <= maxSpread) {
+    // Check UP side: within entry range AND spread OK AND book deep enough
+    if (upAsk >= config.entryThreshold && upAsk <= maxEntry && upSpread <= maxSpread && depthOk(upTokenId)) {
       eligibleSide = "UP";
     }
-    // Check DOWN side: within entry range AND spread OK
-    else if (downAsk >= config.entryThreshold && downAsk <= maxEntry && downSpread <= maxSpread) {
+    // Check DOWN side: within entry range AND spread OK AND book deep enough
+    else if (downAsk >= config.entryThreshold && downAsk <= maxEntry && downSpread <= maxSpread && depthOk(downTokenId)) {
       eligibleSide = "DOWN";
     }
   }
@@ -246,10 +229,11 @@ export function analyzeMarket(
 
 export function findEligibleMarkets(
   markets: Market[],
-  config: { entryThreshold: number; timeWindowMs: number; maxEntryPrice?: number; maxSpread?: number },
-  priceOverrides?: PriceOverride
+  config: { entryThreshold: number; timeWindowMs: number; maxEntryPrice?: number; maxSpread?: number; depthFilter?: DepthFilterParams },
+  priceOverrides?: PriceOverride,
+  clock: Clock = systemClock
 ): EligibleMarket[] {
-  const analyzed = markets.map(m => analyzeMarket(m, config, priceOverrides));
+  const analyzed = markets.map(m => analyzeMarket(m, config, priceOverrides, clock));
   return analyzed.filter(m => m.eligibleSide !== null);
 }
 
@@ -264,10 +248,14 @@ export function formatTimeRemaining(ms: number): string {
  * Fetch market resolution for a specific market slug
  * Returns the winning side ("UP" or "DOWN") or null if not resolved
  */
-export async function fetchMarketResolution(slug: string): Promise<"UP" | "DOWN" | null> {
+export async function fetchMarketResolution(
+  slug: string,
+  gammaUrl: string = GAMMA_API,
+  family: MarketFamily = BTC_HOURLY_FAMILY
+): Promise<"UP" | "DOWN" | null> {
   try {
     await gammaLimiter.acquire();
-    const res = await fetch(`${GAMMA_API}/events?slug=${slug}`);
+    const res = await fetch(`${gammaUrl}/events?slug=${slug}`);
     if (!res.ok) return null;
 
     const events = await res.json();
@@ -283,8 +271,7 @@ export async function fetchMarketResolution(slug: string): Promise<"UP" | "DOWN"
         if (outcomes.length < 2 || outcomePrices.length < 2) continue;
 
         // Find UP and DOWN indices
-        const upIndex = outcomes.findIndex(o => o.toLowerCase() === "up");
-        const downIndex = outcomes.findIndex(o => o.toLowerCase() === "down");
+        const { up: upIndex, down: downIndex } = outcomeIndexes(family, outcomes);
 
         if (upIndex < 0 || downIndex < 0) continue;
 
@@ -301,3 +288,22 @@ export async function fetchMarketResolution(slug: string): Promise<"UP" | "DOWN"
   }
   return null;
 }
+
+/**
+ * Where the bot gets its market list and resolutions (Gamma live, recorded data in replays)
+ */
+export interface MarketSource {
+  fetchMarkets(): Promise<Market[]>;
+  fetchResolution(slug: string): Promise<"UP" | "DOWN" | null>;
+}
+
+export function gammaMarketSource(
+  gammaUrl: string = GAMMA_API,
+  clock: Clock = systemClock,
+  family: MarketFamily = BTC_HOURLY_FAMILY
+): MarketSource {
+  return {
+    fetchMarkets: () => fetchFamilyMarkets(family, gammaUrl, clock),
+    fetchResolution: (slug) => fetchMarketResolution(slug, gammaUrl, family)
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Shadow mode fill comparison
+ * Paper fills taken alongside a live account are checked against what the real book
+ * offered over the next few seconds, to validate paper fill assumptions
+ */
+
+import type { Clock, Scheduler, TimerHandle } from "./clock";
+import { walkAsks, walkBids, type BookSnapshot } from "./orderbook";
+import type { PaperTakerFill, VenueLog } from "./venue";
+
+const SAMPLE_INTERVAL_MS = 250;
+
+export interface ShadowComparison {
+  fill: PaperTakerFill;
+  windowMs: number;
+  samples: number;            // Book snapshots taken during the window
+  endPrice: number | null;    // VWAP for the same order on the book at the end of the window
+  bestPrice: number | null;   // Best VWAP seen during the window
+  worstPrice: number | null;  // Worst VWAP seen during the window
+  fillable: boolean;          // Full size was available at the paper price or better at some point
+}
+
+export interface ShadowComparatorOptions {
+  windowMs: () => number;  // Read per fill so config hot-reload applies
+  getBook: (tokenId: string) => BookSnapshot | null;
+  onResult: (result: ShadowComparison) => void;
+  log: VenueLog;
+  clock: Clock;
+  scheduler: Scheduler;
+}
+
+/**
+ * VWAP of the same order against a book (null if nothing would fill)
+ * Buys spend the paper notional on the asks; sells put the paper shares into the bids
+ */
+function bookFill(fill: PaperTakerFill, book: BookSnapshot): { price: number; complete: boolean } | null {
+  const walk = fill.side === "BUY"
+    ? walkAsks(book.asks, fill.shares * fill.price)
+    : walkBids(book.bids, fill.shares);
+  return walk.shares > 0 ? { price: walk.avgPrice, complete: walk.complete } : null;
+}
+
+export class ShadowComparator {
+  private options: ShadowComparatorOptions;
+  private timers: Set<TimerHandle> = new Set();
+
+  constructor(options: ShadowComparatorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Sample the book for the configured window after a paper fill, then report
+   */
+  track(fill: PaperTakerFill): void {
+    const windowMs = this.options.windowMs();
+    const { clock, scheduler } = this.options;
+    const startedAt = clock.now();
+    const better = (a: number, b: number) => fill.side === "BUY" ? a < b : a > b;
+    const result: ShadowComparison = {
+      fill,
+      windowMs,
+      samples: 0,
+      endPrice: null,
+      bestPrice: null,
+      worstPrice: null,
+      fillable: false,
+    };
+
+    const timer = scheduler.setInterval(() => {
+      const book = this.options.getBook(fill.tokenId);
+      const sample = book ? bookFill(fill, book) : null;
+      if (sample) {
+        result.samples++;
+        result.endPrice = sample.price;
+        if (result.bestPrice === null || better(sample.price, result.bestPrice)) result.bestPrice = sample.price;
+        if (result.worstPrice === null || better(result.worstPrice, sample.price)) result.worstPrice = sample.price;
+        const atPaperPrice = fill.side === "BUY" ? sample.price <= fill.price + 1e-9 : sample.price >= fill.price - 1e-9;
+        if (sample.complete && atPaperPrice) result.fillable = true;
+      }
+
+      if (clock.now() - startedAt < windowMs) return;
+      scheduler.clear(timer);
+      this.timers.delete(timer);
+      this.report(result);
+    }, SAMPLE_INTERVAL_MS);
+    this.timers.add(timer);
+  }
+
+  /**
+   * Drop comparisons still sampling (bot shutdown)
+   */
+  stop(): void {
+    for (const timer of this.timers) this.options.scheduler.clear(timer);
+    this.timers.clear();
+  }
+
+  private report(result: ShadowComparison): void {
+    const { fill } = result;
+    const action = fill.side === "BUY" ? "Buy" : "Sell";
+    const seconds = (result.windowMs / 1000).toFixed(1);
+    if (result.endPrice === null || result.bestPrice === null || result.worstPrice === null) {
+      this.options.log(`[SHADOW] ${action} ${fill.shares.toFixed(2)} @ $${fill.price.toFixed(3)} paper - no book to compare over ${seconds}s`, { tokenId: fill.tokenId });
+    } else {
+      // Positive = the book was worse than the paper fill (paid more / received less)
+      const diff = fill.side === "BUY" ? result.endPrice - fill.price : fill.price - result.endPrice;
+      const drift = fill.price > 0 ? (diff / fill.price) * 100 : 0;
+      this.options.log(
+        `[SHADOW] ${action} ${fill.shares.toFixed(2)} @ $${fill.price.toFixed(3)} paper vs book over ${seconds}s: ` +
+        `$${result.bestPrice.toFixed(3)}-$${result.worstPrice.toFixed(3)}, $${result.endPrice.toFixed(3)} at end (${drift >= 0 ? "+" : ""}${drift.toFixed(2)}%)` +
+        `${result.fillable ? "" : " - full size never available at the paper price"}`,
+        { tokenId: fill.tokenId }
+      );
+    }
+    this.options.onResult(result);
+  }
+}
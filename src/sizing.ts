@@ -0,0 +1,101 @@
+/**
+ * Position sizing
+ * Decides how much USDC to spend on an entry; shared by the bot and the backtest engine
+ */
+
+import type { SizingConfig } from "./config";
+import { MIN_ORDER_SIZE } from "./trader";
+
+export interface SizingInput {
+  availableBalance: number; // Balance minus reserved (in-flight) balance
+  price: number;            // Entry price per share
+  feeRate?: number;         // Fee deducted from shares (paper/backtest), default 0
+}
+
+export type SizingResult =
+  | { ok: true; usdc: number; shares: number }
+  | { ok: false; reason: string };
+
+/**
+ * Full Kelly fraction for buying a binary outcome share at `price`
+ * that pays $1 with probability `winProbability`
+ */
+export function kellyFraction(winProbability: number, price: number): number {
+  if (price <= 0 || price >= 1) return 0;
+  return (winProbability - price) / (1 - price);
+}
+
+/**
+ * Calculate the USDC to spend on an entry under the configured policy
+ * Sizes below MIN_ORDER_SIZE shares are raised to the minimum when the
+ * balance (and maxUsdc cap) allow it, otherwise the entry is rejected
+ */
+export function calculatePositionSize(config: SizingConfig, input: SizingInput): SizingResult {
+  const { availableBalance, price } = input;
+  const feeRate = input.feeRate ?? 0;
+
+  if (availableBalance < 1) {
+    return { ok: false, reason: "insufficient balance" };
+  }
+  if (price <= 0 || price >= 1) {
+    return { ok: false, reason: `invalid price $${price.toFixed(2)}` };
+  }
+
+  let usdc: number;
+  switch (config.policy) {
+    case "fixed":
+      usdc = config.fixedUsdc;
+      break;
+    case "fraction":
+      usdc = availableBalance * config.fraction;
+      break;
+    case "kelly": {
+      const fraction = kellyFraction(config.winProbability, price) * config.kellyMultiplier;
+      if (fraction <= 0) {
+        return { ok: false, reason: `no edge (p=${config.winProbability.toFixed(2)} at $${price.toFixed(2)})` };
+      }
+      usdc = availableBalance * Math.min(fraction, 1);
+      break;
+    }
+    case "all":
+    default:
+      usdc = availableBalance;
+      break;
+  }
+
+  // Cap per trade, never more than is available
+  if (config.maxUsdc > 0) {
+    usdc = Math.min(usdc, config.maxUsdc);
+  }
+  usdc = Math.min(usdc, availableBalance);
+
+  // Polymarket requires at least MIN_ORDER_SIZE shares
+  const minUsdc = MIN_ORDER_SIZE * price / (1 - feeRate);
+  if (usdc < minUsdc) {
+    const maxAllowed = config.maxUsdc > 0 ? Math.min(config.maxUsdc, availableBalance) : availableBalance;
+    if (maxAllowed < minUsdc) {
+      return { ok: false, reason: `need $${minUsdc.toFixed(2)} for ${MIN_ORDER_SIZE} shares, can spend $${maxAllowed.toFixed(2)}` };
+    }
+    usdc = minUsdc;
+  }
+
+  return { ok: true, usdc, shares: (usdc / price) * (1 - feeRate) };
+}
+
+/**
+ * Short description of a sizing policy for logs and reports
+ */
+export function describeSizing(config: SizingConfig): string {
+  const cap = config.maxUsdc > 0 ? `, max $${config.maxUsdc.toFixed(2)}` : "";
+  switch (config.policy) {
+    case "fixed":
+      return `fixed $${config.fixedUsdc.toFixed(2)}${cap}`;
+    case "fraction":
+      return `${(config.fraction * 100).toFixed(0)}% of balance${cap}`;
+    case "kelly":
+      return `${config.kellyMultiplier}x Kelly (p=${config.winProbability.toFixed(2)})${cap}`;
+    case "all":
+    default:
+      return `all available balance${cap}`;
+  }
+}
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ManualClock } from "./clock";
+import { startMockSpotServer, type MockSpotServer } from "./mock/spot-server";
+import { KlineSpotFeed, checkSpotDistance } from "./spot";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const MAX_AGE_MS = 5000;
+const HOUR_START = Date.parse("2026-01-01T10:00:00Z");
+const MARKET_END = HOUR_START + HOUR_MS;
+const OPEN = 100000;
+
+let clock: ManualClock;
+let server: MockSpotServer;
+let feed: KlineSpotFeed;
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the spot feed");
+    await Bun.sleep(5);
+  }
+}
+
+/**
+ * Move the mock to `price` at `timestamp` and wait until the feed has the resulting klines
+ */
+async function publish(price: number, timestamp: number = clock.now()): Promise<void> {
+  clock.set(timestamp);
+  server.setPrice(price);
+  server.step();
+  // The 1h kline is sent last, so once it shows up the whole step has arrived
+  await waitFor(() => feed.getPrice()?.timestamp === timestamp && feed.getPrice()?.price === price);
+}
+
+/**
+ * Publish one closed minute per price, a minute apart, after the current time
+ */
+async function publishMinutes(prices: number[]): Promise<void> {
+  for (const price of prices) {
+    await publish(price, clock.now() + MINUTE_MS);
+  }
+}
+
+// Std dev of 1-minute log returns, computed independently of the feed
+function stdDevOfLogReturns(closes: number[]): number {
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+}
+
+beforeEach(async () => {
+  clock = new ManualClock(HOUR_START + 1000);
+  server = startMockSpotServer({ port: 0, intervalMs: 0, volatility: 0, startPrice: OPEN, clock });
+  feed = new KlineSpotFeed({ wsUrl: server.url, symbol: "btcusdt" }, clock);
+  await feed.connect();
+  await publish(OPEN);
+});
+
+afterEach(() => {
+  feed.close();
+  server.stop();
+});
+
+describe("market open", () => {
+  test("records the open of the current hour", () => {
+    expect(feed.getOpenAt(HOUR_START)).toBe(OPEN);
+    expect(feed.getOpenAt(HOUR_START - HOUR_MS)).toBeNull();
+  });
+
+  test("keeps the first open when later klines of the hour arrive", async () => {
+    await publish(OPEN + 500, HOUR_START + 20 * MINUTE_MS);
+    expect(feed.getOpenAt(HOUR_START)).toBe(OPEN);
+    expect(feed.getPrice()?.price).toBe(OPEN + 500);
+  });
+
+  test("captures the next hour's open when the hour rolls", async () => {
+    await publish(OPEN + 250, MARKET_END + 500);
+    expect(feed.getOpenAt(MARKET_END)).toBe(OPEN + 250);
+    expect(feed.getOpenAt(HOUR_START)).toBe(OPEN);
+  });
+
+  test("a feed joining mid-hour takes the open from the 1h kline", async () => {
+    await publish(OPEN + 800, HOUR_START + 30 * MINUTE_MS);
+    const late = new KlineSpotFeed({ wsUrl: server.url, symbol: "btcusdt" }, clock);
+    try {
+      await late.connect();
+      server.step();
+      await waitFor(() => late.getPrice() !== null);
+      expect(late.getOpenAt(HOUR_START)).toBe(OPEN);
+    } finally {
+      late.close();
+    }
+  });
+
+  test("markets starting mid-hour measure from the open of their first minute", async () => {
+    const quarterStart = HOUR_START + 15 * MINUTE_MS;
+    await publish(OPEN + 80, quarterStart + 500);
+    await publish(OPEN + 100, quarterStart + 5 * MINUTE_MS);
+    expect(feed.getOpenAt(quarterStart)).toBe(OPEN + 80);
+
+    // $100 above the hour's open but only $20 above the quarter's
+    const params = { minSpotDistanceUsd: 50, minSpotDistanceSigma: 0 };
+    const check = (start: number, end: number) => checkSpotDistance(feed, params, "UP", start, end, clock.now(), MAX_AGE_MS);
+    expect(check(HOUR_START, MARKET_END)).toEqual({ ok: true });
+    expect(check(quarterStart, quarterStart + 15 * MINUTE_MS)).toEqual({ ok: false, reason: "spot $20 from open (need $50)" });
+  });
+
+  test("entries are blocked until the market's open is known", () => {
+    const decision = checkSpotDistance(feed, { minSpotDistanceUsd: 10, minSpotDistanceSigma: 0 }, "UP", HOUR_START - HOUR_MS, HOUR_START, clock.now(), MAX_AGE_MS);
+    expect(decision).toEqual({ ok: false, reason: "market open unknown" });
+  });
+});
+
+describe("USD distance", () => {
+  const params = { minSpotDistanceUsd: 50, minSpotDistanceSigma: 0 };
+  const check = (side: "UP" | "DOWN") => checkSpotDistance(feed, params, side, HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS);
+
+  test("passes the side spot has moved towards", async () => {
+    await publish(OPEN + 60);
+    expect(check("UP")).toEqual({ ok: true });
+    expect(check("DOWN")).toEqual({ ok: false, reason: "spot $-60 from open (need $50)" });
+
+    await publish(OPEN - 75);
+    expect(check("DOWN")).toEqual({ ok: true });
+    expect(check("UP").ok).toBe(false);
+  });
+
+  test("blocks both sides while spot is within the distance", async () => {
+    await publish(OPEN + 40);
+    expect(check("UP")).toEqual({ ok: false, reason: "spot $40 from open (need $50)" });
+    expect(check("DOWN").ok).toBe(false);
+  });
+
+  test("passes everything when both filters are off", () => {
+    expect(checkSpotDistance(feed, { minSpotDistanceUsd: 0, minSpotDistanceSigma: 0 }, "DOWN", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS)).toEqual({ ok: true });
+  });
+});
+
+describe("sigma distance", () => {
+  // Eleven closed minutes (the ten returns volatility needs) zigzagging around the open
+  const minutes = [100100, 99950, 100080, 99900, 100120, 99980, 100050, 99920, 100070, 100010, 100040];
+
+  test("blocks entries while volatility is warming up", async () => {
+    await publishMinutes(minutes.slice(0, 9));
+    expect(feed.getMinuteVolatility()).toBeNull();
+    const decision = checkSpotDistance(feed, { minSpotDistanceUsd: 0, minSpotDistanceSigma: 1 }, "UP", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS);
+    expect(decision).toEqual({ ok: false, reason: "spot volatility warming up" });
+  });
+
+  test("measures distance in expected moves over the time remaining", async () => {
+    await publishMinutes(minutes);
+    await publish(OPEN + 300);
+
+    // Each step closes the previous minute at the new price, so the closes are the published minutes
+    const volatility = stdDevOfLogReturns(minutes);
+    expect(feed.getMinuteVolatility()).toBeCloseTo(volatility, 12);
+
+    const minutesRemaining = (MARKET_END - clock.now()) / MINUTE_MS;
+    const sigmas = 300 / ((OPEN + 300) * volatility * Math.sqrt(minutesRemaining));
+    const check = (minSpotDistanceSigma: number) =>
+      checkSpotDistance(feed, { minSpotDistanceUsd: 0, minSpotDistanceSigma }, "UP", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS);
+
+    expect(check(sigmas * 0.95)).toEqual({ ok: true });
+    expect(check(sigmas * 1.05)).toEqual({ ok: false, reason: `spot ${sigmas.toFixed(2)} sigma from open (need ${sigmas * 1.05})` });
+  });
+
+  test("the same distance counts for more sigmas closer to the end", async () => {
+    await publishMinutes(minutes);
+    await publish(OPEN + 300);
+    const check = (now: number) =>
+      checkSpotDistance(feed, { minSpotDistanceUsd: 0, minSpotDistanceSigma: 1 }, "UP", HOUR_START, MARKET_END, now, MAX_AGE_MS);
+    expect(check(clock.now()).ok).toBe(false);
+    expect(check(MARKET_END - MINUTE_MS)).toEqual({ ok: true });
+  });
+});
+
+describe("stale and disconnected feed", () => {
+  const params = { minSpotDistanceUsd: 50, minSpotDistanceSigma: 0 };
+
+  test("blocks entries once the last price is older than maxAgeMs", async () => {
+    await publish(OPEN + 100);
+    clock.advance(MAX_AGE_MS + 1);
+    expect(feed.getPrice(MAX_AGE_MS)).toBeNull();
+    expect(checkSpotDistance(feed, params, "UP", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS)).toEqual({ ok: false, reason: "no fresh spot price" });
+
+    await publish(OPEN + 100);
+    expect(checkSpotDistance(feed, params, "UP", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS)).toEqual({ ok: true });
+  });
+
+  test("blocks entries as soon as the feed disconnects, even with a fresh price", async () => {
+    await publish(OPEN + 100);
+    const changes: boolean[] = [];
+    feed.onConnectionChange(connected => changes.push(connected));
+
+    server.stop();
+    await waitFor(() => !feed.isConnected());
+    expect(changes).toEqual([false]);
+    expect(feed.getPrice(MAX_AGE_MS)).not.toBeNull();
+    expect(checkSpotDistance(feed, params, "UP", HOUR_START, MARKET_END, clock.now(), MAX_AGE_MS)).toEqual({ ok: false, reason: "spot feed disconnected" });
+  });
+});
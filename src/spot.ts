@@ -0,0 +1,308 @@
+import WebSocket from "ws";
+import type { SpotConfig } from "./config";
+import { systemClock, type Clock } from "./clock";
+import type { Side } from "./strategy";
+
+const MINUTE_MS = 60 * 1000;
+const MAX_MINUTE_CLOSES = 61; // One hour of 1-minute returns
+const MIN_VOLATILITY_SAMPLES = 10;
+const MAX_OPENS = 3 * 60; // Minute opens kept (covers the longest market, 2h on the DST fall-back day)
+
+// Exponential backoff constants (same as PriceStream)
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export interface SpotPrice {
+  price: number;
+  timestamp: number;
+}
+
+type SpotPriceCallback = (update: SpotPrice) => void;
+type SpotConnectionCallback = (connected: boolean) => void;
+
+/**
+ * Underlying BTC spot price source
+ * Implementations only need to report prices, period opens and recent volatility
+ */
+export interface SpotFeed {
+  connect(): Promise<void>;
+  close(): void;
+  isConnected(): boolean;
+  /** Latest spot price, or null if none has arrived (or it is older than maxAgeMs) */
+  getPrice(maxAgeMs?: number): SpotPrice | null;
+  /** Opening price at `start` (ms, a whole minute), or null if not seen */
+  getOpenAt(start: number): number | null;
+  /** Std dev of recent 1-minute log returns, or null while warming up */
+  getMinuteVolatility(): number | null;
+  onPrice(callback: SpotPriceCallback): void;
+  onConnectionChange(callback: SpotConnectionCallback): void;
+}
+
+/**
+ * Spot feed backed by a Binance-compatible combined kline stream
+ * (1m klines for the price, minute opens and volatility; 1h klines for the hour's open when
+ * joining mid-hour)
+ */
+export class KlineSpotFeed implements SpotFeed {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private latest: SpotPrice | null = null;
+  private opens: Map<number, number> = new Map(); // minute or hour start (ms) -> open
+  private minuteCloses: number[] = [];
+  private lastClosedMinute = 0;
+  private callbacks: SpotPriceCallback[] = [];
+  private connectionCallbacks: SpotConnectionCallback[] = [];
+  private reconnectTimer: Timer | null = null;
+  private connected = false;
+  private closing = false;
+  private reconnectAttempts = 0;
+  private clock: Clock;
+
+  constructor(config: Pick<SpotConfig, "wsUrl" | "symbol">, clock: Clock = systemClock) {
+    this.clock = clock;
+    const symbol = config.symbol.toLowerCase();
+    const base = config.wsUrl.replace(/\/+$/, "");
+    this.url = `${base}/stream?streams=${symbol}@kline_1m/${symbol}@kline_1h`;
+  }
+
+  connect(): Promise<void> {
+    this.closing = false;
+    return new Promise((resolve, reject) => {
+      try {
+        this.ws = new WebSocket(this.url);
+
+        const timeout = setTimeout(() => {
+          reject(new Error("Spot feed connection timeout"));
+        }, 10000);
+
+        this.ws.onopen = () => {
+          clearTimeout(timeout);
+          this.connected = true;
+          this.reconnectAttempts = 0;
+          this.notifyConnectionChange(true);
+          resolve();
+        };
+
+        this.ws.onmessage = (event) => {
+          try {
+            this.handleMessage(JSON.parse(event.data.toString()));
+          } catch (err) {
+            console.error(`[SPOT] Message parse error: ${err instanceof Error ? err.message : err}`);
+          }
+        };
+
+        this.ws.onerror = () => {
+          clearTimeout(timeout);
+        };
+
+        this.ws.onclose = () => {
+          clearTimeout(timeout);
+          const wasConnected = this.connected;
+          this.connected = false;
+          if (wasConnected) {
+            this.notifyConnectionChange(false);
+          }
+          if (this.closing) return;
+          if (!wasConnected) {
+            reject(new Error("Spot feed connection closed"));
+          }
+
+          // Exponential backoff: 1s, 2s, 4s, ... up to 30s
+          const delay = Math.min(
+            INITIAL_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts),
+            MAX_RECONNECT_DELAY_MS
+          );
+          this.reconnectAttempts++;
+          console.log(`[SPOT] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+          this.reconnectTimer = setTimeout(() => {
+            this.connect().catch((err) => {
+              console.error(`[SPOT] Reconnect failed: ${err instanceof Error ? err.message : err}`);
+            });
+          }, delay);
+        };
+      } catch (err) {
+        reject(err);
+      }
+    });
+  }
+
+  private handleMessage(msg: any) {
+    // Combined stream wraps each event: { stream, data }
+    const data = msg?.data ?? msg;
+    const kline = data?.k;
+    if (data?.e !== "kline" || !kline) return;
+
+    const open = parseFloat(kline.o);
+    const close = parseFloat(kline.c);
+    const start = Number(kline.t);
+    if (!Number.isFinite(open) || !Number.isFinite(close) || open <= 0 || close <= 0) return;
+
+    if (kline.i === "1h") {
+      this.recordOpen(start, open);
+    } else if (kline.i === "1m") {
+      // Every minute's open, so markets starting on any minute know their open
+      this.recordOpen(start, open);
+      if (kline.x && start > this.lastClosedMinute) {
+        this.lastClosedMinute = start;
+        this.minuteCloses.push(close);
+        if (this.minuteCloses.length > MAX_MINUTE_CLOSES) {
+          this.minuteCloses.shift();
+        }
+      }
+    }
+
+    const update: SpotPrice = { price: close, timestamp: Number(data.E) || this.clock.now() };
+    if (!this.latest || update.timestamp >= this.latest.timestamp) {
+      this.latest = update;
+      for (const cb of this.callbacks) {
+        try {
+          cb(update);
+        } catch (err) {
+          console.error(`[SPOT] Price callback error: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+    }
+  }
+
+  private recordOpen(start: number, open: number) {
+    if (this.opens.has(start)) return;
+    this.opens.set(start, open);
+    if (this.opens.size > MAX_OPENS) {
+      const oldest = Math.min(...this.opens.keys());
+      this.opens.delete(oldest);
+    }
+  }
+
+  private notifyConnectionChange(connected: boolean) {
+    for (const cb of this.connectionCallbacks) {
+      try {
+        cb(connected);
+      } catch (err) {
+        console.error(`[SPOT] Connection callback error: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  getPrice(maxAgeMs?: number): SpotPrice | null {
+    if (!this.latest) return null;
+    if (maxAgeMs !== undefined && this.clock.now() - this.latest.timestamp > maxAgeMs) {
+      return null;
+    }
+    return this.latest;
+  }
+
+  getOpenAt(start: number): number | null {
+    return this.opens.get(start) ?? null;
+  }
+
+  getMinuteVolatility(): number | null {
+    if (this.minuteCloses.length < MIN_VOLATILITY_SAMPLES + 1) return null;
+
+    const returns: number[] = [];
+    for (let i = 1; i < this.minuteCloses.length; i++) {
+      returns.push(Math.log(this.minuteCloses[i] / this.minuteCloses[i - 1]));
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance);
+  }
+
+  onPrice(callback: SpotPriceCallback) {
+    this.callbacks.push(callback);
+  }
+
+  onConnectionChange(callback: SpotConnectionCallback) {
+    this.connectionCallbacks.push(callback);
+  }
+
+  close() {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+    this.connected = false;
+  }
+}
+
+export interface SpotFilterParams {
+  minSpotDistanceUsd: number;   // 0 = disabled
+  minSpotDistanceSigma: number; // 0 = disabled
+}
+
+export type SpotFilterDecision =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+/**
+ * Check that spot has moved far enough from the open at the market's start in favour of `side`
+ * Entries are blocked while the feed is disconnected or has no fresh price, open or volatility
+ * for an enabled filter
+ */
+export function checkSpotDistance(
+  feed: SpotFeed,
+  params: SpotFilterParams,
+  side: Side,
+  marketStartTime: number,
+  marketEndTime: number,
+  now: number,
+  maxAgeMs: number
+): SpotFilterDecision {
+  const { minSpotDistanceUsd, minSpotDistanceSigma } = params;
+  if (minSpotDistanceUsd <= 0 && minSpotDistanceSigma <= 0) {
+    return { ok: true };
+  }
+
+  if (!feed.isConnected()) {
+    return { ok: false, reason: "spot feed disconnected" };
+  }
+  const spot = feed.getPrice(maxAgeMs);
+  if (!spot) {
+    return { ok: false, reason: "no fresh spot price" };
+  }
+  const open = feed.getOpenAt(marketStartTime);
+  if (open === null) {
+    return { ok: false, reason: "market open unknown" };
+  }
+
+  // Signed distance in the side's favour (UP wants spot above the open)
+  const distance = side === "UP" ? spot.price - open : open - spot.price;
+
+  if (minSpotDistanceUsd > 0 && distance < minSpotDistanceUsd) {
+    return { ok: false, reason: `spot $${distance.toFixed(0)} from open (need $${minSpotDistanceUsd})` };
+  }
+
+  if (minSpotDistanceSigma > 0) {
+    const volatility = feed.getMinuteVolatility();
+    if (volatility === null) {
+      return { ok: false, reason: "spot volatility warming up" };
+    }
+    // Expected USD move over the time remaining (at least one minute)
+    const minutesRemaining = Math.max(1, (marketEndTime - now) / MINUTE_MS);
+    const sigmaUsd = spot.price * volatility * Math.sqrt(minutesRemaining);
+    const sigmas = sigmaUsd > 0 ? distance / sigmaUsd : 0;
+    if (sigmas < minSpotDistanceSigma) {
+      return { ok: false, reason: `spot ${sigmas.toFixed(2)} sigma from open (need ${minSpotDistanceSigma})` };
+    }
+  }
+
+  return { ok: true };
+}
+
+// Singleton instance
+let spotFeed: SpotFeed | null = null;
+
+export function getSpotFeed(config: Pick<SpotConfig, "wsUrl" | "symbol">, clock?: Clock): SpotFeed {
+  if (!spotFeed) {
+    spotFeed = new KlineSpotFeed(config, clock);
+  }
+  return spotFeed;
+}
@@ -0,0 +1,184 @@
+/**
+ * Shared trading strategy
+ * Pure entry/exit decisions used by both the live bot and the backtest engine,
+ * so a backtest exercises the same rules that trade real money.
+ */
+
+import type { TrailingStopType } from "./config";
+
+export type Side = "UP" | "DOWN";
+
+// Strategy parameters (one trading mode + profit target)
+export interface StrategyParams {
+  entryThreshold: number;
+  maxEntryPrice: number;
+  stopLoss: number;
+  trailingStop: number; // 0 = disabled
+  trailingStopType: TrailingStopType;
+  stopLossDelayMs: number; // Bid must stay at/below the stop this long before selling (0 = disabled)
+  stopLossConfirmTicks: number; // ...and for this many price updates (0 = disabled)
+  maxSpread: number;
+  timeWindowMs: number;
+  profitTarget: number;
+}
+
+// Point-in-time view of one outcome token in a market
+export interface MarketSnapshot {
+  marketSlug: string;
+  tokenId: string;
+  side: Side;
+  bestBid: number;
+  bestAsk: number;
+  timestamp: number;
+  marketEndTime: number;
+}
+
+// Open position as seen by the strategy
+export interface PositionState {
+  tokenId: string;
+  marketSlug: string;
+  side: Side;
+  shares: number;
+  entryPrice: number;
+  highestBid: number; // Highest bid seen since entry (drives the trailing stop)
+  stopBreachedAt: number | null; // When the bid first went at/below the stop (null = not breached)
+  stopBreachTicks: number; // Consecutive price updates at/below the stop
+}
+
+// Per-position values the strategy tracks across price updates
+export interface PositionTracking {
+  highestBid: number;
+  stopBreachedAt: number | null;
+  stopBreachTicks: number;
+}
+
+// Closed trade as seen by the strategy
+export interface ClosedTradeSummary {
+  marketSlug: string;
+  side: Side;
+  pnl: number;
+}
+
+// Trade history lookups needed by entry rules (SQLite in the bot, in-memory in the backtest)
+export interface TradeHistory {
+  /** Most recent winning closed trade for a side in a market, or null */
+  lastWinningTrade(marketSlug: string, side: Side): ClosedTradeSummary | null;
+}
+
+export type EntryDecision =
+  | { enter: true; price: number }
+  | { enter: false; reason: string };
+
+export type ExitDecision =
+  | { action: "HOLD" }
+  | { action: "TAKE_PROFIT"; price: number }
+  | { action: "STOP_LOSS"; price: number };
+
+export interface Strategy {
+  readonly params: StrategyParams;
+  /** Decide whether to buy the snapshot's token at its best ask */
+  evaluateEntry(snapshot: MarketSnapshot, history: TradeHistory): EntryDecision;
+  /** Updated tracking values for a position after a price update (caller stores them on the position) */
+  trackPosition(position: PositionState, snapshot: MarketSnapshot): PositionTracking;
+  /** Current stop price for a position (fixed stop or trailing stop, whichever is higher) */
+  stopPrice(position: PositionState): number;
+  /** Decide whether an open position should be closed at the snapshot's best bid (call trackPosition first) */
+  evaluateExit(position: PositionState, snapshot: MarketSnapshot): ExitDecision;
+}
+
+/**
+ * Default strategy: buy the favourite late in the market when its ask is
+ * within [entryThreshold, maxEntryPrice], exit at profitTarget or the (optionally trailing) stop
+ */
+export class ThresholdStrategy implements Strategy {
+  readonly params: StrategyParams;
+
+  constructor(params: StrategyParams) {
+    this.params = params;
+  }
+
+  evaluateEntry(snapshot: MarketSnapshot, history: TradeHistory): EntryDecision {
+    const { bestBid, bestAsk } = snapshot;
+
+    // Time window (time remaining until market ends)
+    const timeRemaining = snapshot.marketEndTime - snapshot.timestamp;
+    if (timeRemaining <= 0 || timeRemaining > this.params.timeWindowMs) {
+      return { enter: false, reason: "outside time window" };
+    }
+
+    // Spread
+    if (bestAsk - bestBid > this.params.maxSpread) {
+      return { enter: false, reason: "spread too wide" };
+    }
+
+    // Entry range (ask must be >= threshold and <= max)
+    if (bestAsk < this.params.entryThreshold || bestAsk > this.params.maxEntryPrice) {
+      return { enter: false, reason: "ask outside entry range" };
+    }
+
+    // Don't buy if price is at or above profit target
+    if (bestAsk >= this.params.profitTarget) {
+      return { enter: false, reason: "ask at profit target" };
+    }
+
+    // Opposite-side rule: don't re-enter a side that already won in this market
+    if (history.lastWinningTrade(snapshot.marketSlug, snapshot.side)) {
+      return { enter: false, reason: "side already won in this market" };
+    }
+
+    return { enter: true, price: bestAsk };
+  }
+
+  trackPosition(position: PositionState, snapshot: MarketSnapshot): PositionTracking {
+    const highestBid = Math.max(position.highestBid, snapshot.bestBid);
+    const stop = this.stopPrice({ ...position, highestBid });
+
+    // Stop breach resets as soon as the bid recovers above the stop
+    if (snapshot.bestBid > stop) {
+      return { highestBid, stopBreachedAt: null, stopBreachTicks: 0 };
+    }
+
+    return {
+      highestBid,
+      stopBreachedAt: position.stopBreachedAt ?? snapshot.timestamp,
+      stopBreachTicks: position.stopBreachTicks + 1,
+    };
+  }
+
+  stopPrice(position: PositionState): number {
+    const { stopLoss, trailingStop, trailingStopType } = this.params;
+    if (trailingStop <= 0 || position.highestBid <= 0) {
+      return stopLoss;
+    }
+
+    const trailingPrice = trailingStopType === "percent"
+      ? position.highestBid * (1 - trailingStop)
+      : position.highestBid - trailingStop;
+    return Math.max(stopLoss, trailingPrice);
+  }
+
+  evaluateExit(position: PositionState, snapshot: MarketSnapshot): ExitDecision {
+    const bid = snapshot.bestBid;
+
+    if (bid >= this.params.profitTarget) {
+      return { action: "TAKE_PROFIT", price: this.params.profitTarget };
+    }
+
+    if (bid <= this.stopPrice(position) && this.isStopConfirmed(position, snapshot)) {
+      return { action: "STOP_LOSS", price: bid };
+    }
+
+    return { action: "HOLD" };
+  }
+
+  /**
+   * Stop confirmation: every configured condition (duration, tick count) must be met
+   */
+  private isStopConfirmed(position: PositionState, snapshot: MarketSnapshot): boolean {
+    const breachedAt = position.stopBreachedAt ?? snapshot.timestamp;
+    if (snapshot.timestamp - breachedAt < this.params.stopLossDelayMs) {
+      return false;
+    }
+    return position.stopBreachTicks >= this.params.stopLossConfirmTicks;
+  }
+}
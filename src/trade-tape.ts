@@ -0,0 +1,132 @@
+/**
+ * Trade tape
+ * Per-token trades from the market channel's `last_trade_price` events, aggregated into
+ * one-minute buckets (volume, trade count, VWAP, aggressor split) for the tape entry filters
+ */
+
+const MINUTE_MS = 60 * 1000;
+const MAX_TAPE_MINUTES = 60; // Buckets kept per token
+
+export type TradeSide = "BUY" | "SELL"; // Aggressor (taker) side
+
+export interface TapeTrade {
+  tokenId: string;
+  price: number;
+  size: number;             // Shares
+  side: TradeSide | null;   // null if the event did not say
+  timestamp: number;
+}
+
+export interface TapeMinute {
+  minuteStart: number;
+  trades: number;
+  volume: number;      // Shares
+  notional: number;    // USDC
+  buyVolume: number;   // Shares bought by aggressors
+  sellVolume: number;  // Shares sold by aggressors
+}
+
+export interface TapeStats {
+  windowMs: number;
+  trades: number;
+  volume: number;
+  notional: number;
+  vwap: number;              // 0 without trades
+  buyRatio: number | null;   // Aggressor buy share of the volume with a known side (null if none)
+}
+
+export interface TapeFilterParams {
+  tapeWindowMs: number;
+  minTradedUsdc: number;  // 0 = disabled
+  minTrades: number;      // 0 = disabled
+  minBuyRatio: number;    // 0 = disabled
+}
+
+export type TapeFilterDecision =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+export class TradeTape {
+  private minutes: Map<string, TapeMinute[]> = new Map(); // tokenId -> buckets, oldest first
+
+  add(trade: TapeTrade): void {
+    if (!Number.isFinite(trade.size) || trade.size <= 0) return;
+    const minuteStart = Math.floor(trade.timestamp / MINUTE_MS) * MINUTE_MS;
+    let buckets = this.minutes.get(trade.tokenId);
+    if (!buckets) {
+      buckets = [];
+      this.minutes.set(trade.tokenId, buckets);
+    }
+
+    // Trades arrive in order; a late one goes into its own minute if that is still kept
+    let bucket = buckets.find(b => b.minuteStart === minuteStart);
+    if (!bucket) {
+      bucket = { minuteStart, trades: 0, volume: 0, notional: 0, buyVolume: 0, sellVolume: 0 };
+      buckets.push(bucket);
+      buckets.sort((a, b) => a.minuteStart - b.minuteStart);
+      if (buckets.length > MAX_TAPE_MINUTES) buckets.splice(0, buckets.length - MAX_TAPE_MINUTES);
+    }
+    bucket.trades++;
+    bucket.volume += trade.size;
+    bucket.notional += trade.size * trade.price;
+    if (trade.side === "BUY") bucket.buyVolume += trade.size;
+    if (trade.side === "SELL") bucket.sellVolume += trade.size;
+  }
+
+  /**
+   * Per-minute buckets of a token since `since` (all kept buckets by default)
+   */
+  getMinutes(tokenId: string, since = 0): TapeMinute[] {
+    return (this.minutes.get(tokenId) ?? [])
+      .filter(b => b.minuteStart + MINUTE_MS > since)
+      .map(b => ({ ...b }));
+  }
+
+  /**
+   * Totals over the minutes overlapping the last `windowMs` (whole-minute resolution)
+   */
+  getStats(tokenId: string, windowMs: number, now: number): TapeStats {
+    const stats: TapeStats = { windowMs, trades: 0, volume: 0, notional: 0, vwap: 0, buyRatio: null };
+    let buyVolume = 0;
+    let sellVolume = 0;
+    for (const bucket of this.getMinutes(tokenId, now - windowMs)) {
+      stats.trades += bucket.trades;
+      stats.volume += bucket.volume;
+      stats.notional += bucket.notional;
+      buyVolume += bucket.buyVolume;
+      sellVolume += bucket.sellVolume;
+    }
+    if (stats.volume > 0) stats.vwap = stats.notional / stats.volume;
+    if (buyVolume + sellVolume > 0) stats.buyRatio = buyVolume / (buyVolume + sellVolume);
+    return stats;
+  }
+
+  remove(tokenId: string): void {
+    this.minutes.delete(tokenId);
+  }
+}
+
+/**
+ * Whether every tape filter is off
+ */
+export function tapeFiltersDisabled(params: TapeFilterParams): boolean {
+  return params.minTradedUsdc <= 0 && params.minTrades <= 0 && params.minBuyRatio <= 0;
+}
+
+/**
+ * Check a token's recent trading against the tape filters
+ */
+export function checkTape(stats: TapeStats, params: TapeFilterParams): TapeFilterDecision {
+  const window = `${Math.round(params.tapeWindowMs / MINUTE_MS)}m`;
+  if (params.minTradedUsdc > 0 && stats.notional < params.minTradedUsdc) {
+    return { ok: false, reason: `$${stats.notional.toFixed(0)} traded in the last ${window} (need $${params.minTradedUsdc})` };
+  }
+  if (params.minTrades > 0 && stats.trades < params.minTrades) {
+    return { ok: false, reason: `${stats.trades} trades in the last ${window} (need ${params.minTrades})` };
+  }
+  if (params.minBuyRatio > 0 && (stats.buyRatio ?? 0) < params.minBuyRatio) {
+    const ratio = stats.buyRatio === null ? "no aggressor data" : `buy ratio ${stats.buyRatio.toFixed(2)}`;
+    return { ok: false, reason: `${ratio} in the last ${window} (need ${params.minBuyRatio})` };
+  }
+  return { ok: true };
+}
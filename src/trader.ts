@@ -1,8 +1,9 @@
 import { ClobClient, Side } from "@polymarket/clob-client";
 import { Wallet } from "ethers";
 import { clobLimiter } from "./rate-limiter";
+import { recordOrderPlaced, recordOrderFill, recordOrderCancelled } from "./db";
 
-const CLOB_API = "https://clob.polymarket.com";
+const CLOB_API = "https://clob.polymarket.com"; // Default, overridden by endpoints.clobUrl
 const CHAIN_ID = 137; // Polygon
 
 // Polymarket minimum order size in shares
@@ -12,6 +13,7 @@ export const MIN_ORDER_SIZE = 5;
 // feeRateBps: ORDER_FEE_RATE_BPS means max acceptable fee is 10% (1000/10000)
 // This is a ceiling - actual fees are typically ~1% for takers
 // The CLOB API uses this as a slippage/fee tolerance parameter
+// Fees actually charged are read back from fills (LiveVenue) and modelled by the `fees` config section for paper trading
 export const ORDER_FEE_RATE_BPS = 1000;
 
 // Signature types for different wallet types
@@ -36,6 +38,7 @@ export interface ApiCreds {
 
 export class Trader {
   private client: ClobClient | null = null;
+  private publicClient: ClobClient | null = null; // Unauthenticated market data before init (paper mode)
   private signer: Wallet;
   private initialized = false;
   private initError: string | null = null;
@@ -43,11 +46,14 @@ export class Trader {
   private apiCreds: ApiCreds | null = null;
   private signatureType: SignatureType;
   private funderAddress: string | undefined;
+  private readOnly = false; // Shadow mode: reads only, every order call throws
+  private clobUrl: string;
 
-  constructor(privateKey: string, signatureType: SignatureType = 1, funderAddress?: string) {
+  constructor(privateKey: string, signatureType: SignatureType = 1, funderAddress?: string, clobUrl: string = CLOB_API) {
     this.signer = new Wallet(privateKey);
     this.signatureType = signatureType;
     this.funderAddress = funderAddress;
+    this.clobUrl = clobUrl;
   }
 
   async init(): Promise<void> {
@@ -66,7 +72,7 @@ export class Trader {
         // Auto-generate credentials from wallet
         // For proxy wallets, need to pass funder address
         const tempClient = new ClobClient(
-          CLOB_API,
+          this.clobUrl,
           CHAIN_ID,
           this.signer,
           undefined,
@@ -86,7 +92,7 @@ export class Trader {
 
       // Create authenticated client with funder address for proxy wallets
       this.client = new ClobClient(
-        CLOB_API,
+        this.clobUrl,
         CHAIN_ID,
         this.signer,
         creds,
@@ -128,6 +134,31 @@ export class Trader {
     return this.client;
   }
 
+  /**
+   * Client for public market data: the authenticated client once initialized, otherwise an
+   * unauthenticated one (paper mode never calls init)
+   */
+  private ensureReadClient(): ClobClient {
+    if (this.client) return this.client;
+    this.publicClient ??= new ClobClient(this.clobUrl, CHAIN_ID);
+    return this.publicClient;
+  }
+
+  /**
+   * Client for placing or cancelling orders (refused in read-only mode)
+   */
+  private ensureOrderClient(): ClobClient {
+    if (this.readOnly) throw new Error("Trader is read-only (shadow mode) - orders are disabled");
+    return this.ensureClient();
+  }
+
+  /**
+   * Block every order placement and cancel (shadow mode reads the account only)
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+  }
+
   private isBalanceAllowanceError(msg: string): boolean {
     return msg.includes("balance") || msg.includes("allowance");
   }
@@ -243,7 +274,7 @@ export class Trader {
   }
 
   async getPrice(tokenId: string): Promise<{ bid: number; ask: number; mid: number }> {
-    const client = this.ensureClient();
+    const client = this.ensureReadClient();
     try {
       await clobLimiter.acquire();
       const book = await client.getOrderBook(tokenId);
@@ -260,14 +291,6 @@ export class Trader {
   }
 
   async buy(tokenId: string, price: number, usdcAmount: number): Promise<{ orderId: string; shares: number } | null> {
-    const client = this.ensureClient();
-
-    // Validate price is within Polymarket's allowed range (0.01 - 0.99)
-    if (price < 0.01 || price > 0.99) {
-      console.error(`Invalid buy price: $${price.toFixed(4)} (must be 0.01-0.99)`);
-      return null;
-    }
-
     // Calculate shares: shares = usdc / price
     const shares = Math.floor((usdcAmount / price) * 100) / 100; // Round down to 2 decimals
 
@@ -276,6 +299,21 @@ export class Trader {
       return null;
     }
 
+    return this.limitBuy(tokenId, price, shares);
+  }
+
+  /**
+   * Place a limit buy for an exact number of shares (rests on the book if below the ask)
+   */
+  async limitBuy(tokenId: string, price: number, shares: number): Promise<{ orderId: string; shares: number } | null> {
+    const client = this.ensureOrderClient();
+
+    // Validate price is within Polymarket's allowed range (0.01 - 0.99)
+    if (price < 0.01 || price > 0.99) {
+      console.error(`Invalid buy price: $${price.toFixed(4)} (must be 0.01-0.99)`);
+      return null;
+    }
+
     // Polymarket minimum order size is 5 shares
     if (shares < MIN_ORDER_SIZE) {
       console.error(`Order size ${shares.toFixed(2)} below minimum ${MIN_ORDER_SIZE} shares (need $${(MIN_ORDER_SIZE * price).toFixed(2)} USDC)`);
@@ -293,8 +331,10 @@ export class Trader {
       });
 
       if (response.success) {
+        const orderId = response.orderID || "";
+        recordOrderPlaced({ orderId, tokenId, side: "BUY", price, size: shares });
         return {
-          orderId: response.orderID || "",
+          orderId,
           shares
         };
       }
@@ -307,7 +347,7 @@ export class Trader {
   }
 
   async limitSell(tokenId: string, shares: number, price: number, maxRetries: number = 3): Promise<{ orderId: string; price: number } | null> {
-    const client = this.ensureClient();
+    const client = this.ensureOrderClient();
 
     // Validate input shares
     if (!shares || shares < 0.01) {
@@ -342,8 +382,10 @@ export class Trader {
         });
 
         if (response.success) {
+          const orderId = response.orderID || "";
+          recordOrderPlaced({ orderId, tokenId, side: "SELL", price, size: sharesToSell });
           return {
-            orderId: response.orderID || "",
+            orderId,
             price
           };
         }
@@ -396,7 +438,7 @@ export class Trader {
     bidOverride?: number,
     maxRetries: number = 3
   ): Promise<{ orderId: string; price: number } | null> {
-    const client = this.ensureClient();
+    const client = this.ensureOrderClient();
     this.lastMarketSellError = null;
 
     // Validate input shares
@@ -466,6 +508,7 @@ export class Trader {
 
         if (response.success) {
           const orderId = response.orderID || "";
+          recordOrderPlaced({ orderId, tokenId, side: "SELL", price: validBid, size: sharesToSell });
 
           // Get actual fill price instead of placement price.
           // If the order is not fully filled quickly, cancel remainder and retry later.
@@ -494,6 +537,7 @@ export class Trader {
             if (remainingBalance !== null && remainingBalance < 0.01) {
               const actualPrice = finalInfo?.avgPrice || fillInfo?.avgPrice || validBid;
               console.log("[STOP-LOSS] Sell appears fully filled after timeout (position balance is zero)");
+              recordOrderFill(orderId, sharesToSell, actualPrice);
               return {
                 orderId,
                 price: actualPrice
@@ -590,7 +634,7 @@ export class Trader {
    * Get detailed fill information for an order
    * Returns actual filled shares and average fill price
    */
-  async getOrderFillInfo(orderId: string): Promise<{ filled: boolean; filledShares: number; avgPrice: number; status: string } | null> {
+  async getOrderFillInfo(orderId: string): Promise<{ filled: boolean; filledShares: number; avgPrice: number; status: string; tokenId: string } | null> {
     const order = await this.getOrder(orderId);
     if (!order) return null;
 
@@ -602,7 +646,47 @@ export class Trader {
     const avgPrice = parseFloat(order.price || "0");
     const status = (order.status || "").toUpperCase();
 
-    return { filled, filledShares, avgPrice, status };
+    // Keep the orders table in step with what the exchange reports
+    recordOrderFill(orderId, filledShares, avgPrice);
+    if (status === "CANCELLED") {
+      recordOrderCancelled(orderId);
+    }
+
+    return { filled, filledShares, avgPrice, status, tokenId: order.asset_id || "" };
+  }
+
+  /**
+   * Fees charged on an order's fills, from each trade's fee_rate_bps (Polymarket charges
+   * rate x min(price, 1 - price) per share, in USDC on sells and in shares on buys)
+   * Returns the matched shares and the USDC value of the fees, or null on API error or if
+   * no trade for the order is found yet
+   */
+  async getOrderFees(orderId: string, tokenId: string): Promise<{ shares: number; fee: number } | null> {
+    const client = this.ensureClient();
+    try {
+      await clobLimiter.acquire();
+      const trades = await client.getTrades({ asset_id: tokenId });
+      let shares = 0;
+      let fee = 0;
+      const add = (size: number, price: number, feeRateBps: number) => {
+        shares += size;
+        fee += (feeRateBps / 10000) * Math.min(price, 1 - price) * size;
+      };
+      for (const trade of trades || []) {
+        if (trade.taker_order_id === orderId) {
+          add(parseFloat(trade.size), parseFloat(trade.price), parseFloat(trade.fee_rate_bps || "0"));
+        }
+        for (const maker of trade.maker_orders || []) {
+          if (maker.order_id === orderId) {
+            add(parseFloat(maker.matched_amount), parseFloat(maker.price), parseFloat(maker.fee_rate_bps || "0"));
+          }
+        }
+      }
+      return shares > 0 ? { shares, fee } : null;
+    } catch (err) {
+      console.error(`[Trader] getOrderFees API error: ${err instanceof Error ? err.message : err}`);
+      return null;
+    }
   }
 
   /**
@@ -653,12 +737,13 @@ export class Trader {
   }
 
   async cancelOrder(orderId: string, maxRetries: number = 3): Promise<boolean> {
-    const client = this.ensureClient();
+    const client = this.ensureOrderClient();
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         await clobLimiter.acquire();
         await client.cancelOrder({ orderID: orderId });
+        recordOrderCancelled(orderId);
         return true;
       } catch (err) {
         const errMsg = err instanceof Error ? err.message : String(err);
@@ -666,6 +751,7 @@ export class Trader {
         // Check if order is already cancelled/filled (not an error)
         if (errMsg.includes("not found") || errMsg.includes("already") || errMsg.includes("cancelled")) {
           console.log(`[Trader] Order ${orderId.slice(0, 8)}... already cancelled/filled`);
+          recordOrderCancelled(orderId); // A later fill report still marks it FILLED
           return true;
         }
 
@@ -1,21 +1,22 @@
 import React, { useState, useEffect } from "react";
 import { render, Box, Text, useInput, useApp } from "ink";
-import { Bot, type BotConfig, type BotState, type WsStats } from "./bot";
+import { Bot, type BotConfig, type BotState, type Position, type WsStats } from "./bot";
 import { getRecentTrades, getTotalPnL, getTradeStats, type Trade } from "./db";
 import { formatTimeRemaining, type EligibleMarket } from "./scanner";
+import type { ReconcileIssue } from "./reconcile";
 
 interface AppProps {
   bot: Bot;
 }
 
 function Header({ state, config }: { state: BotState; config: BotConfig }) {
-  const borderColor = state.paperTrading ? "yellow" : "cyan";
+  const borderColor = state.paperTrading || state.shadowMode ? "yellow" : "cyan";
 
   return (
     <Box flexDirection="column" borderStyle="single" borderColor={borderColor} paddingX={1}>
       <Box justifyContent="space-between">
         <Text bold color={borderColor}>
-          POLYMARKET BTC 1-HOUR BOT {state.paperTrading && "[PAPER]"}
+          POLYMARKET BTC 1-HOUR BOT {state.paperTrading && "[PAPER]"}{state.shadowMode && "[SHADOW]"}
         </Text>
         <Box gap={2}>
           <Text color={state.wsConnected ? "green" : "yellow"}>
@@ -29,7 +30,13 @@ function Header({ state, config }: { state: BotState; config: BotConfig }) {
           {state.paperTrading && (
             <Text color="yellow" bold>PAPER</Text>
           )}
-          {!state.tradingEnabled && !state.paperTrading && (
+          {state.shadowMode && (
+            <Text color="yellow" bold>SHADOW</Text>
+          )}
+          {state.riskHalt && (
+            <Text color="red" bold>HALTED</Text>
+          )}
+          {!state.tradingEnabled && !state.riskHalt && !state.paperTrading && (
             <Text color="yellow">WATCH</Text>
           )}
           <Text color={state.running ? "green" : "red"}>
@@ -42,13 +49,23 @@ function Header({ state, config }: { state: BotState; config: BotConfig }) {
           <Text color="red" wrap="truncate">Error: {state.initError}</Text>
         </Box>
       )}
+      {state.riskHalt && (
+        <Box marginTop={1}>
+          <Text color="red" wrap="truncate">
+            Risk halt: {state.riskHalt.reason} - entries resume {new Date(state.riskHalt.until).toISOString().slice(0, 16).replace("T", " ")} UTC (exits still managed)
+          </Text>
+        </Box>
+      )}
       <Box marginTop={1} gap={4}>
         <Text>Balance: <Text color="green">${state.balance.toFixed(2)}</Text></Text>
         {state.savedProfit > 0 && (
           <Text>Saved: <Text color="cyan">${state.savedProfit.toFixed(2)}</Text></Text>
         )}
+        <Text>Mode: <Text color="magenta">{config.riskMode}</Text></Text>
         <Text>Entry: <Text color="yellow">${config.entryThreshold.toFixed(2)}-{config.maxEntryPrice.toFixed(2)}</Text></Text>
-        <Text>Stop: <Text color="red">≤${config.stopLoss.toFixed(2)}</Text></Text>
+        <Text>Stop: <Text color="red">≤${config.stopLoss.toFixed(2)}</Text>{config.trailingStop > 0 && (
+          <Text color="red"> trail {config.trailingStopType === "percent" ? `${(config.trailingStop * 100).toFixed(1)}%` : `$${config.trailingStop.toFixed(2)}`}</Text>
+        )}</Text>
         <Text>Pos: <Text color="cyan">{state.positions.size}</Text></Text>
       </Box>
     </Box>
@@ -101,7 +118,7 @@ function MarketsTable({ markets }: { markets: EligibleMarket[] }) {
   );
 }
 
-function PositionsTable({ state, config }: { state: BotState; config: BotConfig }) {
+function PositionsTable({ state, getStopPrice }: { state: BotState; getStopPrice: (position: Position) => number }) {
   const positions = Array.from(state.positions.values());
   const profitTarget = 0.99;
 
@@ -122,7 +139,8 @@ function PositionsTable({ state, config }: { state: BotState; config: BotConfig
         ) : (
           positions.map((p, i) => {
             const potentialWin = (profitTarget - p.entryPrice) * p.shares;
-            const potentialLoss = (p.entryPrice - config.stopLoss) * p.shares;
+            const stopPrice = getStopPrice(p);
+            const potentialLoss = (p.entryPrice - stopPrice) * p.shares;
             return (
               <Box key={i}>
                 <Box width={6}>
@@ -135,7 +153,7 @@ function PositionsTable({ state, config }: { state: BotState; config: BotConfig
                   <Text>{p.shares.toFixed(1)}</Text>
                 </Box>
                 <Box width={8}>
-                  <Text color="red">${config.stopLoss.toFixed(2)}</Text>
+                  <Text color="red">${stopPrice.toFixed(2)}</Text>
                 </Box>
                 <Box width={10}>
                   <Text color="green">+${potentialWin.toFixed(2)}</Text>
@@ -247,6 +265,11 @@ function WsPanel({ stats }: { stats: WsStats }) {
   const marketAge = formatAge(stats.marketLastMessageAt);
   const userAge = formatAge(stats.userLastMessageAt);
   const maxAgeSec = Math.round(stats.priceMaxAgeMs / 1000);
+  const staleCount = stats.tokens.filter(t => t.stale).length;
+  // Position tokens first, then the stalest
+  const shownTokens = [...stats.tokens]
+    .sort((a, b) => Number(b.hasPosition) - Number(a.hasPosition) || b.ageMs - a.ageMs)
+    .slice(0, 6);
 
   return (
     <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1} marginTop={1}>
@@ -280,13 +303,57 @@ function WsPanel({ stats }: { stats: WsStats }) {
       <Box marginTop={1}>
         <Text color="gray">Price max age: {maxAgeSec}s</Text>
       </Box>
+      {shownTokens.length > 0 && (
+        <Box marginTop={1} flexDirection="column">
+          <Box>
+            <Box width={16}><Text color="gray">Token</Text></Box>
+            <Box width={10}><Text color="gray">Last Upd</Text></Box>
+            <Box width={8}><Text color="gray">Pos</Text></Box>
+            <Box width={10}><Text color="gray">REST</Text></Box>
+          </Box>
+          {shownTokens.map((token) => (
+            <Box key={token.tokenId}>
+              <Box width={16}><Text>{token.tokenId.slice(0, 12)}...</Text></Box>
+              <Box width={10}><Text color={token.stale ? "red" : "cyan"}>{token.updatedAt ? formatAge(token.updatedAt) : "none"}</Text></Box>
+              <Box width={8}><Text color={token.hasPosition ? "green" : "gray"}>{token.hasPosition ? "YES" : "-"}</Text></Box>
+              <Box width={10}><Text color="gray">{formatAge(token.restPolledAt)}</Text></Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+      <Box>
+        {stats.feedHealthEnabled ? (
+          <Text color={staleCount > 0 ? "yellow" : "gray"}>
+            Stale ({Math.round(stats.tokenStaleMs / 1000)}s): {staleCount}/{stats.tokens.length}  Resubscribes: {stats.resubscribes}  Reconnects: {stats.reconnects}  REST polls: {stats.restPolls}
+          </Text>
+        ) : (
+          <Text color="gray">Feed watchdog off</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+function ReconcilePanel({ issues }: { issues: ReconcileIssue[] }) {
+  if (issues.length === 0) return null;
+  const [current, ...rest] = issues;
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="red" paddingX={1} marginTop={1}>
+      <Text bold color="red">Reconciliation ({issues.length} pending)</Text>
+      <Text wrap="truncate">{current.description}</Text>
+      <Text color="yellow">[a] Apply fix  [d] Dismiss (leave as is)</Text>
+      {rest.slice(0, 3).map((issue) => (
+        <Text key={issue.id} color="gray" wrap="truncate">next: {issue.description}</Text>
+      ))}
     </Box>
   );
 }
 
-function Controls() {
+function Controls({ reconcilePending }: { reconcilePending: boolean }) {
   return (
     <Box marginTop={1} gap={2}>
+      {reconcilePending && <Text color="yellow">[a/d] Reconcile</Text>}
       <Text color="gray">[s] Start/Stop</Text>
       <Text color="gray">[r] Refresh</Text>
       <Text color="gray">[↑/↓] Scroll logs</Text>
@@ -302,6 +369,7 @@ function App({ bot }: AppProps) {
   const [wsStats, setWsStats] = useState<WsStats>(bot.getWsStats());
   const [markets, setMarkets] = useState<EligibleMarket[]>([]);
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [reconcileIssues, setReconcileIssues] = useState<ReconcileIssue[]>([]);
   const [logScrollOffset, setLogScrollOffset] = useState(0);
   const [autoScroll, setAutoScroll] = useState(true);
   const logDisplayCount = 5;
@@ -309,6 +377,7 @@ function App({ bot }: AppProps) {
   const refresh = async () => {
     setState({ ...bot.getState() });
     setWsStats(bot.getWsStats());
+    setReconcileIssues([...bot.getReconcileIssues()]);
     setTrades(getRecentTrades(10));
     try {
       const m = await bot.getMarketOverview();
@@ -345,6 +414,9 @@ function App({ bot }: AppProps) {
       }
     } else if (input === "r") {
       refresh();
+    } else if ((input === "a" || input === "d") && reconcileIssues.length > 0) {
+      // Operator decision on the oldest pending reconciliation issue
+      bot.resolveReconcileIssue(reconcileIssues[0].id, input === "a").then(() => refresh()).catch(() => refresh());
     } else if (key.upArrow) {
       // Scroll up in logs (increase offset)
       const maxOffset = Math.max(0, state.logs.length - logDisplayCount);
@@ -369,10 +441,11 @@ function App({ bot }: AppProps) {
   return (
     <Box flexDirection="column" padding={1}>
       <Header state={state} config={bot.getConfig()} />
+      <ReconcilePanel issues={reconcileIssues} />
       <Box>
         <Box flexDirection="column" width="50%">
           <MarketsTable markets={markets} />
-          <PositionsTable state={state} config={bot.getConfig()} />
+          <PositionsTable state={state} getStopPrice={(p) => bot.getStopPrice(p)} />
           <Logs logs={state.logs} scrollOffset={logScrollOffset} autoScroll={autoScroll} />
         </Box>
         <Box flexDirection="column" width="50%" marginLeft={1}>
@@ -380,7 +453,7 @@ function App({ bot }: AppProps) {
           <WsPanel stats={wsStats} />
         </Box>
       </Box>
-      <Controls />
+      <Controls reconcilePending={reconcileIssues.length > 0} />
     </Box>
   );
 }
@@ -0,0 +1,514 @@
+/**
+ * Execution venues
+ * Where the bot's orders go: PaperVenue simulates fills against a virtual balance,
+ * LiveVenue places real orders through Trader. The bot uses one code path for both.
+ */
+
+import { MIN_ORDER_SIZE, ORDER_FEE_RATE_BPS, type Trader } from "./trader";
+import type { Side } from "./strategy";
+import type { FeeConfig } from "./config";
+import { applyBuyFee, applySellFee, feeRate } from "./fees";
+import { sizeAtPrice, walkAsks, walkBids, type BookFill, type BookSide, type BookSnapshot } from "./orderbook";
+
+export type VenueExitReason = "STOP_LOSS" | "TAKE_PROFIT" | "EXPIRED";
+
+export interface BuyOrder {
+  tokenId: string;
+  price: number;      // Best ask when the entry was signalled
+  maxPrice?: number;  // Worst ask a paper fill may walk up to (defaults to price)
+  usdc: number;       // USDC to spend (from the sizing policy)
+}
+
+export interface LimitBuyOrder {
+  tokenId: string;
+  price: number;   // Limit price (below the ask, so the order rests on the book)
+  shares: number;
+}
+
+export interface SellOrder {
+  tokenId: string;
+  marketSlug: string;
+  side: Side;
+  shares: number;
+  price: number;    // Expected exit price (profit target, or the bid for a stop-loss)
+  bestBid: number;  // Current best bid (0 = unknown, e.g. expired market)
+  reason: VenueExitReason;
+}
+
+export interface EntryFill {
+  orderId: string;
+  shares: number;  // Shares actually held (after fees)
+  price: number;   // Average fill price
+  cost: number;    // USDC spent
+  fee: number;     // USDC value of the shares taken as fees
+}
+
+export interface ExitFill {
+  orderId: string;
+  shares: number;    // Shares sold (fewer than ordered on a partial fill)
+  price: number;     // Average fill price
+  proceeds: number;  // USDC received (after fees)
+  fee: number;       // USDC taken from the proceeds as fees
+}
+
+export interface OrderFill {
+  filledShares: number;
+  avgPrice: number;
+  fee?: number;  // USDC value of the filled shares taken as fees (maker entries)
+}
+
+export type VenueLog = (message: string, context?: { tokenId?: string }) => void;
+
+// A paper taker fill (buy or market exit), reported for shadow mode comparison
+export interface PaperTakerFill {
+  orderId: string;
+  tokenId: string;
+  side: BookSide;
+  shares: number;  // Before the paper fee
+  price: number;
+}
+
+export interface ExecutionVenue {
+  /** True for simulated (paper) venues */
+  readonly simulated: boolean;
+  /** Taker fee deducted from shares bought at `price`, used for sizing (0 when fills report actual shares) */
+  feeRate(price: number): number;
+  /** Buy and wait for the fill; null if nothing filled (see getLastError) */
+  buy(order: BuyOrder): Promise<EntryFill | null>;
+  /** Post a resting limit buy (maker entry); returns the order id, or null on failure (see getLastError) */
+  placeLimitBuy(order: LimitBuyOrder): Promise<string | null>;
+  /** Sell a position at market; null if the sell failed or cannot happen yet (see getLastError) */
+  sell(order: SellOrder): Promise<ExitFill | null>;
+  /** Cancel an open order */
+  cancel(orderId: string): Promise<boolean>;
+  /** Fill state of an order, or null if unknown */
+  getFill(orderId: string): Promise<OrderFill | null>;
+  /** Current bid/ask from the venue, or null if it has no quote source of its own */
+  getQuote(tokenId: string): Promise<{ bid: number; ask: number } | null>;
+  /** Cash balance held at the venue, or null on API error */
+  getBalance(): Promise<number | null>;
+  /** Why the last buy/sell returned null */
+  getLastError(): string | null;
+}
+
+export interface PaperVenueOptions {
+  balance: number;
+  fees: () => FeeConfig;  // Read on every order so config hot-reload applies
+  resolveWinner: (marketSlug: string) => Promise<Side | null>;
+  getBook?: (tokenId: string) => BookSnapshot | null;  // Current L2 book (fills at the signalled price without one)
+  onTakerFill?: (fill: PaperTakerFill) => void;        // Shadow mode: compare each fill with the live book
+  log: VenueLog;
+}
+
+// Paper limit bid waiting in the queue at its price level
+interface RestingBid {
+  tokenId: string;
+  price: number;
+  shares: number;
+  filled: number;
+  queueAhead: number;  // Shares ahead of us at our price
+  levelSize: number;   // Book size at our price when last checked
+  fee: number;         // Maker fees charged so far (USDC value)
+}
+
+/**
+ * Simulated venue: buys walk the ask side of the L2 book and exits walk the bids, both
+ * with partial fills when depth runs out; without a book orders fill in full at the
+ * signalled price. Fees follow the shared fee model (taken from shares on buys and from
+ * proceeds on exits). Expired positions settle at $1/$0 once the market resolves
+ */
+export class PaperVenue implements ExecutionVenue {
+  readonly simulated = true;
+  private balance: number;
+  private options: PaperVenueOptions;
+  private fills: Map<string, OrderFill> = new Map();
+  private resting: Map<string, RestingBid> = new Map();
+  private nextOrderId = 1;
+  private lastError: string | null = null;
+
+  constructor(options: PaperVenueOptions) {
+    this.options = options;
+    this.balance = options.balance;
+  }
+
+  feeRate(price: number): number {
+    return feeRate(this.options.fees(), "taker", price);
+  }
+
+  /**
+   * Reset the virtual balance (paper balance config change or restart with open positions)
+   */
+  setBalance(balance: number): void {
+    this.balance = balance;
+  }
+
+  async buy(order: BuyOrder): Promise<EntryFill | null> {
+    this.lastError = null;
+    if (order.usdc > this.balance + 1e-9) {
+      this.lastError = `insufficient paper balance ($${this.balance.toFixed(2)})`;
+      return null;
+    }
+
+    let price = order.price;
+    let cost = order.usdc;
+    const book = this.options.getBook?.(order.tokenId);
+    if (book && book.asks.length > 0) {
+      const maxPrice = order.maxPrice ?? order.price;
+      const walk = walkAsks(book.asks, order.usdc, maxPrice);
+      if (walk.shares <= 0) {
+        this.lastError = `no asks at or below $${maxPrice.toFixed(2)} in the book`;
+        return null;
+      }
+      this.logSlippage("Buy", order.tokenId, walk, order.price, `$${walk.notional.toFixed(2)} of $${order.usdc.toFixed(2)}`);
+      price = walk.avgPrice;
+      cost = walk.notional;
+    }
+
+    // The exchange rejects smaller orders, so a thin book at maxPrice cannot fill one either
+    if (cost / price < MIN_ORDER_SIZE) {
+      this.lastError = `fill of ${(cost / price).toFixed(2)} shares below minimum ${MIN_ORDER_SIZE} shares`;
+      return null;
+    }
+
+    const { shares, fee } = applyBuyFee(this.options.fees(), "taker", price, cost);
+    this.balance -= cost;
+    const orderId = this.recordFill(shares, price);
+    this.options.onTakerFill?.({ orderId, tokenId: order.tokenId, side: "BUY", shares: cost / price, price });
+    return { orderId, shares, price, cost, fee };
+  }
+
+  async sell(order: SellOrder): Promise<ExitFill | null> {
+    this.lastError = null;
+    let price = order.price;
+    let shares = order.shares;
+
+    if (order.reason === "EXPIRED") {
+      const winner = await this.options.resolveWinner(order.marketSlug);
+      if (!winner) {
+        this.lastError = "waiting for market resolution";
+        return null;
+      }
+      price = order.side === winner ? 1.00 : 0.00;
+      this.options.log(`[PAPER] Market resolved: ${winner} won - we ${order.side === winner ? "won" : "lost"}`, { tokenId: order.tokenId });
+    } else {
+      const book = this.options.getBook?.(order.tokenId);
+      if (book && book.bids.length > 0) {
+        // Take-profit rests at the target; stop-loss sells into whatever bids there are
+        const minPrice = order.reason === "TAKE_PROFIT" ? order.price : 0;
+        const walk = walkBids(book.bids, order.shares, minPrice);
+        if (walk.shares <= 0) {
+          this.lastError = `no bids at or above $${minPrice.toFixed(2)} in the book`;
+          return null;
+        }
+        this.logSlippage("Sell", order.tokenId, walk, order.price, `${walk.shares.toFixed(2)} of ${order.shares.toFixed(2)} shares`);
+        price = walk.avgPrice;
+        shares = walk.shares;
+      }
+    }
+
+    // Resolution payouts are redemptions, not trades - no fee
+    const { proceeds, fee } = order.reason === "EXPIRED"
+      ? { proceeds: price * shares, fee: 0 }
+      : applySellFee(this.options.fees(), "taker", price, shares);
+    this.balance += proceeds;
+    const orderId = this.recordFill(shares, price);
+    if (order.reason !== "EXPIRED") {
+      this.options.onTakerFill?.({ orderId, tokenId: order.tokenId, side: "SELL", shares, price });
+    }
+    return { orderId, shares, price, proceeds, fee };
+  }
+
+  /**
+   * Rest a bid behind the shares already at its price; it fills as the level ahead of it
+   * trades away or when the ask comes down to it (maker fills pay the maker rate)
+   */
+  async placeLimitBuy(order: LimitBuyOrder): Promise<string | null> {
+    this.lastError = null;
+    const cost = order.price * order.shares;
+    if (cost > this.balance + 1e-9) {
+      this.lastError = `insufficient paper balance ($${this.balance.toFixed(2)})`;
+      return null;
+    }
+
+    const book = this.options.getBook?.(order.tokenId);
+    if (!book) {
+      this.lastError = "no order book to queue against";
+      return null;
+    }
+    if (book.asks.length > 0 && book.asks[0].price <= order.price) {
+      this.lastError = `limit $${order.price.toFixed(2)} would cross the ask $${book.asks[0].price.toFixed(2)}`;
+      return null;
+    }
+
+    const levelSize = sizeAtPrice(book.bids, order.price);
+    const orderId = `paper-${this.nextOrderId++}`;
+    this.resting.set(orderId, { ...order, filled: 0, queueAhead: levelSize, levelSize, fee: 0 });
+    this.fills.set(orderId, { filledShares: 0, avgPrice: order.price, fee: 0 });
+    this.options.log(`[PAPER] Resting bid ${order.shares.toFixed(2)} @ $${order.price.toFixed(2)} (${levelSize.toFixed(0)} shares ahead in queue)`, { tokenId: order.tokenId });
+    return orderId;
+  }
+
+  async cancel(orderId: string): Promise<boolean> {
+    const bid = this.resting.get(orderId);
+    if (!bid) return false; // Market orders fill immediately
+    this.advanceQueue(orderId, bid); // Keep anything that filled before the cancel
+    this.resting.delete(orderId);
+    return true;
+  }
+
+  async getFill(orderId: string): Promise<OrderFill | null> {
+    const bid = this.resting.get(orderId);
+    if (bid) {
+      this.advanceQueue(orderId, bid);
+    }
+    return this.fills.get(orderId) ?? null;
+  }
+
+  async getQuote(_tokenId: string): Promise<{ bid: number; ask: number } | null> {
+    return null; // Paper trading prices come from the WebSocket only
+  }
+
+  async getBalance(): Promise<number | null> {
+    return this.balance;
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
+  /**
+   * Log a book-walked fill: VWAP vs the signalled price, levels touched, and any partial fill
+   */
+  private logSlippage(action: "Buy" | "Sell", tokenId: string, walk: BookFill, expectedPrice: number, partial: string): void {
+    // Positive slippage = worse than expected (paid more / received less)
+    const diff = action === "Buy" ? walk.avgPrice - expectedPrice : expectedPrice - walk.avgPrice;
+    const slippage = expectedPrice > 0 ? (diff / expectedPrice) * 100 : 0;
+    const levels = `${walk.levels} level${walk.levels === 1 ? "" : "s"}`;
+    const partialNote = walk.complete ? "" : ` - partial fill: ${partial}`;
+    this.options.log(
+      `[PAPER] ${action} VWAP $${walk.avgPrice.toFixed(3)} vs $${expectedPrice.toFixed(3)} expected across ${levels} (slippage ${slippage >= 0 ? "+" : ""}${slippage.toFixed(2)}%)${partialNote}`,
+      { tokenId }
+    );
+  }
+
+  /**
+   * Move a resting bid through the queue using the current book
+   * Size leaving our level counts against the queue ahead of us first; only while we are
+   * the best bid can it reach us (higher bids would trade first). An ask at or below our
+   * price trades through the whole level and fills the rest.
+   */
+  private advanceQueue(orderId: string, bid: RestingBid): void {
+    const book = this.options.getBook?.(bid.tokenId);
+    if (!book) return;
+
+    const remaining = bid.shares - bid.filled;
+    let fillShares = 0;
+    const bestAsk = book.asks.length > 0 ? book.asks[0].price : 1;
+    const bestBid = book.bids.length > 0 ? book.bids[0].price : 0;
+    const levelSize = sizeAtPrice(book.bids, bid.price);
+
+    if (bestAsk <= bid.price) {
+      fillShares = remaining;
+    } else {
+      const consumed = Math.max(0, bid.levelSize - levelSize);
+      const reachesUs = consumed - bid.queueAhead;
+      bid.queueAhead = Math.max(0, bid.queueAhead - consumed);
+      if (reachesUs > 0 && bestBid <= bid.price) {
+        fillShares = Math.min(remaining, reachesUs);
+      }
+    }
+    bid.levelSize = levelSize;
+
+    if (fillShares <= 1e-9) return;
+    bid.filled += fillShares;
+    bid.fee += applyBuyFee(this.options.fees(), "maker", bid.price, fillShares * bid.price).fee;
+    this.balance -= fillShares * bid.price;
+    this.fills.set(orderId, { filledShares: bid.filled, avgPrice: bid.price, fee: bid.fee });
+    this.options.log(`[PAPER] Maker fill ${fillShares.toFixed(2)} @ $${bid.price.toFixed(2)} (${bid.filled.toFixed(2)}/${bid.shares.toFixed(2)})`, { tokenId: bid.tokenId });
+    if (bid.filled >= bid.shares - 1e-9) {
+      this.resting.delete(orderId);
+    }
+  }
+
+  private recordFill(shares: number, price: number): string {
+    const orderId = `paper-${this.nextOrderId++}`;
+    this.fills.set(orderId, { filledShares: shares, avgPrice: price });
+    return orderId;
+  }
+}
+
+const FILL_TIMEOUT_MS = 10000;
+const SETTLEMENT_DELAY_MS = 3000;
+const SETTLEMENT_ATTEMPTS = 5;
+const MAX_EXIT_FEE_FRACTION = ORDER_FEE_RATE_BPS / 10000; // Larger gaps between fill and cash received are not fees
+
+/**
+ * Real venue: orders go to Polymarket through Trader
+ * Fees are measured, not modelled: entries from the settled share balance, exits from the
+ * settled USDC balance, maker fills from their trades' fee_rate_bps
+ */
+export class LiveVenue implements ExecutionVenue {
+  readonly simulated = false;
+  private trader: Trader;
+  private fees: () => FeeConfig;
+  private log: VenueLog;
+  private resolveWinner: (marketSlug: string) => Promise<Side | null>;
+  private lastError: string | null = null;
+
+  constructor(trader: Trader, fees: () => FeeConfig, log: VenueLog, resolveWinner: (marketSlug: string) => Promise<Side | null>) {
+    this.trader = trader;
+    this.fees = fees;
+    this.log = log;
+    this.resolveWinner = resolveWinner;
+  }
+
+  feeRate(_price: number): number {
+    return 0; // Actual shares are read back after settlement
+  }
+
+  async buy(order: BuyOrder): Promise<EntryFill | null> {
+    const { tokenId } = order;
+    this.lastError = null;
+
+    const result = await this.trader.buy(tokenId, order.price, order.usdc);
+    if (!result) {
+      this.lastError = "order failed";
+      return null;
+    }
+
+    // Wait for order to fill (with timeout)
+    this.log("Order placed, waiting for fill...");
+    const fillInfo = await this.trader.waitForFill(result.orderId, FILL_TIMEOUT_MS);
+    if (!fillInfo || fillInfo.filledShares <= 0) {
+      // Order didn't fill - cancel it and abort
+      this.log("Order did not fill, cancelling...");
+      await this.trader.cancelOrder(result.orderId);
+      this.lastError = "order did not fill";
+      return null;
+    }
+
+    // Use actual fill data instead of assumed values
+    const filledShares = fillInfo.filledShares;
+    const price = fillInfo.avgPrice || order.price;
+    this.log(`Order filled: ${filledShares.toFixed(2)} shares @ $${price.toFixed(2)}`, { tokenId });
+
+    // Wait for position to settle, then read the ACTUAL position balance (may differ due to fees)
+    this.log("Waiting for position settlement...");
+    await new Promise(resolve => setTimeout(resolve, SETTLEMENT_DELAY_MS));
+
+    let positionBalance: number | null = null;
+    for (let attempt = 1; attempt <= SETTLEMENT_ATTEMPTS; attempt++) {
+      positionBalance = await this.trader.getPositionBalance(tokenId);
+      if (positionBalance !== null && positionBalance > 0) break;
+      if (attempt < SETTLEMENT_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+    const shares = (positionBalance !== null && positionBalance > 0) ? positionBalance : filledShares;
+    if (Math.abs(shares - filledShares) > 0.01) {
+      this.log(`Adjusted shares: ${filledShares.toFixed(2)} → ${shares.toFixed(2)} (actual balance)`);
+    }
+
+    // Fee shares show up as the gap between the fill and the settled balance
+    const fee = Math.max(0, filledShares - shares) * price;
+    return { orderId: result.orderId, shares, price, cost: filledShares * price, fee };
+  }
+
+  async placeLimitBuy(order: LimitBuyOrder): Promise<string | null> {
+    this.lastError = null;
+    const result = await this.trader.limitBuy(order.tokenId, order.price, order.shares);
+    if (!result) {
+      this.lastError = "order failed";
+      return null;
+    }
+    return result.orderId;
+  }
+
+  async sell(order: SellOrder): Promise<ExitFill | null> {
+    this.lastError = null;
+
+    // A resolved market has no book to sell into: its shares redeem at the payout (no fee)
+    if (order.reason === "EXPIRED") {
+      const winner = await this.resolveWinner(order.marketSlug);
+      if (winner) {
+        const price = order.side === winner ? 1.00 : 0.00;
+        this.log(`Market resolved: ${winner} won - ${order.shares.toFixed(2)} shares settle at $${price.toFixed(2)}`, { tokenId: order.tokenId });
+        return { orderId: "", shares: order.shares, price, proceeds: price * order.shares, fee: 0 };
+      }
+    }
+
+    const balanceBefore = await this.trader.getBalance();
+
+    // Expired but unresolved markets have no meaningful bid - let Trader price the sell from the book
+    const bidOverride = order.reason === "EXPIRED" ? undefined : order.bestBid;
+    const result = await this.trader.marketSell(order.tokenId, order.shares, bidOverride);
+    if (!result) {
+      this.lastError = this.trader.getLastMarketSellError() ?? "market sell failed";
+      return null;
+    }
+
+    // The fee is whatever the fill's notional did not bring in
+    const gross = result.price * order.shares;
+    const received = await this.settledProceeds(balanceBefore, gross, order.shares);
+    if (received !== null) {
+      return { orderId: result.orderId, shares: order.shares, price: result.price, proceeds: received, fee: Math.max(0, gross - received) };
+    }
+
+    // Balance unreadable or moved by something else: the trades' fee rates, then the fee model
+    const charged = await this.trader.getOrderFees(result.orderId, order.tokenId);
+    if (charged) {
+      return { orderId: result.orderId, shares: order.shares, price: result.price, proceeds: gross - charged.fee, fee: charged.fee };
+    }
+    const { proceeds, fee } = applySellFee(this.fees(), "taker", result.price, order.shares);
+    this.log(`Exit fee could not be measured - estimated $${fee.toFixed(2)} with the fee model`, { tokenId: order.tokenId });
+    return { orderId: result.orderId, shares: order.shares, price: result.price, proceeds, fee };
+  }
+
+  /**
+   * USDC the sell added to the balance once it settles, or null if it cannot be told apart
+   * (balance unreadable, unchanged, or off by more than a fee from the fill's notional)
+   */
+  private async settledProceeds(balanceBefore: number | null, gross: number, shares: number): Promise<number | null> {
+    if (balanceBefore === null) return null;
+    await new Promise(resolve => setTimeout(resolve, SETTLEMENT_DELAY_MS));
+    for (let attempt = 1; attempt <= SETTLEMENT_ATTEMPTS; attempt++) {
+      const balance = await this.trader.getBalance();
+      if (balance !== null && balance > balanceBefore) {
+        const received = balance - balanceBefore;
+        // At most $1 a share, and no more than the order's fee ceiling below the notional
+        return received <= shares && received >= gross * (1 - MAX_EXIT_FEE_FRACTION) ? received : null;
+      }
+      if (attempt < SETTLEMENT_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+    return null;
+  }
+
+  async cancel(orderId: string): Promise<boolean> {
+    return this.trader.cancelOrder(orderId);
+  }
+
+  async getFill(orderId: string): Promise<OrderFill | null> {
+    const info = await this.trader.getOrderFillInfo(orderId);
+    if (!info) return null;
+    if (info.filledShares <= 0) return { filledShares: 0, avgPrice: info.avgPrice, fee: 0 };
+    // Only maker entries poll fills: their fee comes from the order's trades (fee model if none are listed yet)
+    const charged = info.tokenId ? await this.trader.getOrderFees(orderId, info.tokenId) : null;
+    const fee = charged?.fee ?? applyBuyFee(this.fees(), "maker", info.avgPrice, info.filledShares * info.avgPrice).fee;
+    return { filledShares: info.filledShares, avgPrice: info.avgPrice, fee };
+  }
+
+  async getQuote(tokenId: string): Promise<{ bid: number; ask: number } | null> {
+    const { bid, ask } = await this.trader.getPrice(tokenId);
+    return { bid, ask };
+  }
+
+  async getBalance(): Promise<number | null> {
+    return this.trader.getBalance();
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+}
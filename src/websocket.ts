@@ -1,8 +1,9 @@
 import WebSocket from "ws";
+import { L2Book, depthMetrics, type BookLevel, type BookSide, type BookSnapshot, type DepthMetrics } from "./orderbook";
+import { systemClock, type Clock } from "./clock";
+import { TradeTape, type TapeStats, type TapeTrade, type TradeSide } from "./trade-tape";
 
-const WS_BASE_URL = "wss://ws-subscriptions-clob.polymarket.com";
-const MARKET_WS_URL = `${WS_BASE_URL}/ws/market`;
-const USER_WS_URL = `${WS_BASE_URL}/ws/user`;
+const WS_BASE_URL = "wss://ws-subscriptions-clob.polymarket.com"; // Default, overridden by endpoints.wsUrl
 const SUBSCRIBE_TIMEOUT_MS = 5000;
 
 export interface PriceUpdate {
@@ -28,6 +29,13 @@ export interface MarketEvent {
   timestamp?: number;
 }
 
+// When a subscribed token was subscribed and last updated (feed health)
+export interface TokenActivity {
+  tokenId: string;
+  subscribedAt: number;
+  updatedAt: number;  // Last price update received (0 = none yet)
+}
+
 export interface UserAuth {
   apiKey: string;
   secret: string;
@@ -58,6 +66,7 @@ export interface UserOrderEvent {
 }
 
 type PriceCallback = (update: PriceUpdate) => void;
+type TradeCallback = (trade: TapeTrade) => void;
 type MarketCallback = (event: MarketEvent) => void;
 type ConnectionCallback = (connected: boolean) => void;
 
@@ -68,11 +77,15 @@ const MAX_PRICE_CACHE_SIZE = 500;
 
 export class PriceStream {
   private ws: WebSocket | null = null;
-  private subscriptions: Set<string> = new Set();
+  protected subscriptions: Set<string> = new Set();
   private pendingSubscriptions: Set<string> = new Set();
   private prices: Map<string, PriceUpdate> = new Map();
+  private books: Map<string, L2Book> = new Map();
   private tickSizes: Map<string, number> = new Map();
+  private tokenActivity: Map<string, TokenActivity> = new Map();
   private callbacks: PriceCallback[] = [];
+  private tradeCallbacks: TradeCallback[] = [];
+  private tape: TradeTape = new TradeTape();
   private marketCallbacks: MarketCallback[] = [];
   private connectionCallbacks: ConnectionCallback[] = [];
   private reconnectTimer: Timer | null = null;
@@ -80,10 +93,15 @@ export class PriceStream {
   private subscriptionCheckTimer: Timer | null = null;
   private connected = false;
   private intentionalReconnect = false;
-  private lastMessageAt = 0;
+  protected lastMessageAt = 0;
   private reconnectAttempts = 0;
+  private url: string;
+  protected clock: Clock;
 
-  constructor() {}
+  constructor(baseUrl: string = WS_BASE_URL, clock: Clock = systemClock) {
+    this.url = `${baseUrl}/ws/market`;
+    this.clock = clock;
+  }
 
   private clearTimers(): void {
     if (this.reconnectTimer) {
@@ -103,7 +121,7 @@ export class PriceStream {
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(MARKET_WS_URL);
+        this.ws = new WebSocket(this.url);
 
         const timeout = setTimeout(() => {
           reject(new Error("WebSocket connection timeout"));
@@ -137,7 +155,7 @@ export class PriceStream {
           try {
             const msg = event.data.toString();
             if (msg === "PONG") return;
-            this.lastMessageAt = Date.now();
+            this.lastMessageAt = this.clock.now();
 
             const data = JSON.parse(msg);
             // Debug: uncomment to see all messages
@@ -158,6 +176,7 @@ export class PriceStream {
           this.notifyConnectionChange(false);
           this.clearTimers();
           this.pendingSubscriptions.clear();
+          this.books.clear(); // Deltas were missed; resubscribing delivers fresh snapshots
 
           // Calculate reconnect delay with exponential backoff
           let delay: number;
@@ -223,12 +242,12 @@ export class PriceStream {
 
   private parseTimestamp(value: any): number {
     if (value === undefined || value === null) {
-      return Date.now();
+      return this.clock.now();
     }
     if (typeof value === "string") {
       const trimmed = value.trim();
       if (trimmed.length === 0) {
-        return Date.now();
+        return this.clock.now();
       }
       if (/[T-]/.test(trimmed)) {
         const parsedDate = Date.parse(trimmed);
@@ -240,7 +259,7 @@ export class PriceStream {
 
     const parsed = typeof value === "number" ? value : parseFloat(value);
     if (!Number.isFinite(parsed) || parsed <= 0) {
-      return Date.now();
+      return this.clock.now();
     }
     // Treat 10-digit values as seconds, convert to ms.
     if (parsed < 1_000_000_000_000) {
@@ -256,7 +275,7 @@ export class PriceStream {
     return Number.isFinite(price) && price >= 0 && price <= 1;
   }
 
-  private recordPrice(update: PriceUpdate) {
+  protected recordPrice(update: PriceUpdate) {
     // Validate prices before recording
     if (!this.isValidPrice(update.bestBid) || !this.isValidPrice(update.bestAsk)) {
       console.warn(`[WS] Invalid price for ${update.tokenId}: bid=${update.bestBid}, ask=${update.bestAsk}`);
@@ -274,13 +293,58 @@ export class PriceStream {
 
     this.prices.set(update.tokenId, update);
     this.pendingSubscriptions.delete(update.tokenId);
+    const activity = this.tokenActivity.get(update.tokenId);
+    if (activity) {
+      activity.updatedAt = this.clock.now();
+    }
     this.notifyCallbacks(update);
   }
 
+  /**
+   * Parse `{ price, size }` levels from a book message
+   */
+  private parseLevels(levels: any): BookLevel[] {
+    if (!Array.isArray(levels)) return [];
+    return levels
+      .map((level: any) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+      .filter((level) => Number.isFinite(level.price) && Number.isFinite(level.size));
+  }
+
+  /**
+   * Get (or create) the L2 book for a token, evicting the oldest book if over the cache limit
+   */
+  private getOrCreateBook(tokenId: string): L2Book {
+    let book = this.books.get(tokenId);
+    if (!book) {
+      if (this.books.size >= MAX_PRICE_CACHE_SIZE) {
+        const oldestKey = this.books.keys().next().value;
+        if (oldestKey) {
+          this.books.delete(oldestKey);
+        }
+      }
+      book = new L2Book(tokenId);
+      this.books.set(tokenId, book);
+    }
+    return book;
+  }
+
+  /**
+   * Apply a single level change (`side` BUY = bid, SELL = ask; size is the new total at that price)
+   * Ignored until a full `book` snapshot has arrived for the token
+   */
+  private applyBookDelta(tokenId: string, change: any, timestamp: number) {
+    const book = this.books.get(tokenId);
+    if (!book || change.size === undefined || change.price === undefined) return;
+    const side = String(change.side ?? "").toUpperCase();
+    if (side !== "BUY" && side !== "SELL") return;
+    book.applyDelta(side as BookSide, parseFloat(change.price), parseFloat(change.size), timestamp);
+  }
+
   private handlePriceChangeItem(item: any, timestamp?: any) {
     const tokenId = item.asset_id;
     if (!tokenId) return;
     const eventTimestamp = this.parseTimestamp(timestamp ?? item.timestamp);
+    this.applyBookDelta(tokenId, item, eventTimestamp);
 
     // Check if this has best_bid/best_ask (real market price)
     if (item.best_bid !== undefined && item.best_ask !== undefined) {
@@ -331,6 +395,7 @@ export class PriceStream {
 
     const bids = data.bids || [];
     const asks = data.asks || [];
+    this.getOrCreateBook(tokenId).applySnapshot(this.parseLevels(bids), this.parseLevels(asks), eventTimestamp);
 
     // Find best bid (highest price someone will pay)
     let bestBid = 0;
@@ -375,6 +440,13 @@ export class PriceStream {
     if (!tokenId) return;
     const eventTimestamp = this.parseTimestamp(data.timestamp);
 
+    // Legacy format carries level deltas in `changes`
+    if (Array.isArray(data.changes)) {
+      for (const change of data.changes) {
+        this.applyBookDelta(tokenId, change, eventTimestamp);
+      }
+    }
+
     const bestBid = parseFloat(data.best_bid || "0");
     const bestAsk = parseFloat(data.best_ask || "1");
 
@@ -413,6 +485,30 @@ export class PriceStream {
       source: "last_trade_price"
     };
     this.recordPrice(update);
+
+    const side = String(data.side || "").toUpperCase();
+    this.recordTrade({
+      tokenId,
+      price,
+      size: parseFloat(data.size || "0"),
+      side: side === "BUY" || side === "SELL" ? side as TradeSide : null,
+      timestamp: eventTimestamp
+    });
+  }
+
+  /**
+   * Add a trade to the tape and pass it on (trades without a size only move the price)
+   */
+  protected recordTrade(trade: TapeTrade) {
+    if (!this.subscriptions.has(trade.tokenId) || !(trade.size > 0) || !this.isValidPrice(trade.price)) return;
+    this.tape.add(trade);
+    for (const cb of this.tradeCallbacks) {
+      try {
+        cb(trade);
+      } catch (err) {
+        console.error(`[WS] Trade callback error for ${trade.tokenId}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
   }
 
   private handleBestBidAsk(data: any) {
@@ -474,7 +570,7 @@ export class PriceStream {
     }
   }
 
-  private notifyMarketEvent(event: MarketEvent) {
+  protected notifyMarketEvent(event: MarketEvent) {
     for (const cb of this.marketCallbacks) {
       try {
         cb(event);
@@ -517,8 +613,10 @@ export class PriceStream {
 
     if (newTokenIds.length === 0) return;
 
+    const now = this.clock.now();
     for (const id of newTokenIds) {
       this.subscriptions.add(id);
+      this.tokenActivity.set(id, { tokenId: id, subscribedAt: now, updatedAt: 0 });
     }
 
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
@@ -533,6 +631,9 @@ export class PriceStream {
 
     for (const id of existingTokenIds) {
       this.subscriptions.delete(id);
+      this.books.delete(id);
+      this.tokenActivity.delete(id);
+      this.tape.remove(id);
     }
 
     if (this.connected && this.ws?.readyState === WebSocket.OPEN) {
@@ -556,7 +657,25 @@ export class PriceStream {
     }, SUBSCRIBE_TIMEOUT_MS);
   }
 
-  private reconnect() {
+  /**
+   * Unsubscribe and subscribe again (the server sends fresh book snapshots); falls back to
+   * a reconnect if they don't arrive. False if the socket is not open
+   */
+  resubscribe(tokenIds: string[]): boolean {
+    const subscribed = tokenIds.filter(id => this.subscriptions.has(id));
+    if (subscribed.length === 0 || !this.connected || this.ws?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.sendSubscription(subscribed, "unsubscribe");
+    this.sendSubscription(subscribed, "subscribe");
+    this.scheduleSubscriptionCheck(subscribed);
+    return true;
+  }
+
+  /**
+   * Drop the connection and reconnect immediately (resubscribes everything)
+   */
+  reconnect() {
     // Close current connection (onclose handler will auto-reconnect)
     this.intentionalReconnect = true;
     if (this.ws) {
@@ -568,6 +687,10 @@ export class PriceStream {
     this.callbacks.push(callback);
   }
 
+  onTrade(callback: TradeCallback) {
+    this.tradeCallbacks.push(callback);
+  }
+
   onMarketEvent(callback: MarketCallback) {
     this.marketCallbacks.push(callback);
   }
@@ -579,12 +702,40 @@ export class PriceStream {
   getPrice(tokenId: string, maxAgeMs?: number): PriceUpdate | null {
     const update = this.prices.get(tokenId) || null;
     if (!update) return null;
-    if (maxAgeMs !== undefined && Date.now() - update.timestamp > maxAgeMs) {
+    if (maxAgeMs !== undefined && this.clock.now() - update.timestamp > maxAgeMs) {
       return null;
     }
     return update;
   }
 
+  /**
+   * Full L2 book for a token (bids best-first, asks best-first), or null if no
+   * snapshot has arrived (or it is older than maxAgeMs)
+   */
+  getBook(tokenId: string, maxAgeMs?: number): BookSnapshot | null {
+    const book = this.books.get(tokenId);
+    if (!book) return null;
+    if (maxAgeMs !== undefined && this.clock.now() - book.getUpdatedAt() > maxAgeMs) {
+      return null;
+    }
+    return book.snapshot();
+  }
+
+  /**
+   * Depth near the top of a token's book (see depthMetrics), or null without a fresh book
+   */
+  getDepth(tokenId: string, band: number, maxPrice: number, maxAgeMs?: number): DepthMetrics | null {
+    const book = this.getBook(tokenId, maxAgeMs);
+    return book ? depthMetrics(book, band, maxPrice) : null;
+  }
+
+  /**
+   * Trade tape totals for a token over the last `windowMs`
+   */
+  getTradeStats(tokenId: string, windowMs: number): TapeStats {
+    return this.tape.getStats(tokenId, windowMs, this.clock.now());
+  }
+
   getTickSize(tokenId: string): number | null {
     return this.tickSizes.get(tokenId) ?? null;
   }
@@ -605,9 +756,17 @@ export class PriceStream {
     return this.prices.size;
   }
 
+  /**
+   * Subscription and last update time of every subscribed token
+   */
+  getTokenActivity(): TokenActivity[] {
+    return [...this.tokenActivity.values()].map(activity => ({ ...activity }));
+  }
+
   close() {
     this.clearTimers();
     if (this.ws) {
+      this.ws.onclose = null; // Closing on purpose: don't schedule a reconnect
       this.ws.close();
       this.ws = null;
     }
@@ -633,6 +792,13 @@ export class UserStream {
   private intentionalReconnect = false;
   private lastMessageAt = 0;
   private reconnectAttempts = 0;
+  private url: string;
+  private clock: Clock;
+
+  constructor(baseUrl: string = WS_BASE_URL, clock: Clock = systemClock) {
+    this.url = `${baseUrl}/ws/user`;
+    this.clock = clock;
+  }
 
   private clearTimers(): void {
     if (this.reconnectTimer) {
@@ -659,7 +825,7 @@ export class UserStream {
           return;
         }
 
-        this.ws = new WebSocket(USER_WS_URL);
+        this.ws = new WebSocket(this.url);
 
         const timeout = setTimeout(() => {
           reject(new Error("User WebSocket connection timeout"));
@@ -696,7 +862,7 @@ export class UserStream {
           try {
             const msg = event.data.toString();
             if (msg === "PONG") return;
-            this.lastMessageAt = Date.now();
+            this.lastMessageAt = this.clock.now();
 
             const data = JSON.parse(msg);
             this.handleMessage(data);
@@ -845,6 +1011,7 @@ export class UserStream {
   close() {
     this.clearTimers();
     if (this.ws) {
+      this.ws.onclose = null; // Closing on purpose: don't schedule a reconnect
       this.ws.close();
       this.ws = null;
     }
@@ -855,9 +1022,9 @@ export class UserStream {
 // Singleton instance
 let priceStream: PriceStream | null = null;
 
-export function getPriceStream(): PriceStream {
+export function getPriceStream(baseUrl?: string, clock?: Clock): PriceStream {
   if (!priceStream) {
-    priceStream = new PriceStream();
+    priceStream = new PriceStream(baseUrl, clock);
   }
   return priceStream;
 }